@@ -2,6 +2,12 @@
  * Background script for Earth Agent extension
  */
 
+import { throwIfAborted } from '../lib/abort';
+import { clearSnapshots, saveSnapshot } from '../lib/editor/snapshots';
+import { importsHeader } from '../lib/editor/imports';
+import { createMessageHandler, MessageError, sendToTab } from '../lib/messaging';
+import { BackgroundRequestSchema, BackgroundResponseSchemas, InjectionMode } from '../lib/messaging/protocol';
+
 // Earth Engine editor URL
 const EARTH_ENGINE_EDITOR_URL = 'https://code.earthengine.google.com';
 
@@ -23,144 +29,182 @@ chrome.action.onClicked.addListener((tab) => {
 });
 
 // Message handling between content script and sidepanel
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  console.log('Background received message:', message, 'from:', sender);
+chrome.runtime.onMessage.addListener(createMessageHandler(BackgroundRequestSchema, BackgroundResponseSchemas, {
+  TEST_CONNECTION: async () => ({ message: 'Background connection successful' }),
 
-  // Handle different message types here
-  if (message.type === 'TEST_CONNECTION') {
-    sendResponse({ success: true, message: 'Background connection successful' });
-    return true;
-  }
-  
-  if (message.type === 'OPEN_EARTH_ENGINE_AND_RUN_CODE') {
+  CONTENT_SCRIPT_LOADED: async ({ url }, sender) => {
+    console.log('Content script loaded in tab', sender.tab?.id, url);
+    return {};
+  },
+
+  OPEN_EARTH_ENGINE_AND_RUN_CODE: async ({ code, mode, base }, _sender, signal) => {
     console.log('Received request to open Earth Engine and run code');
-    
-    // Get the code to inject
-    const code = message.code;
-    if (!code) {
-      sendResponse({ success: false, error: 'No code provided' });
-      return true;
+    const tabId = await openEarthEngineTab();
+    return { result: await injectAndRunCodeInTab(tabId, code, mode, base, signal), tabId };
+  },
+
+  SAVE_EDITOR_SNAPSHOT: async ({ code }, sender) => {
+    if (!sender.tab?.id) {
+      throw new Error('Snapshots can only be saved from an Earth Engine tab');
     }
-    
+    return { saved: (await saveSnapshot(sender.tab.id, code)) !== null };
+  }
+}));
+
+// Editor snapshots are kept per tab, so they go when the tab does
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearSnapshots(tabId).catch(error => console.error('Error clearing editor snapshots:', error));
+});
+
+/**
+ * Activate the Earth Engine tab, opening one if needed, and resolve with its ID
+ */
+function openEarthEngineTab(): Promise<number> {
+  return new Promise((resolve, reject) => {
     // Check if Earth Engine is already open in a tab
     chrome.tabs.query({ url: `${EARTH_ENGINE_EDITOR_URL}/*` }, (tabs) => {
-      if (tabs.length > 0) {
-        const earthEngineTab = tabs[0];
+      if (tabs.length > 0 && tabs[0].id) {
+        const earthEngineTabId = tabs[0].id;
         
         // Activate the tab
-        chrome.tabs.update(earthEngineTab.id!, { active: true }, () => {
-          // Inject the code
-          injectAndRunCodeInTab(earthEngineTab.id!, code, sendResponse);
-        });
-      } else {
-        // Open Earth Engine in a new tab
-        chrome.tabs.create({ url: EARTH_ENGINE_EDITOR_URL }, (newTab) => {
-          if (!newTab || !newTab.id) {
-            sendResponse({ success: false, error: 'Failed to open Earth Engine' });
-            return;
-          }
-          
-          console.log('Opened new Earth Engine tab, waiting for it to load');
-          
-          // Set up a listener to wait for the page to load
-          const listener = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-            if (tabId === newTab.id && changeInfo.status === 'complete') {
-              // Remove the listener once the page is loaded
-              chrome.tabs.onUpdated.removeListener(listener);
-              
-              console.log('Earth Engine page loaded, waiting for initialization');
-              
-              // Wait for Earth Engine to initialize
-              setTimeout(() => {
-                injectAndRunCodeInTab(newTab.id!, code, sendResponse);
-              }, 5000); // Wait 5 seconds for Earth Engine to initialize
-            }
-          };
-          
-          // Add the listener
-          chrome.tabs.onUpdated.addListener(listener);
-        });
+        chrome.tabs.update(earthEngineTabId, { active: true }, () => resolve(earthEngineTabId));
+        return;
       }
-    });
-    
-    return true; // Using sendResponse asynchronously
-  }
 
-  // For async responses
-  return true;
-});
+      // Open Earth Engine in a new tab
+      chrome.tabs.create({ url: EARTH_ENGINE_EDITOR_URL }, (newTab) => {
+        if (!newTab || !newTab.id) {
+          reject(new Error('Failed to open Earth Engine'));
+          return;
+        }
+        
+        console.log('Opened new Earth Engine tab, waiting for it to load');
+        
+        // Set up a listener to wait for the page to load
+        const listener = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+          if (tabId === newTab.id && changeInfo.status === 'complete') {
+            // Remove the listener once the page is loaded
+            chrome.tabs.onUpdated.removeListener(listener);
+            
+            console.log('Earth Engine page loaded, waiting for initialization');
+            
+            // Wait 5 seconds for Earth Engine to initialize
+            setTimeout(() => resolve(newTab.id!), 5000);
+          }
+        };
+        
+        // Add the listener
+        chrome.tabs.onUpdated.addListener(listener);
+      });
+    });
+  });
+}
 
 /**
  * Injects and runs code in a specific tab
  */
-function injectAndRunCodeInTab(tabId: number, code: string, sendResponse: (response: any) => void) {
+async function injectAndRunCodeInTab(
+  tabId: number,
+  code: string,
+  mode: InjectionMode = 'replace',
+  base?: string,
+  signal?: AbortSignal
+): Promise<string> {
   console.log(`Injecting code into tab ${tabId}`);
   
-  chrome.tabs.sendMessage(
-    tabId,
-    { type: 'RUN_CODE', code },
-    (response) => {
-      if (chrome.runtime.lastError) {
-        console.error('Error sending message to tab:', chrome.runtime.lastError);
+  try {
+    // Cancelling the request here cancels the run in the tab too
+    const { result } = await sendToTab(tabId, 'RUN_CODE', { code, mode, base }, { signal });
+    return result;
+  } catch (error) {
+    console.error('Error sending message to tab:', error);
+    if (!(error instanceof MessageError && error.reason === 'unreachable')) {
+      throw error;
+    }
+    // The fallback below can only replace the whole script
+    if (mode !== 'replace') {
+      throw new Error(`${error.message}. Reload the Earth Engine tab to ${mode} code.`);
+    }
+  }
+
+  // The content script might not be loaded yet, let's try with executeScript.
+  // The script is read and backed up first, and left alone if that fails.
+  throwIfAborted(signal);
+  const [read] = await chrome.scripting.executeScript({
+    target: { tabId },
+    // The page's own world, where the Ace editor instance is reachable
+    world: 'MAIN',
+    func: () => {
+      const editorElement = document.querySelector('.ace_editor') as (Element & { env?: { editor?: any } }) | null;
+      const editor = editorElement && (editorElement.env?.editor || (window as any).ace?.edit(editorElement));
+      if (!editor) {
+        return { success: false, error: 'Could not find editor', code: '' };
+      }
+      return { success: true, code: editor.getValue() as string };
+    }
+  });
+  const current = read?.result;
+  if (!current?.success) {
+    throw new Error(current?.error || 'Unknown error');
+  }
+  // The drawn geometries live in the imports header, so it stays on top
+  const header = importsHeader(current.code);
+  const injected = header && !importsHeader(code) ? `${header}\n\n${code}` : code;
+  if (current.code !== injected) {
+    try {
+      await saveSnapshot(tabId, current.code);
+    } catch (error) {
+      console.error('Error saving editor snapshot:', error);
+      throw new Error(`Could not back up the current code, so the editor was left unchanged: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throwIfAborted(signal);
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    world: 'MAIN',
+    func: (codeToInject) => {
+      // This function runs in the context of the page
+      console.log('Executing code injection via executeScript');
+      
+      // Try to find the ACE editor
+      const editorElement = document.querySelector('.ace_editor') as (Element & { env?: { editor?: any } }) | null;
+      if (!editorElement) {
+        console.error('Could not find ACE editor');
+        return { success: false, error: 'Could not find editor' };
+      }
+      
+      try {
+        const ace = (window as any).ace;
+        const editor = editorElement.env?.editor || ace?.edit(editorElement);
+        if (!editor) {
+          return { success: false, error: 'Could not reach the ACE editor' };
+        }
+        editor.setValue(codeToInject, 1);
         
-        // The content script might not be loaded yet, let's try with executeScript
-        chrome.scripting.executeScript({
-          target: { tabId },
-          func: (codeToInject) => {
-            // This function runs in the context of the page
-            console.log('Executing code injection via executeScript');
-            
-            // Try to find the ACE editor
-            const editorElement = document.querySelector('.ace_editor');
-            if (!editorElement) {
-              console.error('Could not find ACE editor');
-              return { success: false, error: 'Could not find editor' };
-            }
-            
-            try {
-              // Try direct text input manipulation
-              const textInput = document.querySelector('.ace_text-input');
-              if (textInput) {
-                console.log('Found text input, setting value');
-                (textInput as HTMLTextAreaElement).focus();
-                document.execCommand('selectAll', false);
-                document.execCommand('insertText', false, codeToInject);
-                
-                // Click run button
-                const runButton = document.querySelector('.goog-button.run-button') || 
-                                 document.querySelector('button[title="Run"]');
-                if (runButton) {
-                  console.log('Clicking run button');
-                  (runButton as HTMLElement).click();
-                  return { success: true, message: 'Code injected and run button clicked' };
-                }
-                
-                return { success: true, message: 'Code injected but run button not found' };
-              }
-              
-              return { success: false, error: 'Could not find text input' };
-            } catch (error) {
-              console.error('Error in executeScript:', error);
-              return { success: false, error: String(error) };
-            }
-          },
-          args: [code]
-        }, (results) => {
-          if (results && results[0] && results[0].result && results[0].result.success) {
-            sendResponse({ success: true, result: results[0].result.message });
-          } else {
-            const error = results && results[0] && results[0].result ? results[0].result.error : 'Unknown error';
-            sendResponse({ success: false, error });
-          }
-        });
+        // Click run button
+        const runButton = document.querySelector('.goog-button.run-button') || 
+                         document.querySelector('button[title="Run"]');
+        if (runButton) {
+          console.log('Clicking run button');
+          (runButton as HTMLElement).click();
+          return { success: true, message: 'Code injected and run button clicked' };
+        }
         
-        return;
+        return { success: true, message: 'Code injected but run button not found' };
+      } catch (error) {
+        console.error('Error in executeScript:', error);
+        return { success: false, error: String(error) };
       }
-      
-      // Forward the response from the content script
-      sendResponse(response);
-    }
-  );
+    },
+    args: [injected]
+  });
+
+  const result = results?.[0]?.result;
+  if (!result?.success) {
+    throw new Error(result?.error || 'Unknown error');
+  }
+  return result.message || 'Code injected';
 }
 
 console.log('Earth Agent background script loaded'); 
\ No newline at end of file
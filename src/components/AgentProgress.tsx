@@ -0,0 +1,55 @@
+import React from 'react'
+import { AgentProgressMessage } from '../lib/agents/types'
+
+export interface ProgressStep {
+  step: string
+  label: string
+  status: AgentProgressMessage['status']
+}
+
+interface AgentProgressProps {
+  steps: ProgressStep[]
+}
+
+/**
+ * Apply a progress update: a new activation adds a step, and completion
+ * marks the latest active run of that step as done
+ */
+export const applyProgressUpdate = (steps: ProgressStep[], update: AgentProgressMessage): ProgressStep[] => {
+  const { step, label, status } = update
+  if (status === 'active') {
+    return [...steps, { step, label, status }]
+  }
+
+  const index = steps.map(entry => entry.step).lastIndexOf(step)
+  if (index === -1) return steps
+  return steps.map((entry, i) => (i === index ? { ...entry, status: 'done' } : entry))
+}
+
+export const AgentProgress: React.FC<AgentProgressProps> = ({ steps }) => {
+  if (steps.length === 0) {
+    return (
+      <div className="flex items-center text-sm text-gray-500">
+        <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 animate-pulse"></div>
+        Starting...
+      </div>
+    )
+  }
+
+  return (
+    <ol className="text-sm space-y-1">
+      {steps.map((entry, index) => (
+        <li key={index} className="flex items-center">
+          {entry.status === 'done' ? (
+            <span className="w-3 mr-2 text-green-600">✓</span>
+          ) : (
+            <span className="w-3 h-3 mr-2 bg-blue-500 rounded-full animate-pulse"></span>
+          )}
+          <span className={entry.status === 'done' ? 'text-gray-500' : 'text-gray-800 font-medium'}>
+            {entry.label}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
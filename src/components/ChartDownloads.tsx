@@ -0,0 +1,92 @@
+import React, { useState } from 'react'
+import { ChartTable, chartTableToCsv, chartTableToRecords } from '../lib/console/chartTable'
+import { findEarthEngineTab } from '../lib/editor/tabs'
+import { sendToTab } from '../lib/messaging'
+
+interface ChartDownloadsProps {
+  // Tab the code ran in, when known. Otherwise the Earth Engine tab is looked up.
+  tabId?: number
+}
+
+const fileName = (title: string, extension: string): string =>
+  `${title.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'chart'}.${extension}`
+
+const download = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = name
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Lists the charts in the Earth Engine console and downloads their data
+ */
+export const ChartDownloads: React.FC<ChartDownloadsProps> = ({ tabId }) => {
+  const [charts, setCharts] = useState<ChartTable[] | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const loadCharts = async () => {
+    setStatus(null)
+    try {
+      const id = tabId ?? await findEarthEngineTab()
+      if (id === undefined) {
+        setCharts([])
+        setStatus('Open the Earth Engine Code Editor to download chart data.')
+        return
+      }
+      const { charts } = await sendToTab(id, 'GET_CHART_DATA', {})
+      setCharts(charts)
+    } catch (error) {
+      console.error('Error reading chart data:', error)
+      setStatus(`Could not read the charts: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleToggle = (event: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (event.currentTarget.open) loadCharts()
+  }
+
+  return (
+    <details className="mt-2 text-xs text-gray-600" onToggle={handleToggle}>
+      <summary className="cursor-pointer">Chart data</summary>
+      {charts && charts.length === 0 && !status && (
+        <div className="mt-1">There are no charts in the Earth Engine console.</div>
+      )}
+      {charts && charts.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {charts.map((chart, index) => (
+            <li key={index} className="flex items-center justify-between bg-white p-1 rounded border border-gray-200">
+              <div className="min-w-0 mr-2">
+                <div className="truncate">{chart.title}</div>
+                <div className="text-gray-500">
+                  {chart.rows.length} row(s): {chart.columns.map(column => column.label).join(', ')}
+                </div>
+              </div>
+              <div className="flex space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => download(fileName(chart.title, 'csv'), chartTableToCsv(chart), 'text/csv')}
+                  className="px-2 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  CSV
+                </button>
+                <button
+                  onClick={() => download(
+                    fileName(chart.title, 'json'),
+                    JSON.stringify(chartTableToRecords(chart), null, 2),
+                    'application/json'
+                  )}
+                  className="px-2 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  JSON
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status && <div className="mt-1">{status}</div>}
+    </details>
+  )
+}
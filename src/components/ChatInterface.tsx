@@ -1,6 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { initializeAgentSystem } from '../lib/agents'
-import { AgentResponseSchema } from '../lib/agents/types'
+import { AgentResponseSchema, AgentRunOptions, AgentWaitMessage, ConversationContext, StepUsage, TaskPlan } from '../lib/agents/types'
+import { DatasetEntry } from '../lib/catalog/types'
+import { sendToBackground, sendToTab } from '../lib/messaging'
+import { InjectionMode } from '../lib/messaging/protocol'
+import { MapScreenshot } from '../lib/map/screenshot'
+import { diffLines, DiffLine } from '../lib/editor/diff'
+import { findEarthEngineTab } from '../lib/editor/tabs'
+import { AgentProgress, ProgressStep, applyProgressUpdate } from './AgentProgress'
+import { UsageDetails } from './UsageDetails'
+import { SnapshotRestore } from './SnapshotRestore'
+import { ChartDownloads } from './ChartDownloads'
+import { DiffPreview } from './DiffPreview'
 import { z } from 'zod'
 
 interface Message {
@@ -9,6 +20,34 @@ interface Message {
   content: string
   code?: string
   debugLog?: string[]
+  runSuccessful?: boolean
+  debugAttempts?: number
+  datasets?: DatasetEntry[]
+  // Set on a stopped request, with the progress kept for resuming
+  cancelled?: boolean
+  plan?: TaskPlan
+  request?: string
+  usage?: StepUsage[]
+  // Tab the user last ran this message's code in
+  runTabId?: number
+  // The map as the agent's run drew it
+  mapScreenshot?: MapScreenshot
+}
+
+// A diff of a message's code against the open script, waiting to be applied
+interface PendingDiff {
+  messageId: string
+  tabId: number
+  base: string
+  code: string
+  lines: DiffLine[]
+}
+
+const INJECTION_MODE_LABELS: Record<InjectionMode, string> = {
+  replace: 'Replace script',
+  append: 'Append to script',
+  insert: 'Insert at cursor',
+  diff: 'Apply as diff'
 }
 
 interface ChatInterfaceProps {
@@ -22,6 +61,28 @@ interface AgentError extends Error {
   details?: any;    // Additional error details
 }
 
+// Placeholder code such as "// Error in planning stage" is not worth modifying
+const isPlaceholderCode = (code: string) => /^\/\/[^\n]*$/.test(code.trim())
+
+/**
+ * Collect earlier turns so the agent can handle follow-up requests
+ */
+const buildConversationContext = (messages: Message[]): ConversationContext => {
+  const lastResult = [...messages]
+    .reverse()
+    .find(message => message.role === 'assistant' && !message.cancelled && message.code && !isPlaceholderCode(message.code))
+
+  return {
+    history: messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      code: message.code
+    })),
+    lastCode: lastResult?.code,
+    selectedDatasets: lastResult?.datasets
+  }
+}
+
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) => {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
@@ -29,7 +90,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
   const [agentSystem, setAgentSystem] = useState<any>(null)
   const [agentInitError, setAgentInitError] = useState<string | null>(null)
   const [processingLogs, setProcessingLogs] = useState<string[]>([])
+  const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([])
+  const [streamingResponse, setStreamingResponse] = useState('')
+  const [streamingCode, setStreamingCode] = useState('')
+  // Shown while a failed model request waits to be retried
+  const [waitNotice, setWaitNotice] = useState<AgentWaitMessage | null>(null)
+  // How Run Code puts code into the editor
+  const [injectionMode, setInjectionMode] = useState<InjectionMode>('replace')
+  const [pendingDiff, setPendingDiff] = useState<PendingDiff | null>(null)
+  const [applyingDiff, setApplyingDiff] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Latest streamed code, read when a stopped request returns without code
+  const streamingCodeRef = useRef('')
 
   // Initialize the agent system on component mount
   useEffect(() => {
@@ -54,10 +127,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
     }
     setup()
 
-    // Set up log message listener
+    // Set up listener for logs, progress and streamed text from the agents
     const handleLogMessage = (event: MessageEvent) => {
       if (event.data && event.data.type === 'AGENT_LOG') {
         setProcessingLogs(prev => [...prev, event.data.log]);
+      } else if (event.data && event.data.type === 'AGENT_WAIT') {
+        setWaitNotice(event.data);
+      } else if (event.data && event.data.type === 'AGENT_PROGRESS') {
+        setWaitNotice(null);
+        setProgressSteps(prev => applyProgressUpdate(prev, event.data));
+      } else if (event.data && event.data.type === 'AGENT_STREAM') {
+        setWaitNotice(null);
+        if (event.data.target === 'code') {
+          streamingCodeRef.current = event.data.text;
+          setStreamingCode(event.data.text);
+        } else {
+          setStreamingResponse(event.data.text);
+        }
       }
     };
     
@@ -68,18 +154,52 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
     };
   }, [])
 
+  // The notice ends when the next attempt starts
+  useEffect(() => {
+    if (!waitNotice) return
+    const timer = setTimeout(() => setWaitNotice(null), Math.max(0, waitNotice.retryAt - Date.now()))
+    return () => clearTimeout(timer)
+  }, [waitNotice])
+
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, processingLogs])
+  }, [messages, progressSteps, streamingResponse, streamingCode])
+
+  const resetProgress = () => {
+    setProcessingLogs([])
+    setProgressSteps([])
+    setStreamingResponse('')
+    setStreamingCode('')
+    setWaitNotice(null)
+    streamingCodeRef.current = ''
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     const trimmedInput = input.trim()
     if (!trimmedInput) return
+    setInput('')
+    await submitRequest(trimmedInput)
+  }
 
-    // Reset processing logs
-    setProcessingLogs([])
+  // Token usage of every request in this chat
+  const sessionUsage = messages.flatMap(message => message.usage || [])
+
+  // Abort the model call or Earth Engine action in progress
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Run a stopped request again from the plan and datasets it had found
+  const handleResume = (message: Message) => {
+    if (!message.request) return
+    submitRequest(message.request, { plan: message.plan, datasets: message.datasets })
+  }
+
+  const submitRequest = async (trimmedInput: string, resume?: AgentRunOptions['resume']) => {
+    // Reset processing logs and progress
+    resetProgress()
 
     // Add user message
     const userMessage: Message = {
@@ -89,7 +209,6 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
     }
     
     setMessages(prev => [...prev, userMessage])
-    setInput('')
     setIsLoading(true)
 
     try {
@@ -104,7 +223,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
           try {
             // Get response from agent system with detailed error tracking
             console.log('Sending query to agent system:', trimmedInput);
-            const rawResponse = await agentSystem(trimmedInput)
+            const abortController = new AbortController()
+            abortControllerRef.current = abortController
+            const rawResponse = await agentSystem(trimmedInput, buildConversationContext(messages), {
+              signal: abortController.signal,
+              resume
+            })
             console.log('Raw response from agent system:', rawResponse);
             
             // Validate with Zod schema to ensure correct format
@@ -116,8 +240,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
                 id: (Date.now() + 1).toString(),
                 role: 'assistant',
                 content: validatedResponse.response,
-                code: validatedResponse.code,
-                debugLog: validatedResponse.debugLog || processingLogs
+                // A stopped request keeps whatever code had streamed in
+                code: validatedResponse.code || (validatedResponse.cancelled ? streamingCodeRef.current || undefined : undefined),
+                debugLog: validatedResponse.debugLog || processingLogs,
+                runSuccessful: validatedResponse.runSuccessful,
+                debugAttempts: validatedResponse.debugAttempts,
+                datasets: validatedResponse.datasets,
+                cancelled: validatedResponse.cancelled,
+                plan: validatedResponse.plan,
+                request: trimmedInput,
+                usage: validatedResponse.usage,
+                mapScreenshot: validatedResponse.mapScreenshot
               }
               
               setMessages(prev => [...prev, assistantMessage])
@@ -216,11 +349,58 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
       setMessages(prev => [...prev, errorMessage])
       setProcessingLogs([]) // Clear processing logs after adding to message
     } finally {
+      abortControllerRef.current = null
       setIsLoading(false)
+      resetProgress()
     }
   }
 
-  const handleRunCode = (code: string) => {
+  const markRun = (messageId: string, tabId: number) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, runTabId: tabId } : m))
+  }
+
+  /**
+   * Diff a message's code against the script open in Earth Engine
+   */
+  const handlePreviewDiff = async (message: Message) => {
+    try {
+      const tabId = await findEarthEngineTab()
+      if (tabId === undefined) {
+        alert('Open the Earth Engine Code Editor to apply code as a diff.')
+        return
+      }
+      const { code: base } = await sendToTab(tabId, 'GET_EDITOR_CODE', {})
+      setPendingDiff({ messageId: message.id, tabId, base, code: message.code!, lines: diffLines(base, message.code!) })
+    } catch (error) {
+      console.error('Error previewing diff:', error)
+      alert(`Error: Could not read the script in Earth Engine. ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleApplyDiff = async () => {
+    if (!pendingDiff) return
+    setApplyingDiff(true)
+    try {
+      const { code, base, tabId, messageId } = pendingDiff
+      const { result } = await sendToTab(tabId, 'RUN_CODE', { code, mode: 'diff', base })
+      console.log('Diff applied:', result)
+      markRun(messageId, tabId)
+      setPendingDiff(null)
+    } catch (error) {
+      console.error('Error applying diff:', error)
+      alert(`Error: Could not apply the diff in Earth Engine. ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setApplyingDiff(false)
+    }
+  }
+
+  const handleRunCode = (message: Message) => {
+    if (injectionMode === 'diff') {
+      handlePreviewDiff(message)
+      return
+    }
+
+    const code = message.code!
     console.log('Running code in Earth Engine:', code)
     
     // Add loading state
@@ -230,31 +410,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
     if (runButtonElement) runButtonElement.disabled = true
     if (runSpinnerElement) runSpinnerElement.style.display = 'block'
     
-    // Send a message to the background script to open Earth Engine and run the code
-    chrome.runtime.sendMessage(
-      { type: 'OPEN_EARTH_ENGINE_AND_RUN_CODE', code },
-      (response) => {
+    // Ask the background script to open Earth Engine and run the code
+    sendToBackground('OPEN_EARTH_ENGINE_AND_RUN_CODE', { code, mode: injectionMode })
+      .then(({ result, tabId }) => {
+        console.log('Code injection successful:', result)
+        markRun(message.id, tabId)
+        // Success message - can be a toast notification instead of an alert
+        alert('Code successfully sent to Earth Engine and executed.')
+      })
+      .catch(error => {
+        console.error('Error running code:', error)
+        alert(`Error: Could not run code in Earth Engine. ${error instanceof Error ? error.message : String(error)}`)
+      })
+      .finally(() => {
         // Reset UI
         if (runButtonElement) runButtonElement.disabled = false
         if (runSpinnerElement) runSpinnerElement.style.display = 'none'
-        
-        if (chrome.runtime.lastError) {
-          console.error('Error sending message to background:', chrome.runtime.lastError)
-          const errorMessage = chrome.runtime.lastError.message || 'Unknown error'
-          alert(`Error: Could not run code in Earth Engine. ${errorMessage}`)
-          return
-        }
-        
-        if (response?.success) {
-          console.log('Code injection successful:', response.result)
-          // Success message - can be a toast notification instead of an alert
-          alert('Code successfully sent to Earth Engine and executed.')
-        } else {
-          console.error('Error running code:', response?.error)
-          alert(`Error: ${response?.error || 'Could not run code in Earth Engine'}`)
-        }
-      }
-    )
+      })
   }
 
   return (
@@ -298,19 +470,62 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
               {message.role === 'user' ? 'You' : 'Earth Agent'}
             </div>
             <div className="whitespace-pre-wrap break-words w-full">{message.content}</div>
+
+            {message.cancelled && message.plan && (
+              <div className="mt-2 p-2 bg-white rounded-md border border-gray-200 text-sm">
+                <div className="font-medium">Plan: {message.plan.summary}</div>
+                <ol className="mt-1 list-decimal list-inside text-gray-700">
+                  {message.plan.steps.map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {message.cancelled && message.datasets && message.datasets.length > 0 && (
+              <div className="mt-2 text-sm text-gray-700">
+                Datasets: {message.datasets.map(dataset => dataset.id).join(', ')}
+              </div>
+            )}
+
+            {message.cancelled && message.request && (
+              <div className="flex items-center mt-2 space-x-2">
+                <button
+                  onClick={() => handleResume(message)}
+                  disabled={isLoading}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={() => setInput(message.request!)}
+                  disabled={isLoading}
+                  className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors disabled:text-gray-400"
+                >
+                  Edit request
+                </button>
+              </div>
+            )}
             
             {message.code && (
               <div className="mt-2 w-full overflow-hidden">
                 <div className="bg-gray-800 text-gray-200 p-3 rounded-md overflow-x-auto w-full">
                   <pre className="whitespace-pre-wrap break-words w-full"><code>{message.code}</code></pre>
                 </div>
+                {message.runSuccessful !== undefined && (
+                  <div className={`mt-2 text-xs ${message.runSuccessful ? 'text-green-700' : 'text-yellow-700'}`}>
+                    {message.runSuccessful
+                      ? `Ran in Earth Engine without console errors (attempt ${message.debugAttempts})`
+                      : `Not verified in Earth Engine after ${message.debugAttempts || 0} attempt(s)`}
+                  </div>
+                )}
                 <div className="flex items-center mt-2">
                   <button
                     id="run-code-button"
-                    onClick={() => handleRunCode(message.code!)}
+                    onClick={() => handleRunCode(message)}
                     className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400 flex items-center"
                   >
-                    <span className="mr-1">Run Code</span>
+                    <span className="mr-1">{injectionMode === 'diff' ? 'Preview Diff' : 'Run Code'}</span>
                     <div 
                       id="run-spinner" 
                       className="hidden animate-spin h-4 w-4"
@@ -322,13 +537,61 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
                       </svg>
                     </div>
                   </button>
+                  <select
+                    value={injectionMode}
+                    onChange={(e) => setInjectionMode(e.target.value as InjectionMode)}
+                    className="ml-2 border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+                    aria-label="How to put the code into the editor"
+                  >
+                    {Object.entries(INJECTION_MODE_LABELS).map(([mode, label]) => (
+                      <option key={mode} value={mode}>{label}</option>
+                    ))}
+                  </select>
                 </div>
+                {pendingDiff?.messageId === message.id && (
+                  <DiffPreview
+                    lines={pendingDiff.lines}
+                    applying={applyingDiff}
+                    onApply={handleApplyDiff}
+                    onCancel={() => setPendingDiff(null)}
+                  />
+                )}
+                {/* Running the code changed what was in the editor and may have drawn charts */}
+                {(message.runTabId !== undefined || (message.debugAttempts ?? 0) > 0) && (
+                  <>
+                    <SnapshotRestore tabId={message.runTabId} />
+                    <ChartDownloads tabId={message.runTabId} />
+                  </>
+                )}
+              </div>
+            )}
+            
+            {message.mapScreenshot && (
+              <div className="mt-2 w-full">
+                <details className="text-xs text-gray-600">
+                  <summary className="cursor-pointer">
+                    Map after the run ({new Date(message.mapScreenshot.capturedAt).toLocaleTimeString()})
+                  </summary>
+                  <img
+                    src={`data:${message.mapScreenshot.mediaType};base64,${message.mapScreenshot.data}`}
+                    width={message.mapScreenshot.width}
+                    height={message.mapScreenshot.height}
+                    alt="Earth Engine map after running the code"
+                    className="mt-1 w-full h-auto rounded border border-gray-200"
+                  />
+                </details>
+              </div>
+            )}
+            
+            {message.usage && message.usage.length > 0 && (
+              <div className="mt-2 w-full">
+                <UsageDetails usage={message.usage} />
               </div>
             )}
             
             {message.debugLog && message.debugLog.length > 0 && (
               <div className="mt-2 w-full">
-                <details className="bg-gray-100 p-2 rounded-md w-full" open>
+                <details className="bg-gray-100 p-2 rounded-md w-full">
                   <summary className="font-medium text-gray-700 cursor-pointer">Execution Log</summary>
                   <div className="mt-2 text-xs text-gray-600 bg-gray-50 p-2 rounded border border-gray-200 max-h-60 overflow-y-auto w-full">
                     {message.debugLog.map((log, index) => (
@@ -343,30 +606,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
           </div>
         ))}
         
-        {/* Display real-time processing logs while loading */}
-        {isLoading && processingLogs.length > 0 && (
-          <div className="mb-4 p-3 rounded-lg bg-blue-50 mr-8 w-auto">
-            <div className="font-semibold mb-1 flex items-center">
-              <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 animate-pulse"></div>
-              Earth Agent is thinking...
-            </div>
-            <div className="mt-2 text-xs text-gray-600 bg-white p-2 rounded border border-gray-200 max-h-60 overflow-y-auto w-full">
-              {processingLogs.map((log, index) => (
-                <div key={index} className="py-1 border-b border-gray-100 last:border-0 break-words">
-                  {log}
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-        
-        {/* Simple loading indicator if no logs yet */}
-        {isLoading && processingLogs.length === 0 && (
-          <div className="flex justify-center items-center my-4">
-            <div className="animate-pulse text-gray-500 flex items-center">
-              <div className="w-3 h-3 bg-blue-500 rounded-full mr-2 animate-pulse"></div>
-              Earth Agent is thinking...
-            </div>
+        {/* Show which agent is active and stream the answer while loading */}
+        {isLoading && (
+          <div className="mb-4 p-3 rounded-lg bg-blue-50 mr-8 w-auto overflow-hidden">
+            <div className="font-semibold mb-2">Earth Agent</div>
+            <AgentProgress steps={progressSteps} />
+            {waitNotice && (
+              <div className="mt-2 p-2 text-sm bg-yellow-100 text-yellow-800 rounded-md">
+                {waitNotice.message}
+              </div>
+            )}
+            {streamingResponse && (
+              <div className="mt-3 whitespace-pre-wrap break-words w-full">{streamingResponse}</div>
+            )}
+            {streamingCode && (
+              <div className="mt-2 bg-gray-800 text-gray-200 p-3 rounded-md overflow-x-auto w-full">
+                <pre className="whitespace-pre-wrap break-words w-full"><code>{streamingCode}</code></pre>
+              </div>
+            )}
           </div>
         )}
         
@@ -374,6 +631,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
       </div>
       
       <div className="mt-auto border-t pt-4">
+        {sessionUsage.length > 0 && (
+          <div className="mb-2">
+            <UsageDetails usage={sessionUsage} label="Session" />
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex w-full">
           <input
             type="text"
@@ -383,13 +645,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onQuerySubmit }) =
             className="flex-1 border border-gray-300 rounded-l-md px-4 py-2 focus:outline-none focus:border-gray-400 focus:shadow-md transition-shadow duration-200 min-w-0"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="bg-blue-600 text-white px-4 py-2 rounded-r-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex-shrink-0"
-          >
-            Send
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="bg-red-600 text-white px-4 py-2 rounded-r-md hover:bg-red-700 transition-colors flex-shrink-0"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-r-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex-shrink-0"
+            >
+              Send
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,88 @@
+import React from 'react'
+import { countChanges, DiffLine } from '../lib/editor/diff'
+
+interface DiffPreviewProps {
+  lines: DiffLine[]
+  applying: boolean
+  onApply: () => void
+  onCancel: () => void
+}
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3
+
+type Row = { kind: 'line'; line: DiffLine } | { kind: 'skipped'; count: number }
+
+/**
+ * Keep the changed lines and their context, folding long unchanged runs
+ */
+const foldUnchanged = (lines: DiffLine[]): Row[] => {
+  const nearChange = lines.map((_, index) =>
+    lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(line => line.type !== 'same'))
+
+  const rows: Row[] = []
+  lines.forEach((line, index) => {
+    if (line.type !== 'same' || nearChange[index]) {
+      rows.push({ kind: 'line', line })
+      return
+    }
+    const last = rows[rows.length - 1]
+    if (last?.kind === 'skipped') {
+      last.count++
+    } else {
+      rows.push({ kind: 'skipped', count: 1 })
+    }
+  })
+  return rows
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-gray-300',
+  added: 'bg-green-900 text-green-200',
+  removed: 'bg-red-900 text-red-200'
+}
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' }
+
+/**
+ * The changes a diff injection would make to the open script, to confirm
+ * before they are applied
+ */
+export const DiffPreview: React.FC<DiffPreviewProps> = ({ lines, applying, onApply, onCancel }) => {
+  const { added, removed } = countChanges(lines)
+
+  return (
+    <div className="mt-2 w-full">
+      <div className="text-xs text-gray-700 mb-1">
+        {added === 0 && removed === 0
+          ? 'The script already matches this code.'
+          : `${added} line(s) added, ${removed} removed in the open script`}
+      </div>
+      <div className="bg-gray-800 p-2 rounded-md overflow-x-auto max-h-80 overflow-y-auto text-xs font-mono">
+        {foldUnchanged(lines).map((row, index) => row.kind === 'skipped' ? (
+          <div key={index} className="text-gray-500 italic">… {row.count} unchanged line(s)</div>
+        ) : (
+          <div key={index} className={`whitespace-pre ${LINE_STYLES[row.line.type]}`}>
+            {LINE_MARKERS[row.line.type]} {row.line.text}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center mt-2 space-x-2">
+        <button
+          onClick={onApply}
+          disabled={applying || (added === 0 && removed === 0)}
+          className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
+        >
+          {applying ? 'Applying…' : 'Apply and run'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={applying}
+          className="px-3 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors disabled:text-gray-400"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react'
+import { EditorSnapshot, listSnapshots } from '../lib/editor/snapshots'
+import { findEarthEngineTab } from '../lib/editor/tabs'
+import { sendToTab } from '../lib/messaging'
+
+interface SnapshotRestoreProps {
+  // Tab the code ran in, when known. Otherwise the Earth Engine tab is looked up.
+  tabId?: number
+}
+
+const firstLine = (code: string): string => {
+  const line = code.split('\n').find(text => text.trim()) || ''
+  return line.length > 60 ? `${line.slice(0, 60)}…` : line
+}
+
+/**
+ * Lists the editor contents saved before each injection and puts one back
+ */
+export const SnapshotRestore: React.FC<SnapshotRestoreProps> = ({ tabId }) => {
+  const [snapshots, setSnapshots] = useState<EditorSnapshot[] | null>(null)
+  const [targetTab, setTargetTab] = useState<number | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const loadSnapshots = async () => {
+    try {
+      const id = tabId ?? await findEarthEngineTab()
+      if (id === undefined) {
+        setSnapshots([])
+        setStatus('Open the Earth Engine Code Editor to restore code.')
+        return
+      }
+      setTargetTab(id)
+      setSnapshots(await listSnapshots(id))
+    } catch (error) {
+      console.error('Error loading editor snapshots:', error)
+      setStatus(`Could not load saved code: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleToggle = (event: React.SyntheticEvent<HTMLDetailsElement>) => {
+    if (event.currentTarget.open) loadSnapshots()
+  }
+
+  const handleRestore = async (snapshot: EditorSnapshot) => {
+    if (targetTab === null) return
+    setRestoringId(snapshot.id)
+    setStatus(null)
+    try {
+      await sendToTab(targetTab, 'SET_EDITOR_CODE', { code: snapshot.code })
+      setStatus(`Restored the code saved at ${new Date(snapshot.savedAt).toLocaleString()}.`)
+      // Restoring saved the replaced code, so the list has changed
+      await loadSnapshots()
+    } catch (error) {
+      console.error('Error restoring editor snapshot:', error)
+      setStatus(`Could not restore the code: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <details className="mt-2 text-xs text-gray-600" onToggle={handleToggle}>
+      <summary className="cursor-pointer">Restore previous code</summary>
+      {snapshots && snapshots.length === 0 && !status && (
+        <div className="mt-1">No earlier code has been saved for this tab.</div>
+      )}
+      {snapshots && snapshots.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex items-center justify-between bg-white p-1 rounded border border-gray-200">
+              <div className="min-w-0 mr-2">
+                <div>{new Date(snapshot.savedAt).toLocaleString()}</div>
+                <div className="font-mono truncate text-gray-500">{firstLine(snapshot.code)}</div>
+              </div>
+              <button
+                onClick={() => handleRestore(snapshot)}
+                disabled={restoringId !== null}
+                className="px-2 py-1 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors disabled:text-gray-400 flex-shrink-0"
+              >
+                {restoringId === snapshot.id ? 'Restoring…' : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status && <div className="mt-1">{status}</div>}
+    </details>
+  )
+}
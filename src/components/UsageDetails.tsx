@@ -0,0 +1,43 @@
+import React from 'react'
+import { StepUsage } from '../lib/agents/types'
+import { formatCost, summarizeUsage, UsageTotals } from '../lib/agents/usage'
+
+interface UsageDetailsProps {
+  usage: StepUsage[]
+  // Shown before the totals, e.g. "Session"
+  label?: string
+}
+
+const formatTotals = (totals: UsageTotals): string => {
+  const tokens = `${totals.promptTokens.toLocaleString()} in / ${totals.completionTokens.toLocaleString()} out`
+  const cost = totals.cost === undefined ? 'cost unknown' : formatCost(totals.cost)
+  return `${totals.estimated ? '~' : ''}${tokens} tokens · ${totals.estimated ? '~' : ''}${cost}`
+}
+
+/**
+ * Token counts and estimated cost, with a per-step breakdown when expanded
+ */
+export const UsageDetails: React.FC<UsageDetailsProps> = ({ usage, label }) => {
+  if (usage.length === 0) return null
+  const summary = summarizeUsage(usage)
+
+  return (
+    <details className="text-xs text-gray-500">
+      <summary className="cursor-pointer">
+        {label ? `${label}: ` : ''}{formatTotals(summary)}
+      </summary>
+      <table className="mt-1 w-full">
+        <tbody>
+          {summary.steps.map(step => (
+            <tr key={step.step}>
+              <td className="pr-2 align-top">
+                {step.step}{step.calls > 1 ? ` (${step.calls} calls)` : ''}
+              </td>
+              <td className="text-right">{formatTotals(step)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  )
+}
@@ -5,128 +5,124 @@
  * and allows interaction with the page DOM.
  * 
  * Features:
- * - Code injection into the Earth Engine editor
+ * - Code injection into the Earth Engine editor through the page bridge
  * - Run button automation
- * - Multiple injection methods for reliability
+ * - Map inspection at given coordinates
+ * - Map state and layer visibility and order
+ * - Console capture, streamed to the extension as entries appear
+ * - Data tables of console charts
  */
 
+import { createAbortError, delay, throwIfAborted } from '../lib/abort';
+import { createConsoleLog } from '../lib/console/consoleLog';
+import { CONSOLE_PANEL_SELECTORS, readChartTable, watchConsolePanel } from '../lib/console/consoleReader';
+import { ChartTable } from '../lib/console/chartTable';
+import { connectEditorBridge, EditorBridge } from '../lib/editor/bridgeClient';
+import { diffToEdits } from '../lib/editor/diff';
+import { EditorImport, importsHeader, parseImportsHeader } from '../lib/editor/imports';
+import { LatLng } from '../lib/editor/protocol';
+import { InspectorReading, parseInspectorText } from '../lib/map/inspector';
+import { findLayer, resolveLayerPosition } from '../lib/map/layers';
+import { isInsideView, latLngToViewPixel } from '../lib/map/projection';
+import { createMessageHandler, createRequestId, sendToBackground } from '../lib/messaging';
+import { CONSOLE_PORT_NAME, ContentRequestSchema, ContentResponseSchemas, InjectionMode } from '../lib/messaging/protocol';
+
 console.log('Earth Engine Agent content script loaded');
 
-// Listen for messages from the extension
-chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
-  console.log('Content script received message:', message);
-
-  // Handle different message types
-  switch (message.type) {
-    case 'RUN_CODE':
-      console.log('RUN_CODE message received with code:', message.code.substring(0, 100) + '...');
-      runCode(message.code)
-        .then(result => {
-          console.log('Code execution completed successfully:', result);
-          sendResponse({ success: true, result });
-        })
-        .catch(error => {
-          console.error('Code execution failed:', error);
-          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
-        });
-      return true; // Indicates async response
-
-    case 'INSPECT_MAP':
-      inspectMap(message.coordinates)
-        .then(data => sendResponse({ success: true, data }))
-        .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) }));
-      return true;
+// Answer requests from the extension
+chrome.runtime.onMessage.addListener(createMessageHandler(ContentRequestSchema, ContentResponseSchemas, {
+  RUN_CODE: async ({ code, mode, base, runId = createRequestId() }, _sender, signal) => {
+    console.log('RUN_CODE message received with code:', code.substring(0, 100) + '...');
+    return { result: await runCode(code, mode, base, runId, signal), runId };
+  },
+  INSPECT_MAP: async ({ coordinates }, _sender, signal) => ({ data: await inspectMap(coordinates, signal) }),
+  GET_MAP_VIEW: async () => ({ view: await (await getEditor()).getMapView(), devicePixelRatio: window.devicePixelRatio || 1 }),
+  GET_MAP_STATE: async () => {
+    const editor = await getEditor();
+    const { center, zoom } = await editor.getMapView();
+    return { center, zoom, layers: await editor.getMapLayers() };
+  },
+  SET_LAYER_VISIBILITY: async ({ layer, visible }) => {
+    const editor = await getEditor();
+    const target = findLayer(await editor.getMapLayers(), layer);
+    return { layers: await editor.setLayerVisible(target.index, visible) };
+  },
+  MOVE_LAYER: async ({ layer, to }) => {
+    const editor = await getEditor();
+    const layers = await editor.getMapLayers();
+    const target = findLayer(layers, layer);
+    return { layers: await editor.moveLayer(target.index, resolveLayerPosition(layers, to)) };
+  },
+  CHECK_CONSOLE: async ({ runId }) => {
+    watchConsole();
+    return { entries: consoleLog.entries(runId) };
+  },
+  GET_CHART_DATA: async ({ runId }) => {
+    watchConsole();
+    return { charts: readConsoleCharts(runId) };
+  },
+  GET_TASKS: async () => ({ tasks: await getTasks() }),
+  EDIT_SCRIPT: async ({ scriptId, content }) => ({ message: await editScript(scriptId, content) }),
+  GET_EDITOR_CODE: async () => ({ code: await getEditorCode() }),
+  GET_EDITOR_IMPORTS: async () => ({ imports: await getEditorImports() }),
+  SET_EDITOR_CODE: async ({ code }) => {
+    const injectionResult = await injectCode(code);
+    if (!injectionResult.success) {
+      throw new Error(injectionResult.message);
+    }
+    return { message: 'Code set in the editor' };
+  },
+  // Check if we're on the Earth Engine page
+  CHECK_PAGE: async () => ({ isEarthEnginePage: window.location.href.includes('code.earthengine.google.com') })
+}));
 
-    case 'CHECK_CONSOLE':
-      checkConsole()
-        .then(errors => sendResponse({ success: true, errors }))
-        .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) }));
-      return true;
+// Stream console entries to whoever connects, e.g. the agent while it runs code
+chrome.runtime.onConnect.addListener(port => {
+  if (port.name !== CONSOLE_PORT_NAME) return;
+  watchConsole();
+  const unsubscribe = consoleLog.subscribe(entry => port.postMessage(entry));
+  port.onDisconnect.addListener(unsubscribe);
+});
 
-    case 'GET_TASKS':
-      getTasks()
-        .then(tasks => sendResponse({ success: true, tasks }))
-        .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) }));
-      return true;
+// Connection to the page bridge, made on first use and redone if it breaks
+let editorBridge: Promise<EditorBridge> | null = null;
 
-    case 'EDIT_SCRIPT':
-      editScript(message.scriptId, message.content)
-        .then(result => sendResponse({ success: true, message: result }))
-        .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) }));
-      return true;
-
-    case 'CHECK_PAGE':
-      // Check if we're on the Earth Engine page
-      const isEarthEnginePage = window.location.href.includes('code.earthengine.google.com');
-      sendResponse({ success: true, isEarthEnginePage });
-      return true;
+/**
+ * Get the Code Editor through the page bridge, which runs in the page's own
+ * world where the Ace editor instance is reachable
+ */
+function getEditor(): Promise<EditorBridge> {
+  if (!editorBridge) {
+    editorBridge = connectEditorBridge().catch(error => {
+      editorBridge = null;
+      throw error;
+    });
   }
-
-  return false;
-});
+  return editorBridge;
+}
 
 /**
- * Find the ACE editor instance in the Earth Engine page
+ * Read the script currently open in the Code Editor
  */
-function findAceEditor(): any {
+async function getEditorCode(): Promise<string> {
   try {
-    // ACE editor is typically available in a global 'ace' object or attached to a DOM element
-    // Try multiple approaches to find it
-    console.log('Attempting to find ACE editor in Earth Engine');
-    
-    // First attempt: Direct access to global ace object if it exists
-    const windowWithAce = window as any;
-    if (windowWithAce.ace && windowWithAce.ace.edit) {
-      // Find the editor instance - it's usually attached to a specific DOM element
-      const editorElements = document.querySelectorAll('.ace_editor');
-      if (editorElements.length > 0) {
-        const editorElement = editorElements[0] as any;
-        const editorId = editorElement.id;
-        if (editorId && windowWithAce.ace.edit(editorId)) {
-          console.log('Found ACE editor by ID');
-          return windowWithAce.ace.edit(editorId);
-        }
-        
-        // If no ID, try to get editor directly from element
-        if (editorElement.env && editorElement.env.editor) {
-          console.log('Found ACE editor from element');
-          return editorElement.env.editor;
-        }
-      }
-    }
-    
-    // Second attempt: Use DOM traversal to find the editor
-    // Google Earth Engine typically has a CodeEditor element with the ACE editor inside
-    const codeEditorElement = document.querySelector('.CodeEditor');
-    if (codeEditorElement) {
-      const aceElement = codeEditorElement.querySelector('.ace_editor') as any;
-      if (aceElement && aceElement.env && aceElement.env.editor) {
-        console.log('Found ACE editor in CodeEditor');
-        return aceElement.env.editor;
-      }
-    }
-    
-    // If we can't find the real editor, create a mock for testing
-    console.log('Could not find ACE editor, using mock implementation');
-    return {
-      setValue: (code: string) => {
-        console.log('ACE editor setValue called with code:', code);
-        // Try to find a textarea we could use as a fallback
-        const textarea = document.querySelector('textarea');
-        if (textarea) (textarea as HTMLTextAreaElement).value = code;
-      },
-      getValue: () => {
-        const textarea = document.querySelector('textarea');
-        return textarea ? (textarea as HTMLTextAreaElement).value : 'Mock ACE editor content';
-      },
-      clearSelection: () => console.log('ACE editor clearSelection called')
-    };
+    const editor = await getEditor();
+    return await editor.getValue();
   } catch (error) {
-    console.error('Error finding ACE editor:', error);
-    throw new Error('Could not find ACE editor on the page');
+    // Reconnect next time in case the page was reloaded
+    editorBridge = null;
+    throw error;
   }
 }
 
+/**
+ * Read the geometries and assets imported into the open script from the
+ * imports header at its top
+ */
+async function getEditorImports(): Promise<EditorImport[]> {
+  return parseImportsHeader(await getEditorCode());
+}
+
 /**
  * Find and click the run button in the Earth Engine page
  */
@@ -168,136 +164,140 @@ function clickRunButton(): Promise<void> {
   });
 }
 
+// The editor contents after the last injection. Debug attempts replace the
+// agent's own code, and backing that up each time would push the user's code
+// out of the snapshot history.
+let lastInjectedCode: string | null = null;
+
 /**
- * Inject code into the Earth Engine Code Editor using multiple methods
- * We try several different approaches to maximize compatibility with Earth Engine's
- * editor interface which may change over time.
+ * Put code into the Code Editor. By default the whole document is replaced
+ * in one step, so Ace keeps the indentation as written and the change can be
+ * undone; the other modes append, insert at the cursor or apply a diff. The
+ * previous contents are saved as a snapshot first, unless they are what the
+ * last injection left, and the editor is left alone if that fails.
  */
-async function injectCode(code: string): Promise<{ success: boolean; message: string }> {
+async function injectCode(
+  code: string,
+  mode: InjectionMode = 'replace',
+  base?: string
+): Promise<{ success: boolean; message: string }> {
   try {
-    console.log("Attempting to inject code into Earth Engine editor");
-    
-    // Method 1: Direct ACE Editor manipulation through the text input
-    const editorElement = document.querySelector('.ace_editor');
-    if (!editorElement) {
-      console.error("Could not find ACE editor");
-      return { success: false, message: "Could not find editor" };
-    }
-    
-    // Try to get the textarea input (most reliable direct method)
-    const textInput = document.querySelector('.ace_text-input');
-    if (textInput) {
-      console.log("Found text input, focusing and setting value");
-      (textInput as HTMLTextAreaElement).focus();
-      
-      // Use execCommand for reliable insertion
-      document.execCommand('selectAll', false);
-      document.execCommand('insertText', false, code);
-      return { success: true, message: "Code injected via text input" };
+    console.log(`Attempting to inject code into Earth Engine editor (${mode})`);
+    const editor = await getEditor();
+    const previous = await editor.getValue();
+    if (mode === 'diff' && base !== undefined && base !== previous) {
+      return { success: false, message: "The script changed since the diff was previewed. Preview the diff again." };
     }
-    
-    // Method 2: Use ACE API if available
-    const windowWithAce = window as any;
-    if (windowWithAce.ace) {
+    // The drawn geometries live in the imports header, so it stays on top
+    const header = importsHeader(previous);
+    const replacement = header && !importsHeader(code) ? `${header}\n\n${code}` : code;
+    // The agent's own code was backed up before it first went in
+    if ((mode !== 'replace' || previous !== replacement) && previous !== lastInjectedCode) {
       try {
-        console.log("Using ACE API");
-        const editor = windowWithAce.ace.edit(editorElement);
-        editor.setValue(code);
-        editor.clearSelection();
-        return { success: true, message: "Code injected via ACE API" };
-      } catch (e) {
-        console.error("Error using ACE API", e);
+        await sendToBackground('SAVE_EDITOR_SNAPSHOT', { code: previous });
+      } catch (error) {
+        console.error("Error saving editor snapshot:", error);
+        return {
+          success: false,
+          message: `Could not back up the current code, so the editor was left unchanged: ${error instanceof Error ? error.message : String(error)}`
+        };
       }
     }
-    
-    // Method 3: Direct DOM manipulation of the text layer
-    const textLayer = document.querySelector('.ace_text-layer');
-    if (textLayer) {
-      console.log("Manipulating DOM directly");
-      textLayer.innerHTML = '';
-      const lines = code.split('\n');
-      for (let i = 0; i < lines.length; i++) {
-        const lineDiv = document.createElement('div');
-        lineDiv.className = 'ace_line';
-        lineDiv.textContent = lines[i] || ' ';
-        textLayer.appendChild(lineDiv);
+    let message: string;
+    switch (mode) {
+      case 'append': {
+        const lines = previous.split('\n');
+        const end = { row: lines.length - 1, column: lines[lines.length - 1].length };
+        const separator = previous === '' || previous.endsWith('\n') ? '' : '\n';
+        await editor.applyEdits([{ range: { start: end, end }, text: separator + code }]);
+        message = "Code appended to the script";
+        break;
       }
-      return { success: true, message: "Code injected via DOM" };
-    }
-    
-    // Method 4: Use our original findAceEditor method as last resort
-    try {
-      console.log("Trying findAceEditor fallback method");
-      const editor = findAceEditor();
-      editor.setValue(code);
-      editor.clearSelection();
-      return { success: true, message: "Code injected via findAceEditor method" };
-    } catch (error) {
-      console.error("Error with fallback method:", error);
+      case 'insert':
+        await editor.insert(code);
+        message = "Code inserted at the cursor";
+        break;
+      case 'diff': {
+        const edits = diffToEdits(previous, code);
+        await editor.applyEdits(edits);
+        message = `Applied ${edits.length} change(s) to the script`;
+        break;
+      }
+      default:
+        await editor.setValue(replacement, 'end');
+        message = "Code injected via the Ace editor";
     }
-    
-    console.error("All code injection methods failed");
-    return { success: false, message: "All injection methods failed" };
+    lastInjectedCode = await editor.getValue();
+    return { success: true, message };
   } catch (error) {
     console.error("Error injecting code:", error);
+    // Reconnect next time in case the page was reloaded
+    editorBridge = null;
     return { success: false, message: error instanceof Error ? error.message : String(error) };
   }
 }
 
 /**
- * Wait for Earth Engine to initialize and the run button to be available
+ * Wait for Earth Engine to initialize and the run button to be available.
+ * Stops waiting once the request is cancelled.
  */
-function waitForEarthEngineRunButton(maxAttempts = 10, currentAttempt = 0): Promise<boolean> {
-  return new Promise((resolve) => {
-    if (currentAttempt > maxAttempts) {
-      console.error("Timeout waiting for Earth Engine to initialize");
-      resolve(false);
-      return;
-    }
-    
-    const runButton = document.querySelector('.goog-button.run-button') || 
+async function waitForEarthEngineRunButton(signal?: AbortSignal, maxAttempts = 10): Promise<boolean> {
+  for (let attempt = 0; attempt <= maxAttempts; attempt++) {
+    const runButton = document.querySelector('.goog-button.run-button') ||
                      document.querySelector('button[title="Run"]');
-    
+
     if (runButton) {
       console.log("Run button found, Earth Engine is ready");
-      resolve(true);
-    } else {
-      console.log(`Waiting for Earth Engine to initialize (attempt ${currentAttempt + 1}/${maxAttempts})`);
-      // Wait 3 seconds and try again
-      setTimeout(() => {
-        waitForEarthEngineRunButton(maxAttempts, currentAttempt + 1)
-          .then(resolve);
-      }, 3000);
+      return true;
     }
-  });
+    console.log(`Waiting for Earth Engine to initialize (attempt ${attempt + 1}/${maxAttempts})`);
+    // Wait 3 seconds and try again
+    await delay(3000, signal);
+  }
+  console.error("Timeout waiting for Earth Engine to initialize");
+  return false;
 }
 
 /**
  * Run code in the Earth Engine Code Editor
- * This injects the code and then clicks the run button
+ * This injects the code and then clicks the run button. A cancelled request
+ * leaves the editor alone and the code unrun.
  */
-async function runCode(code: string): Promise<string> {
+async function runCode(
+  code: string,
+  mode: InjectionMode | undefined,
+  base: string | undefined,
+  runId: string,
+  signal?: AbortSignal
+): Promise<string> {
   console.log('Running code in Earth Engine');
   console.log('Code length:', code.length, 'characters');
   
   try {
     // Wait for Earth Engine to initialize
     console.log("Waiting for Earth Engine to initialize...");
-    const isReady = await waitForEarthEngineRunButton();
+    const isReady = await waitForEarthEngineRunButton(signal);
     if (!isReady) {
       throw new Error("Earth Engine did not initialize in time");
     }
+    throwIfAborted(signal);
     
     // Inject the code using our enhanced method
     console.log("Injecting code...");
-    const injectionResult = await injectCode(code);
+    const injectionResult = await injectCode(code, mode, base);
     
     if (!injectionResult.success) {
       throw new Error(`Failed to inject code: ${injectionResult.message}`);
     }
     
     console.log("Code injection successful:", injectionResult.message);
+    // Stopped while the code went in: leave it for the user to run
+    throwIfAborted(signal);
     
+    // Console entries from here on belong to this run
+    watchConsole();
+    currentRunId = runId;
+
     // Click the Run button
     console.log("Clicking run button...");
     await clickRunButton();
@@ -309,109 +309,169 @@ async function runCode(code: string): Promise<string> {
   }
 }
 
+// Where the Inspector shows its results
+const INSPECTOR_PANEL_SELECTORS = '.inspector-panel, .inspector-results, .inspector';
+// How long the Inspector may take to load the values under a click
+const INSPECTOR_TIMEOUT_MS = 15000;
+
 /**
- * Inspect the map at specified coordinates
+ * Switch the right-hand panel to the Inspector
  */
-async function inspectMap(coordinates?: { lat: number, lng: number }): Promise<any> {
-  console.log('Inspecting map at coordinates:', coordinates);
-  
-  try {
-    // Look for the inspector button in the UI
-    const inspectorButtons = [
-      document.querySelector('button[title="Inspector"]'),
-      document.querySelector('button.inspector-button'),
-      // Add more selectors based on the actual GEE interface
-    ].filter(Boolean);
-    
-    if (inspectorButtons.length > 0) {
-      // Click the inspector button to activate the inspector
-      (inspectorButtons[0] as HTMLElement).click();
-      console.log('Inspector activated');
-      
-      // Wait for inspector to be ready
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      // If we have specific coordinates, try to click at that point on the map
-      if (coordinates) {
-        // This would require advanced map interaction logic
-        // For now, we'll simulate the result
-        console.log('Would click at coordinates:', coordinates);
-      }
-      
-      // Try to read the inspector panel data
-      const inspectorPanels = document.querySelectorAll('.inspector-panel, .inspector-results');
-      if (inspectorPanels.length > 0) {
-        const inspectionData = Array.from(inspectorPanels).map(panel => panel.textContent).join('\n');
-        console.log('Inspector data:', inspectionData);
-        return {
-          success: true,
-          data: inspectionData || 'No inspection data available',
-          timestamp: new Date().toISOString()
-        };
-      }
-    }
-    
-    // Fallback to simulated data if we couldn't interact with the actual inspector
-    const lat = coordinates?.lat || 37.7749;
-    const lng = coordinates?.lng || -122.4194;
-    
-    // Generate mock data
-    return {
-      coordinates: { lat, lng },
-      elevation: Math.round(1000 + (lat * lng) % 3000),
-      landCover: ['forest', 'urban', 'water', 'grassland', 'cropland', 'barren'][Math.abs(Math.round((lat * lng) % 6))],
-      timestamp: new Date().toISOString()
+function activateInspector(): void {
+  const inspectorTab = [
+    document.querySelector('button[title="Inspector"]'),
+    document.querySelector('button.inspector-button'),
+    ...Array.from(document.querySelectorAll('[role="tab"], .goog-tab')).filter(tab => tab.textContent?.trim() === 'Inspector')
+  ].find(Boolean);
+
+  if (!inspectorTab) {
+    throw new Error('Could not find the Inspector tab');
+  }
+  (inspectorTab as HTMLElement).click();
+}
+
+/**
+ * Click the map at a point in client pixels, sending the events Google Maps
+ * listens for
+ */
+function clickMapAt(x: number, y: number): void {
+  const target = document.elementFromPoint(x, y);
+  if (!target) {
+    throw new Error('Nothing is drawn at that point of the map');
+  }
+  const init = { bubbles: true, cancelable: true, clientX: x, clientY: y, button: 0, view: window };
+  target.dispatchEvent(new PointerEvent('pointerdown', { ...init, pointerId: 1, isPrimary: true }));
+  target.dispatchEvent(new MouseEvent('mousedown', init));
+  target.dispatchEvent(new PointerEvent('pointerup', { ...init, pointerId: 1, isPrimary: true }));
+  target.dispatchEvent(new MouseEvent('mouseup', init));
+  target.dispatchEvent(new MouseEvent('click', init));
+}
+
+/**
+ * Resolve with the Inspector text once it has been redrawn after the click
+ * and has finished loading. Clicking the same point again redraws the same
+ * text, so any change to the panel counts.
+ */
+function waitForInspector(panel: Element, previousText: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+    let redrawn = false;
+
+    const finish = (action: () => void) => {
+      observer.disconnect();
+      clearTimeout(timeoutTimer);
+      clearTimeout(settleTimer);
+      signal?.removeEventListener('abort', onAbort);
+      action();
     };
-  } catch (error: any) {
-    console.error('Error inspecting map:', error);
-    throw new Error(error?.message || 'Failed to inspect map');
+    const onAbort = () => finish(() => reject(createAbortError()));
+
+    const check = () => {
+      const text = (panel as HTMLElement).innerText || panel.textContent || '';
+      clearTimeout(settleTimer);
+      if ((!redrawn && text === previousText) || !text.includes('Point') || /Loading/i.test(text)) return;
+      // Values arrive one layer at a time, so wait for the panel to settle
+      settleTimer = setTimeout(() => finish(() => resolve(text)), 300);
+    };
+
+    const observer = new MutationObserver(() => {
+      redrawn = true;
+      check();
+    });
+    observer.observe(panel, { childList: true, subtree: true, characterData: true });
+    const timeoutTimer = setTimeout(() => finish(() => {
+      reject(new Error(`The Inspector did not show results within ${INSPECTOR_TIMEOUT_MS / 1000} s`));
+    }), INSPECTOR_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    check();
+  });
+}
+
+/**
+ * Inspect the map at the given coordinates: the point is converted to a pixel
+ * on the current map view and clicked with the Inspector active. The map is
+ * centered on the point first when it is out of view. Without coordinates
+ * the Inspector's current results are read.
+ */
+async function inspectMap(coordinates?: LatLng, signal?: AbortSignal): Promise<InspectorReading> {
+  console.log('Inspecting map at coordinates:', coordinates);
+
+  activateInspector();
+  // Wait for the panel to switch
+  await delay(300, signal);
+  const panel = document.querySelector(INSPECTOR_PANEL_SELECTORS);
+  if (!panel) {
+    throw new Error('Could not find the Inspector panel');
   }
+  const previousText = (panel as HTMLElement).innerText || panel.textContent || '';
+  if (!coordinates) {
+    return parseInspectorText(previousText);
+  }
+
+  const editor = await getEditor();
+  let view = await editor.getMapView();
+  let pixel = latLngToViewPixel(view, coordinates);
+  if (!isInsideView(view, pixel)) {
+    console.log('Point is out of view, centering the map on it');
+    await editor.setMapCenter(coordinates);
+    // Let the map finish moving before measuring again
+    await delay(500, signal);
+    view = await editor.getMapView();
+    pixel = latLngToViewPixel(view, coordinates);
+  }
+
+  throwIfAborted(signal);
+  clickMapAt(view.rect.left + pixel.x, view.rect.top + pixel.y);
+  const text = await waitForInspector(panel, previousText, signal);
+  const reading = parseInspectorText(text);
+  console.log('Inspector reading:', reading);
+  return reading;
 }
 
+// Every console entry seen in this tab
+const consoleLog = createConsoleLog();
+// The run new console entries belong to
+let currentRunId: string | null = null;
+// Chart elements seen in the console, newest last
+let consoleCharts: Array<{ element: Element; runId: string | null }> = [];
+// The panel being watched and how to stop watching it
+let watchedPanel: { panel: Element; stop: () => void } | null = null;
+
 /**
- * Check the console for errors
+ * Watch the console panel for new entries. The panel only exists once the
+ * Console tab has been shown and can be redrawn, so this is repeated before
+ * each use.
  */
-async function checkConsole(): Promise<any[]> {
-  console.log('Checking Earth Engine console for errors');
-  
-  try {
-    // Try to find the console output panel in the GEE interface
-    const consolePanels = document.querySelectorAll('.console-panel, .output-panel');
-    
-    if (consolePanels.length > 0) {
-      // Look for error messages within the console panel
-      const errors = [];
-      
-      for (const panel of consolePanels) {
-        const errorElements = panel.querySelectorAll('.error-message, .console-error, .ace_error');
-        
-        for (const errorElement of errorElements) {
-          errors.push({
-            level: 'error',
-            message: errorElement.textContent || 'Unknown error'
-          });
-        }
-        
-        // Also look for warning messages
-        const warningElements = panel.querySelectorAll('.warning-message, .console-warning');
-        
-        for (const warningElement of warningElements) {
-          errors.push({
-            level: 'warning',
-            message: warningElement.textContent || 'Unknown warning'
-          });
-        }
-      }
-      
-      return errors;
-    }
-    
-    // If we couldn't find any console panel or errors, return an empty array
-    return [];
-  } catch (error: any) {
-    console.error('Error checking console:', error);
-    throw new Error(error?.message || 'Failed to check console');
+function watchConsole(): void {
+  if (watchedPanel?.panel.isConnected) return;
+  watchedPanel?.stop();
+  watchedPanel = null;
+
+  const panel = document.querySelector(CONSOLE_PANEL_SELECTORS);
+  if (!panel) {
+    console.log('Earth Engine console panel not found yet');
+    return;
   }
+  watchedPanel = {
+    panel,
+    stop: watchConsolePanel(panel, () => currentRunId, (entry, element) => {
+      if (entry.type === 'chart') {
+        // Charts cleared from the console are dropped
+        consoleCharts = [...consoleCharts.filter(chart => chart.element.isConnected), { element, runId: entry.runId }];
+      }
+      consoleLog.add(entry);
+    })
+  };
+}
+
+/**
+ * Data tables of the charts still in the console, of one run or all of them
+ */
+function readConsoleCharts(runId?: string): ChartTable[] {
+  return consoleCharts
+    .filter(chart => chart.element.isConnected && (runId === undefined || chart.runId === runId))
+    .map(chart => readChartTable(chart.element, chart.runId))
+    .filter((table): table is ChartTable => table !== null);
 }
 
 /**
@@ -519,11 +579,12 @@ async function editScript(scriptId: string, content: string): Promise<string> {
     // 3. Replace the content with the new content
     // 4. Save the script
     
-    // For now, we'll simulate this process
-    const editor = findAceEditor();
-    
-    // Set the content in the editor
-    editor.setValue(content);
+    // For now, we'll simulate this process. The content goes in like any
+    // other injection, so the previous code is saved as a snapshot first.
+    const injectionResult = await injectCode(content);
+    if (!injectionResult.success) {
+      throw new Error(injectionResult.message);
+    }
     
     // Look for a save button
     const saveButtons = [
@@ -548,7 +609,5 @@ async function editScript(scriptId: string, content: string): Promise<string> {
 }
 
 // Notify the background script that the content script is loaded
-chrome.runtime.sendMessage({
-  type: 'CONTENT_SCRIPT_LOADED',
-  url: window.location.href
-}); 
\ No newline at end of file
+sendToBackground('CONTENT_SCRIPT_LOADED', { url: window.location.href })
+  .catch(error => console.warn('Could not notify the background script:', error)); 
\ No newline at end of file
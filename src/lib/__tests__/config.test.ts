@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getApiKey, getProviderSettings, saveApiKey, saveProviderSettings, STORAGE_KEYS } from '../config';
+
+// An in-memory chrome.storage.sync
+const createStorage = (items: Record<string, unknown> = {}) => ({
+  items,
+  get: vi.fn(async (keys: string[]) =>
+    Object.fromEntries(keys.filter(key => key in items).map(key => [key, items[key]]))),
+  set: vi.fn(async (values: Record<string, unknown>) => {
+    Object.assign(items, values);
+  }),
+  remove: vi.fn(async (key: string) => {
+    delete items[key];
+  })
+});
+
+describe('API keys', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('chrome', { storage: { sync: storage } });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a key per provider and sends only the selected one', async () => {
+    await saveApiKey('openai', 'sk-openai');
+    await saveProviderSettings({ provider: 'anthropic' });
+
+    expect((await getProviderSettings()).apiKey).toBeUndefined();
+
+    await saveApiKey('anthropic', 'sk-ant');
+    expect(await getProviderSettings()).toMatchObject({ provider: 'anthropic', apiKey: 'sk-ant' });
+    expect(await getApiKey('openai')).toBe('sk-openai');
+
+    // A local server needs no key; saving an empty one removes it
+    await saveApiKey('anthropic', '');
+    expect(await getApiKey('anthropic')).toBeNull();
+  });
+
+  it('moves the old single key to the provider it was saved for', async () => {
+    storage.items[STORAGE_KEYS.OPENAI_API_KEY] = 'sk-old';
+    storage.items[STORAGE_KEYS.SETTINGS] = { llm: { provider: 'azure-openai' } };
+
+    expect(await getApiKey('openai')).toBeNull();
+    expect(await getApiKey('azure-openai')).toBe('sk-old');
+    expect(storage.items).not.toHaveProperty(STORAGE_KEYS.OPENAI_API_KEY);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Cancellation helpers for Earth Agent
+ *
+ * A request started from the chat carries an AbortSignal. Model calls, tool
+ * calls and waits check it so that Stop ends the request promptly.
+ */
+
+/**
+ * The error thrown when a request is cancelled, matching what fetch throws
+ */
+export const createAbortError = (): Error =>
+  new DOMException('The request was cancelled', 'AbortError');
+
+/**
+ * Whether an error was caused by cancelling the request
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+/**
+ * Throw if the request has already been cancelled
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/**
+ * Stop waiting for a promise once the request is cancelled. The underlying
+ * work is not interrupted, only its result is ignored; work that can be
+ * stopped takes the signal itself, as content script requests do.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Wait for the given time, ending early if the request is cancelled
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  throwIfAborted(signal);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
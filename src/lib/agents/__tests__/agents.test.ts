@@ -1,16 +1,209 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
 import { initializeAgentSystem } from '../index';
+import { EarthEngineTools } from '../../tools';
+import { AgentSystem } from '../types';
+import { useLLMFixtures } from './helpers/llmFixtures';
+
+// Small stand-in for the dataset catalog so searches are deterministic
+const CATALOG = [
+  {
+    id: 'USGS/SRTMGL1_003',
+    name: 'USGS/SRTMGL1_003',
+    description: 'NASA SRTM Digital Elevation 30m',
+    type: 'image',
+    startDate: '2000-02-11',
+    endDate: '2000-02-22'
+  },
+  {
+    id: 'NASA/NASADEM_HGT/001',
+    name: 'NASA/NASADEM_HGT/001',
+    description: 'NASADEM: NASA NASADEM Digital Elevation 30m',
+    type: 'image',
+    startDate: '2000-02-11',
+    endDate: '2000-02-22'
+  }
+];
+
+const searchCatalog = async (query: string) =>
+  CATALOG.filter(dataset => `${dataset.id} ${dataset.description}`.toLowerCase().includes(query.toLowerCase()));
 
 describe('Agent System', () => {
+  const fixtures = useLLMFixtures('agent-pipeline');
+  // Receives the log, progress and stream messages meant for the chat UI
+  const postMessage = vi.fn();
+  let agentSystem: AgentSystem;
+
+  beforeAll(async () => {
+    vi.stubGlobal('window', { postMessage });
+    agentSystem = await initializeAgentSystem({
+      providerSettings: fixtures.providerSettings,
+      transport: fixtures.transport
+    });
+  });
+
+  beforeEach(() => {
+    postMessage.mockClear();
+    vi.spyOn(EarthEngineTools, 'databaseSearch').mockImplementation(searchCatalog);
+    // No Code Editor is available, so the debugger skips verification
+    vi.spyOn(EarthEngineTools, 'runCode').mockResolvedValue({
+      success: false,
+      message: 'Earth Engine Code Editor is not available in tests'
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fixtures.save();
+  });
+
   it('should initialize and respond to input', async () => {
-    const agentSystem = await initializeAgentSystem();
-    
     expect(agentSystem).toBeDefined();
-    
+
     const response = await agentSystem('Show me elevation data for the Grand Canyon');
     expect(response).toHaveProperty('response');
     expect(response).toHaveProperty('code');
     expect(typeof response.response).toBe('string');
     expect(typeof response.code).toBe('string');
   });
-}); 
\ No newline at end of file
+
+  it('runs the planner, dataset selector, code generator and summarizer', async () => {
+    const getEditorImports = vi.spyOn(EarthEngineTools, 'getEditorImports');
+    const response = await agentSystem('Show me elevation data for the Grand Canyon');
+
+    // Code may use a drawn geometry even when the request does not mention one
+    expect(getEditorImports).toHaveBeenCalled();
+
+    expect((response.debugLog || []).some(entry => entry.includes('STEP 1'))).toBe(true);
+    expect(response.datasets?.map(dataset => dataset.id)).toContain('USGS/SRTMGL1_003');
+    expect(response.datasets?.[0].rationale).toBeTruthy();
+    expect(response.code).toContain('USGS/SRTMGL1_003');
+    expect(response.runSuccessful).toBe(false);
+    expect(response.response.length).toBeGreaterThan(0);
+  });
+
+  it('reports agent progress and streams the code and response to the chat', async () => {
+    const response = await agentSystem('Show me elevation data for the Grand Canyon');
+    const posted = postMessage.mock.calls.map(([message]) => message);
+
+    const activeSteps = posted
+      .filter(message => message.type === 'AGENT_PROGRESS' && message.status === 'active')
+      .map(message => message.step);
+    expect(activeSteps).toEqual(['conversationManager', 'planner', 'datasetSelector', 'codeGenerator', 'codeDebugger', 'summarizer']);
+
+    const codeUpdates = posted.filter(message => message.type === 'AGENT_STREAM' && message.target === 'code');
+    expect(codeUpdates.length).toBeGreaterThan(1);
+    expect(codeUpdates[codeUpdates.length - 1].text).toBe(response.code);
+    expect(codeUpdates.some(message => message.text.includes('```'))).toBe(false);
+
+    const responseUpdates = posted.filter(message => message.type === 'AGENT_STREAM' && message.target === 'response');
+    expect(responseUpdates.length).toBeGreaterThan(1);
+    expect(responseUpdates[responseUpdates.length - 1].text).toBe(response.response);
+  });
+
+  it('reports token usage and cost for every model call', async () => {
+    const response = await agentSystem('Show me elevation data for the Grand Canyon');
+    const usage = response.usage || [];
+
+    expect(usage.map(record => record.step)).toEqual(['Planner', 'Dataset Selector', 'Code Generator', 'Response Summarizer']);
+    usage.forEach(record => {
+      expect(record.promptTokens).toBeGreaterThan(0);
+      expect(record.completionTokens).toBeGreaterThan(0);
+      expect(record.estimated).toBeUndefined();
+      expect(record.cost).toBeGreaterThan(0);
+    });
+  });
+
+  it('tells the user when the model keeps rate limiting requests', async () => {
+    const rateLimitedSystem = await initializeAgentSystem({
+      providerSettings: fixtures.providerSettings,
+      transport: async () => ({ status: 429, ok: false, body: 'Rate limit reached' }),
+      retry: { maxAttempts: 2, baseDelayMs: 0 }
+    });
+
+    const response = await rateLimitedSystem('Show me elevation data for the Grand Canyon');
+    const posted = postMessage.mock.calls.map(([message]) => message);
+
+    expect(posted.some(message => message.type === 'AGENT_WAIT' && message.message.includes('Retrying'))).toBe(true);
+    expect(response.response).toContain('rate limiting requests (HTTP 429) and still failed after 2 attempts');
+  });
+
+  it('modifies the previous code for follow-up requests', async () => {
+    const first = await agentSystem('Show me elevation data for the Grand Canyon');
+    vi.mocked(EarthEngineTools.databaseSearch).mockClear();
+
+    const response = await agentSystem('Now add a hillshade layer', {
+      history: [
+        { role: 'user', content: 'Show me elevation data for the Grand Canyon' },
+        { role: 'assistant', content: first.response, code: first.code }
+      ],
+      lastCode: first.code,
+      selectedDatasets: first.datasets
+    });
+
+    expect(EarthEngineTools.databaseSearch).not.toHaveBeenCalled();
+    expect(response.code).toContain('ee.Terrain.hillshade');
+  });
+
+  it('changes map layers directly without generating code', async () => {
+    const layers = [
+      { index: 0, name: 'RGB', visible: true, opacity: 1 },
+      { index: 1, name: 'NDVI', visible: true, opacity: 0.8 }
+    ];
+    vi.spyOn(EarthEngineTools, 'getMapState').mockResolvedValue({
+      success: true,
+      state: { center: { lat: 36.1, lng: -112.1 }, zoom: 10, layers }
+    });
+    const setLayerVisibility = vi.spyOn(EarthEngineTools, 'setLayerVisibility').mockResolvedValue({
+      success: true,
+      layers: [layers[0], { ...layers[1], visible: false }]
+    });
+
+    const response = await agentSystem('Hide the NDVI layer');
+
+    expect(setLayerVisibility).toHaveBeenCalledWith(1, false, undefined);
+    expect(response.response).toContain('I hid the "NDVI" layer');
+    expect(response.response).toContain('- NDVI: hidden');
+    expect(response.usage).toEqual([]);
+  });
+
+  it('asks for a drawn geometry when the request needs one and none exists', async () => {
+    vi.spyOn(EarthEngineTools, 'getEditorImports').mockResolvedValue({ success: true, imports: [] });
+
+    const response = await agentSystem('Show NDVI inside my polygon');
+
+    expect(response.response).toContain("couldn't find a drawn geometry");
+    expect(EarthEngineTools.databaseSearch).not.toHaveBeenCalled();
+    expect(response.usage).toEqual([]);
+  });
+
+  it('stops when cancelled and resumes from the kept plan', async () => {
+    const controller = new AbortController();
+    // Press Stop while the dataset selector searches the catalog
+    vi.mocked(EarthEngineTools.databaseSearch).mockImplementation(async () => {
+      controller.abort();
+      return [];
+    });
+
+    const stopped = await agentSystem('Show me elevation data for the Grand Canyon', undefined, {
+      signal: controller.signal
+    });
+
+    expect(stopped.cancelled).toBe(true);
+    expect(stopped.plan?.summary).toBeTruthy();
+    // The area of interest is the gazetteer's, whatever the model wrote
+    expect(stopped.plan?.aoi?.bbox).toEqual([-113.5, 35.9, -111.8, 36.5]);
+    expect(stopped.datasets).toBeUndefined();
+
+    vi.mocked(EarthEngineTools.databaseSearch).mockImplementation(searchCatalog);
+    const resumed = await agentSystem('Show me elevation data for the Grand Canyon', undefined, {
+      resume: { plan: stopped.plan, datasets: stopped.datasets }
+    });
+
+    expect(resumed.cancelled).toBeUndefined();
+    expect(resumed.debugLog).toContain('Resuming with the plan from the stopped request');
+    expect(resumed.code).toContain('USGS/SRTMGL1_003');
+  });
+});
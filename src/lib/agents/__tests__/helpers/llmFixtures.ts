@@ -0,0 +1,91 @@
+/**
+ * Record/replay fixtures for agent tests
+ *
+ * By default model requests are answered from the fixture file, so tests run
+ * offline. Run with LLM_FIXTURES=record and an API key to call the real
+ * provider and rewrite the file:
+ *
+ *   LLM_FIXTURES=record LLM_API_KEY=sk-... npx vitest run src/lib/agents
+ *
+ * LLM_PROVIDER, LLM_MODEL and LLM_BASE_URL select a different provider.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  createRecordingTransport,
+  createReplayTransport,
+  fetchTransport,
+  LLMFixture,
+  LLMTransport
+} from '@/lib/llm/transport';
+import { ProviderSettings, ProviderSettingsSchema } from '@/lib/llm/types';
+
+interface FixtureFile {
+  // Provider the fixtures were recorded with, without the API key
+  provider: Omit<ProviderSettings, 'apiKey'>;
+  interactions: LLMFixture[];
+}
+
+export interface LLMFixtureSession {
+  recording: boolean;
+  providerSettings: ProviderSettings;
+  transport: LLMTransport;
+  // Write the recorded interactions to disk (no-op when replaying)
+  save: () => void;
+}
+
+const FIXTURE_DIR = resolve(__dirname, '../fixtures');
+
+const readRecordingSettings = (): ProviderSettings => {
+  const settings = ProviderSettingsSchema.parse({
+    provider: process.env.LLM_PROVIDER || 'openai',
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+    model: process.env.LLM_MODEL,
+    baseUrl: process.env.LLM_BASE_URL
+  });
+  if (!settings.apiKey && settings.provider !== 'openai-compatible') {
+    throw new Error('Recording LLM fixtures requires LLM_API_KEY');
+  }
+  return settings;
+};
+
+/**
+ * Open the named fixture file for recording or replay
+ */
+export const useLLMFixtures = (name: string): LLMFixtureSession => {
+  const file = resolve(FIXTURE_DIR, `${name}.json`);
+
+  if (process.env.LLM_FIXTURES === 'record') {
+    const providerSettings = readRecordingSettings();
+    const interactions: LLMFixture[] = [];
+    const { apiKey: _apiKey, ...provider } = providerSettings;
+
+    return {
+      recording: true,
+      providerSettings,
+      transport: createRecordingTransport(fetchTransport, fixture => interactions.push(fixture)),
+      save: () => {
+        // Identical exchanges replay from a single entry
+        const unique = interactions.filter((fixture, index) => interactions.findIndex(other =>
+          other.key === fixture.key && JSON.stringify(other.response) === JSON.stringify(fixture.response)
+        ) === index);
+        const contents: FixtureFile = { provider, interactions: unique };
+        writeFileSync(file, JSON.stringify(contents, null, 2) + '\n');
+      }
+    };
+  }
+
+  if (!existsSync(file)) {
+    throw new Error(`Missing LLM fixture file ${file}. Record it with LLM_FIXTURES=record.`);
+  }
+  const contents: FixtureFile = JSON.parse(readFileSync(file, 'utf-8'));
+
+  return {
+    recording: false,
+    // Any key works since headers are not part of the recorded requests
+    providerSettings: { ...contents.provider, apiKey: 'replay' },
+    transport: createReplayTransport(contents.interactions),
+    save: () => {}
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { condenseHistory, estimateTokens, looksLikeFollowUp, refersToDrawnGeometry, refersToEditorScript } from '../memory';
+import { ConversationTurn } from '../types';
+
+describe('Conversation memory', () => {
+  it('keeps short histories verbatim without calling the model', async () => {
+    const callChatModel = vi.fn();
+    const history: ConversationTurn[] = [
+      { role: 'user', content: 'Show NDVI for Kenya in 2020' },
+      { role: 'assistant', content: 'Here is an NDVI map.', code: 'print(1);' }
+    ];
+
+    const result = await condenseHistory(history, 2000, callChatModel);
+
+    expect(result.summarized).toBe(false);
+    expect(result.transcript).toContain('User: Show NDVI for Kenya in 2020');
+    expect(result.transcript).toContain('[generated code]');
+    expect(callChatModel).not.toHaveBeenCalled();
+  });
+
+  it('summarizes older turns when the history exceeds the budget', async () => {
+    const callChatModel = vi.fn().mockResolvedValue('User mapped NDVI in Kenya.');
+    const history: ConversationTurn[] = Array.from({ length: 20 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' as const : 'assistant' as const,
+      content: `Message ${i} ${'about vegetation '.repeat(10)}`
+    }));
+
+    const result = await condenseHistory(history, 200, callChatModel);
+
+    expect(result.summarized).toBe(true);
+    expect(callChatModel).toHaveBeenCalledTimes(1);
+    expect(result.transcript).toContain('User mapped NDVI in Kenya.');
+    expect(result.transcript).toContain('Message 19');
+    expect(result.transcript).not.toContain('Message 0 ');
+    expect(estimateTokens(result.transcript)).toBeLessThanOrEqual(200);
+  });
+
+  it('recognizes referential follow-ups', () => {
+    expect(looksLikeFollowUp('now make it for 2015')).toBe(true);
+    expect(looksLikeFollowUp('Create a map of global forest loss between 2001 and 2020 using Hansen data')).toBe(false);
+  });
+
+  it('recognizes requests about the open script', () => {
+    expect(refersToEditorScript('Explain my script')).toBe(true);
+    expect(refersToEditorScript('add a cloud mask to this code')).toBe(true);
+    expect(refersToEditorScript('Why does the code in the editor fail?')).toBe(true);
+    expect(refersToEditorScript('Show NDVI for Kenya in 2020')).toBe(false);
+  });
+
+  it('recognises requests about a drawn geometry', () => {
+    expect(refersToDrawnGeometry('Show NDVI inside my polygon')).toBe(true);
+    expect(refersToDrawnGeometry('Clip to the area I drew')).toBe(true);
+    expect(refersToDrawnGeometry('Compute the mean over the drawn region')).toBe(true);
+    expect(refersToDrawnGeometry('Show NDVI for Kenya in 2020')).toBe(false);
+  });
+});
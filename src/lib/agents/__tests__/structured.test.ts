@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { callStructuredModel, extractJson, MAX_STRUCTURED_ATTEMPTS } from '../structured';
+import { DatasetSelectionSchema } from '../types';
+
+const validSelection = {
+  datasets: [{ id: 'USGS/SRTMGL1_003', rationale: 'Global 30 m elevation' }],
+  searchTerms: ['elevation']
+};
+
+describe('Structured model output', () => {
+  it('reads JSON wrapped in code fences', () => {
+    expect(JSON.parse(extractJson('Here you go:\n```json\n{"a": 1}\n```'))).toEqual({ a: 1 });
+  });
+
+  it('returns validated data from a valid reply', async () => {
+    const callChatModel = vi.fn().mockResolvedValue(JSON.stringify(validSelection));
+
+    const result = await callStructuredModel(callChatModel, 'Pick datasets', 'System', 'Dataset Selector', DatasetSelectionSchema);
+
+    expect(result).toEqual(validSelection);
+    expect(callChatModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-asks with the validation problem when the reply does not match the schema', async () => {
+    const callChatModel = vi.fn()
+      .mockResolvedValueOnce('{"datasets": []}')
+      .mockResolvedValueOnce(JSON.stringify(validSelection));
+
+    const result = await callStructuredModel(callChatModel, 'Pick datasets', 'System', 'Dataset Selector', DatasetSelectionSchema);
+
+    expect(result.datasets[0].id).toBe('USGS/SRTMGL1_003');
+    expect(callChatModel).toHaveBeenCalledTimes(2);
+    const [retryPrompt, , retryStep] = callChatModel.mock.calls[1];
+    expect(retryPrompt).toContain('datasets: Array must contain at least 1 element(s)');
+    expect(retryStep).toBe('Dataset Selector (retry 1)');
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const callChatModel = vi.fn().mockResolvedValue('I would suggest SRTM.');
+
+    await expect(
+      callStructuredModel(callChatModel, 'Pick datasets', 'System', 'Dataset Selector', DatasetSelectionSchema)
+    ).rejects.toThrow('Dataset Selector returned invalid output');
+    expect(callChatModel).toHaveBeenCalledTimes(MAX_STRUCTURED_ATTEMPTS);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { extractTimeframe, formatTimeframeForPrompt } from '../timeframe';
+import { planTimeframe } from '../utils';
+
+// Relative dates count from Monday 19 October 2026
+const today = new Date(Date.UTC(2026, 9, 19));
+const dates = (text: string, hemisphere?: 'north' | 'south') => {
+  const timeframe = extractTimeframe(text, { today, hemisphere });
+  return timeframe && [timeframe.start, timeframe.end];
+};
+
+describe('Timeframe extraction', () => {
+  it('reads years, ranges and ISO dates with an exclusive end', () => {
+    expect(dates('NDVI for Kenya in 2020')).toEqual(['2020-01-01', '2021-01-01']);
+    expect(dates('Forest loss between 2015 and 2020')).toEqual(['2015-01-01', '2021-01-01']);
+    expect(dates('Floods 2018-2020')).toEqual(['2018-01-01', '2021-01-01']);
+    expect(dates('Imagery from March 2020 to June 2021')).toEqual(['2020-03-01', '2021-07-01']);
+    expect(dates('Composite for 2020-03-01/2020-04-15')).toEqual(['2020-03-01', '2020-04-16']);
+    expect(dates('Land cover in the 1990s')).toEqual(['1990-01-01', '2000-01-01']);
+    expect(dates('Show me elevation data for the Grand Canyon')).toBeUndefined();
+  });
+
+  it('reads quarters and months', () => {
+    expect(dates('Q3 2021 composite')).toEqual(['2021-07-01', '2021-10-01']);
+    expect(dates('third quarter of 2021')).toEqual(['2021-07-01', '2021-10-01']);
+    expect(dates('Burned area in July 2021')).toEqual(['2021-07-01', '2021-08-01']);
+    expect(dates('Snow cover last February')).toEqual(['2026-02-01', '2026-03-01']);
+    expect(dates('Snow in may be limited')).toBeUndefined();
+  });
+
+  it('counts relative dates back from today', () => {
+    expect(dates('NDVI over the past 5 years')).toEqual(['2021-10-20', '2026-10-20']);
+    expect(dates('Rainfall in the last three months')).toEqual(['2026-07-20', '2026-10-20']);
+    expect(dates('Fires last year')).toEqual(['2025-01-01', '2026-01-01']);
+    expect(dates('Fires this year')).toEqual(['2026-01-01', '2026-10-20']);
+    expect(dates('Urban growth since 2015')).toEqual(['2015-01-01', '2026-10-20']);
+    expect(extractTimeframe('Glaciers before 2010', { today })).toEqual({ end: '2010-01-01', text: 'before 2010' });
+  });
+
+  it('places seasons by hemisphere', () => {
+    expect(dates('NDVI last summer')).toEqual(['2026-06-01', '2026-09-01']);
+    expect(dates('NDVI last summer', 'south')).toEqual(['2025-12-01', '2026-03-01']);
+    expect(dates('Rainfall in the 2019 monsoon season')).toEqual(['2019-06-01', '2019-10-01']);
+    expect(dates('Snow in winter 2021')).toEqual(['2020-12-01', '2021-03-01']);
+    expect(dates('Sea ice in the austral winter of 2020')).toEqual(['2020-06-01', '2020-09-01']);
+    expect(dates('Summer NDVI in 2019')).toEqual(['2019-06-01', '2019-09-01']);
+    expect(dates('NDVI in the fall')).toEqual(['2026-09-01', '2026-12-01']);
+    expect(dates('Where will the snow fall')).toBeUndefined();
+  });
+
+  it('reads "latest" and "current" data as the last five years', () => {
+    expect(dates('Latest Sentinel-2 imagery of Lagos')).toEqual(['2021-01-01', undefined]);
+    expect(dates('Current conditions at Lake Mead')).toEqual(['2021-01-01', undefined]);
+    expect(dates('Explain my current script')).toBeUndefined();
+    expect(dates('Fix the current code')).toBeUndefined();
+  });
+
+  it('gives the filterDate call for the prompt', () => {
+    const timeframe = extractTimeframe('Q3 2021 composite', { today })!;
+
+    expect(formatTimeframeForPrompt(timeframe)).toBe(
+      `DATES: "Q3 2021" is 2021-07-01 to 2021-10-01. Filter collections with .filterDate('2021-07-01', '2021-10-01'); the end date is exclusive.`
+    );
+  });
+});
+
+describe('Plan time range', () => {
+  const plan = (start: string | null, end: string | null) =>
+    ({ summary: '', aoi: null, timeRange: { start, end }, variables: [], outputs: [], steps: [] });
+
+  it('ends on the first day after the year, month or day the plan names', () => {
+    expect(planTimeframe(plan('2018', '2020'))).toEqual({ start: '2018-01-01', end: '2021-01-01' });
+    expect(planTimeframe(plan('2020-01', '2020-12'))).toEqual({ start: '2020-01-01', end: '2021-01-01' });
+    expect(planTimeframe(plan(null, '2020-06-30'))).toEqual({ start: undefined, end: '2020-07-01' });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PRICE_TABLE } from '../../llm/pricing';
+import { createStepUsage, formatCost, summarizeUsage } from '../usage';
+
+describe('Token usage', () => {
+  it('prices dated model names with the matching base model', () => {
+    const record = createStepUsage(
+      'Planner',
+      'gpt-4o-2024-08-06',
+      { promptTokens: 1_000_000, completionTokens: 100_000 },
+      'prompt',
+      'reply',
+      DEFAULT_PRICE_TABLE
+    );
+
+    expect(record.cost).toBeCloseTo(3.5);
+    expect(record.estimated).toBeUndefined();
+  });
+
+  it('estimates tokens when the provider reports no usage', () => {
+    const record = createStepUsage('Planner', 'llama3', undefined, 'x'.repeat(400), 'y'.repeat(40), DEFAULT_PRICE_TABLE);
+
+    expect(record).toMatchObject({ promptTokens: 100, completionTokens: 10, estimated: true });
+    expect(record.cost).toBeUndefined();
+  });
+
+  it('adds up usage per step, counting retries towards their step', () => {
+    const summary = summarizeUsage([
+      { step: 'Planner', model: 'gpt-4o', promptTokens: 100, completionTokens: 20, cost: 0.001 },
+      { step: 'Planner (retry 1)', model: 'gpt-4o', promptTokens: 150, completionTokens: 20, cost: 0.002 },
+      { step: 'Code Generator', model: 'gpt-4o', promptTokens: 300, completionTokens: 200 }
+    ]);
+
+    expect(summary).toMatchObject({ promptTokens: 550, completionTokens: 240, calls: 3, estimated: false });
+    expect(summary.cost).toBeCloseTo(0.003);
+    expect(summary.steps.map(step => [step.step, step.calls])).toEqual([['Planner', 2], ['Code Generator', 1]]);
+    expect(summary.steps[1].cost).toBeUndefined();
+  });
+
+  it('formats small costs with enough digits to be useful', () => {
+    expect(formatCost(1.234)).toBe('$1.23');
+    expect(formatCost(0.00123)).toBe('$0.0012');
+  });
+});
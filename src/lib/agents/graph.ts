@@ -0,0 +1,185 @@
+/**
+ * Agent workflow graph for Earth Engine Agent
+ *
+ * Wires the agent nodes into a LangGraph StateGraph. To add or reorder an
+ * agent, register its node here and adjust the edges; the nodes themselves
+ * only read and return AgentState fields.
+ */
+
+import { Annotation, StateGraph, START, END } from '@langchain/langgraph/web';
+import { DatasetEntry } from '../catalog/types';
+import { AgentContext, AgentNode, AgentState, ConversationContext, DatasetSelection, TaskPlan } from './types';
+import { ConsoleEntry } from '../messaging/protocol';
+import { ChartTable } from '../console/chartTable';
+import { MapScreenshot } from '../map/screenshot';
+import { MapState } from '../map/layers';
+import { EditorImport } from '../editor/imports';
+import { ResolvedPlace } from '../places/gazetteer';
+import { Timeframe } from './timeframe';
+import { reportProgress } from './utils';
+import { throwIfAborted } from '../abort';
+import { createConversationManagerNode } from './nodes/conversationManager';
+import { createPlannerNode } from './nodes/planner';
+import { createDatasetSelectorNode } from './nodes/datasetSelector';
+import { createCodeGeneratorNode, isRepairRequest } from './nodes/codeGenerator';
+import { createCodeDebuggerNode } from './nodes/codeDebugger';
+import { createSummarizerNode } from './nodes/summarizer';
+
+// Node names used for edges
+export const AGENT_NODES = {
+  CONVERSATION_MANAGER: 'conversationManager',
+  PLANNER: 'planner',
+  DATASET_SELECTOR: 'datasetSelector',
+  CODE_GENERATOR: 'codeGenerator',
+  CODE_DEBUGGER: 'codeDebugger',
+  SUMMARIZER: 'summarizer'
+} as const;
+
+type AgentNodeName = typeof AGENT_NODES[keyof typeof AGENT_NODES];
+
+// Names shown in the chat progress indicator
+const AGENT_NODE_LABELS: Record<AgentNodeName, string> = {
+  conversationManager: 'Reading conversation',
+  planner: 'Planning',
+  datasetSelector: 'Selecting datasets',
+  codeGenerator: 'Writing code',
+  codeDebugger: 'Running code in Earth Engine',
+  summarizer: 'Summarizing'
+};
+
+/**
+ * Report to the UI when a node starts and finishes. A cancelled request
+ * stops the graph here, discarding the output of the interrupted node.
+ */
+const withProgress = (name: AgentNodeName, node: AgentNode, signal?: AbortSignal): AgentNode => async (state) => {
+  throwIfAborted(signal);
+  const label = name === AGENT_NODES.CODE_GENERATOR && isRepairRequest(state)
+    ? 'Fixing code'
+    : AGENT_NODE_LABELS[name];
+  reportProgress(name, label, 'active');
+  try {
+    const update = await node(state);
+    throwIfAborted(signal);
+    return update;
+  } finally {
+    reportProgress(name, label, 'done');
+  }
+};
+
+/**
+ * Graph state mirroring AgentState. Every field keeps the latest value
+ * written to it except the debug log, which is appended to so each node only
+ * returns its own lines.
+ */
+const AgentGraphState = Annotation.Root({
+  input: Annotation<string>,
+  conversation: Annotation<ConversationContext | undefined>,
+  conversationSummary: Annotation<string | undefined>,
+  isFollowUp: Annotation<boolean | undefined>,
+  previousCode: Annotation<string | undefined>,
+  editorCode: Annotation<string | undefined>,
+  editorImports: Annotation<EditorImport[] | undefined>,
+  places: Annotation<ResolvedPlace[] | undefined>,
+  timeframe: Annotation<Timeframe | undefined>,
+  plan: Annotation<TaskPlan | undefined>,
+  taskPlan: Annotation<string | undefined>,
+  selectedDatabases: Annotation<DatasetEntry[] | undefined>,
+  coverageNotes: Annotation<string[] | undefined>,
+  datasetSelection: Annotation<DatasetSelection | undefined>,
+  generatedCode: Annotation<string | undefined>,
+  errors: Annotation<string | undefined>,
+  debugLog: Annotation<string[]>({
+    reducer: (current, update) => [...current, ...update],
+    default: () => []
+  }),
+  debugAttempts: Annotation<number | undefined>,
+  runSuccessful: Annotation<boolean | undefined>,
+  consoleEntries: Annotation<ConsoleEntry[] | undefined>,
+  chartData: Annotation<ChartTable[] | undefined>,
+  mapScreenshot: Annotation<MapScreenshot | undefined>,
+  mapState: Annotation<MapState | undefined>,
+  inspectionResults: Annotation<string | undefined>,
+  halted: Annotation<boolean | undefined>,
+  response: Annotation<string | undefined>
+});
+
+/**
+ * Route after the planner: follow-ups that already carry datasets skip the search
+ */
+const routeAfterPlanner = (state: AgentState): string => {
+  if (state.halted) return 'end';
+  return state.selectedDatabases && state.selectedDatabases.length > 0 ? 'generate' : 'select';
+};
+
+/**
+ * Route after the code generator: a failed repair keeps its errors and goes
+ * straight to the summary instead of re-running the same code
+ */
+const routeAfterCodeGenerator = (state: AgentState): string => {
+  if (state.halted) return 'end';
+  return isRepairRequest(state) ? 'summarize' : 'debug';
+};
+
+/**
+ * Create the router that loops back to the code generator while errors remain
+ */
+const createDebuggerRouter = (maxDebugAttempts: number) => (state: AgentState): string => {
+  if (state.errors && (state.debugAttempts || 0) < maxDebugAttempts) return 'repair';
+  return 'summarize';
+};
+
+/**
+ * Stop early when a node has already written the final response
+ */
+const routeUnlessHalted = (state: AgentState): string => {
+  return state.halted ? 'end' : 'continue';
+};
+
+/**
+ * Build and compile the agent workflow
+ */
+export const createAgentGraph = (context: AgentContext) => {
+  const wrapNode = (name: AgentNodeName, createNode: (context: AgentContext) => AgentNode) =>
+    withProgress(name, createNode(context), context.signal);
+
+  return new StateGraph(AgentGraphState)
+    .addNode(AGENT_NODES.CONVERSATION_MANAGER, wrapNode(AGENT_NODES.CONVERSATION_MANAGER, createConversationManagerNode))
+    .addNode(AGENT_NODES.PLANNER, wrapNode(AGENT_NODES.PLANNER, createPlannerNode))
+    .addNode(AGENT_NODES.DATASET_SELECTOR, wrapNode(AGENT_NODES.DATASET_SELECTOR, createDatasetSelectorNode))
+    .addNode(AGENT_NODES.CODE_GENERATOR, wrapNode(AGENT_NODES.CODE_GENERATOR, createCodeGeneratorNode))
+    .addNode(AGENT_NODES.CODE_DEBUGGER, wrapNode(AGENT_NODES.CODE_DEBUGGER, createCodeDebuggerNode))
+    .addNode(AGENT_NODES.SUMMARIZER, wrapNode(AGENT_NODES.SUMMARIZER, createSummarizerNode))
+    .addEdge(START, AGENT_NODES.CONVERSATION_MANAGER)
+    .addConditionalEdges(AGENT_NODES.CONVERSATION_MANAGER, routeUnlessHalted, {
+      continue: AGENT_NODES.PLANNER,
+      end: END
+    })
+    .addConditionalEdges(AGENT_NODES.PLANNER, routeAfterPlanner, {
+      select: AGENT_NODES.DATASET_SELECTOR,
+      generate: AGENT_NODES.CODE_GENERATOR,
+      end: END
+    })
+    .addConditionalEdges(AGENT_NODES.DATASET_SELECTOR, routeUnlessHalted, {
+      continue: AGENT_NODES.CODE_GENERATOR,
+      end: END
+    })
+    .addConditionalEdges(AGENT_NODES.CODE_GENERATOR, routeAfterCodeGenerator, {
+      debug: AGENT_NODES.CODE_DEBUGGER,
+      summarize: AGENT_NODES.SUMMARIZER,
+      end: END
+    })
+    .addConditionalEdges(AGENT_NODES.CODE_DEBUGGER, createDebuggerRouter(context.maxDebugAttempts), {
+      repair: AGENT_NODES.CODE_GENERATOR,
+      summarize: AGENT_NODES.SUMMARIZER
+    })
+    .addEdge(AGENT_NODES.SUMMARIZER, END)
+    .compile();
+};
+
+/**
+ * Upper bound on graph steps: the conversation manager, planner, dataset
+ * selector and summarizer plus a generate and debug pass for every attempt
+ */
+export const getRecursionLimit = (maxDebugAttempts: number): number => {
+  return 4 + maxDebugAttempts * 2 + 1;
+};
@@ -0,0 +1,101 @@
+/**
+ * Conversation memory for Earth Engine Agent
+ *
+ * Condenses earlier chat turns into a transcript that fits a token budget.
+ * Recent turns are kept verbatim and older ones are summarized by the model.
+ */
+
+import { CallChatModel, ConversationTurn } from './types';
+
+// Rough characters-per-token ratio for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Words that usually point back at an earlier result
+const FOLLOW_UP_PATTERN = /\b(it|this|that|these|those|same|instead|also|now|again|previous|above|change|modify|update|add|remove|make)\b/i;
+
+// Phrases that point at the script open in the Code Editor
+const EDITOR_SCRIPT_PATTERN = /\b(my|this|the|current|open|existing)\s+(script|code)\b|\b(in|from)\s+(the|my)\s+(code\s+)?editor\b/i;
+
+// Phrases that point at a geometry drawn on the Code Editor map
+const DRAWN_GEOMETRY_PATTERN = /\b(my|this|the)\s+(drawn\s+)?(geometry|polygon|rectangle|shape)\b|\bdrawn\s+(area|region|geometry|polygon|shape)\b|\b(area|region|polygon|shape)\s+(that\s+)?I\s+(drew|have\s+drawn|just\s+drew)\b/i;
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Format one turn for a prompt. Code is left out because the latest code is
+ * passed to the agents separately.
+ */
+const formatTurn = (turn: ConversationTurn): string => {
+  const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+  return `${speaker}: ${turn.content}${turn.code ? ' [generated code]' : ''}`;
+};
+
+/**
+ * Condense the conversation history to fit within the token budget
+ */
+export const condenseHistory = async (
+  history: ConversationTurn[],
+  tokenBudget: number,
+  callChatModel: CallChatModel
+): Promise<{ transcript: string; summarized: boolean }> => {
+  const lines = history.map(formatTurn);
+  const fullTranscript = lines.join('\n');
+  if (estimateTokens(fullTranscript) <= tokenBudget) {
+    return { transcript: fullTranscript, summarized: false };
+  }
+
+  // Keep the newest turns verbatim in half the budget
+  const recentLines: string[] = [];
+  let recentTokens = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const lineTokens = estimateTokens(lines[i]);
+    if (recentTokens + lineTokens > tokenBudget / 2) break;
+    recentLines.unshift(lines[i]);
+    recentTokens += lineTokens;
+  }
+
+  // Summarize everything older into the other half
+  const olderLines = lines.slice(0, lines.length - recentLines.length);
+  const summaryWordLimit = Math.max(50, Math.floor((tokenBudget / 2) * 0.75));
+  const summarySystemPrompt = `You summarize conversations about Google Earth Engine tasks.
+  Keep locations, dates, datasets, parameters and decisions. Leave out pleasantries.`;
+  const summaryPrompt = `Summarize the following conversation in at most ${summaryWordLimit} words:
+
+  ${olderLines.join('\n').slice(-tokenBudget * CHARS_PER_TOKEN * 4)}`;
+
+  const summary = await callChatModel(summaryPrompt, summarySystemPrompt, 'Conversation Memory');
+
+  return {
+    transcript: `Summary of earlier conversation: ${summary}${recentLines.length > 0 ? `\n\nRecent messages:\n${recentLines.join('\n')}` : ''}`,
+    summarized: true
+  };
+};
+
+/**
+ * Guess whether a request builds on the previous result when the model
+ * cannot be asked
+ */
+export const looksLikeFollowUp = (input: string): boolean => {
+  return FOLLOW_UP_PATTERN.test(input) || input.trim().split(/\s+/).length <= 8;
+};
+
+/**
+ * Whether a request is about the script the user has open in the Code
+ * Editor, e.g. "explain my script" or "add a cloud mask to this code"
+ */
+export const refersToEditorScript = (input: string): boolean => {
+  return EDITOR_SCRIPT_PATTERN.test(input);
+};
+
+/**
+ * Whether a request refers to a geometry drawn on the map, e.g. "NDVI inside
+ * my polygon" or "clip to the area I drew"
+ */
+export const refersToDrawnGeometry = (input: string): boolean => {
+  return DRAWN_GEOMETRY_PATTERN.test(input);
+};
@@ -0,0 +1,151 @@
+/**
+ * Code Debugger Agent
+ *
+ * Runs the generated code in the Earth Engine Code Editor once per visit and
+ * records what its console shows. The graph loops back to the Code Generator
+ * while errors remain and attempts are left.
+ */
+
+import { AgentContext, AgentNode, AgentState } from '../types';
+import { EarthEngineTools } from '../../tools';
+import { createStepLogger, errorMessage } from '../utils';
+import { delay } from '../../abort';
+import { createRequestId } from '../../messaging';
+import { ConsoleEntry } from '../../messaging/protocol';
+import { ChartTable } from '../../console/chartTable';
+import { MapScreenshot } from '../../map/screenshot';
+import { MapState } from '../../map/layers';
+
+/**
+ * How long to wait after pressing Run before reading the Earth Engine console
+ */
+const CONSOLE_SETTLE_MS = 3000;
+
+/**
+ * The state after a run that did not verify the code. What an earlier
+ * attempt read from the console and the map is cleared unless overridden.
+ */
+const failedRun = (debugAttempts: number, logs: string[], overrides: Partial<AgentState> = {}): Partial<AgentState> => ({
+  debugAttempts,
+  runSuccessful: false,
+  errors: undefined,
+  consoleEntries: undefined,
+  chartData: undefined,
+  mapScreenshot: undefined,
+  mapState: undefined,
+  debugLog: logs,
+  ...overrides
+});
+
+/**
+ * Read the data behind the charts of a run, if it drew any
+ */
+const readCharts = async (
+  entries: ConsoleEntry[],
+  runId: string,
+  log: (message: string) => void,
+  signal?: AbortSignal
+): Promise<ChartTable[] | undefined> => {
+  if (!entries.some(entry => entry.type === 'chart')) return undefined;
+  const result = await EarthEngineTools.getChartData(signal, runId);
+  if (!result.success) {
+    log(`Could not read chart data: ${result.error}`);
+    return undefined;
+  }
+  log(`Read the data of ${result.charts.length} chart(s)`);
+  return result.charts;
+};
+
+/**
+ * Read what the map shows after the run
+ */
+const readMapState = async (log: (message: string) => void, signal?: AbortSignal): Promise<MapState | undefined> => {
+  const result = await EarthEngineTools.getMapState(signal);
+  if (!result.state) {
+    log(`Could not read the map: ${result.error}`);
+    return undefined;
+  }
+  log(`The map shows ${result.state.layers.length} layer(s) at zoom ${result.state.zoom}`);
+  return result.state;
+};
+
+/**
+ * Capture the map the run drew, so the summary can be checked against it
+ */
+const captureMap = async (log: (message: string) => void, signal?: AbortSignal): Promise<MapScreenshot | undefined> => {
+  const result = await EarthEngineTools.captureMapScreenshot(signal);
+  if (!result.image) {
+    log(`Could not capture the map: ${result.error}`);
+    return undefined;
+  }
+  log(`Captured the map (${result.image.width}x${result.image.height})`);
+  return result.image;
+};
+
+export const createCodeDebuggerNode = ({ maxDebugAttempts, signal }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+  const debugAttempts = (state.debugAttempts || 0) + 1;
+  const attemptLabel = `Attempt ${debugAttempts}/${maxDebugAttempts}`;
+
+  try {
+    if (debugAttempts === 1) {
+      log('STEP 4: Running and debugging generated code');
+    }
+
+    if (!state.generatedCode) {
+      log('No code was generated');
+      throw new Error('No code was generated');
+    }
+
+    log(`${attemptLabel}: Running code in Earth Engine...`);
+    const runId = createRequestId();
+    const stopWatching = await EarthEngineTools.watchConsole(entry => {
+      if (entry.runId === runId) log(`${attemptLabel}: Console ${entry.type}: ${entry.message}`);
+    }, signal);
+
+    try {
+      const runResult = await EarthEngineTools.runCode(state.generatedCode, signal, runId);
+      if (!runResult.success) {
+        // Without a reachable Code Editor there is nothing to debug against
+        log(`${attemptLabel}: Could not run code: ${runResult.message}`);
+        log(`Code could not be verified in Earth Engine after ${debugAttempts} attempt(s)`);
+        return failedRun(debugAttempts, logs);
+      }
+
+      // Give Earth Engine time to execute before reading the console
+      await delay(CONSOLE_SETTLE_MS, signal);
+
+      const consoleResult = await EarthEngineTools.checkConsole(signal, runId);
+      if (!consoleResult.success) {
+        log(`${attemptLabel}: Could not read the Earth Engine console: ${consoleResult.error}`);
+        log(`Code could not be verified in Earth Engine after ${debugAttempts} attempt(s)`);
+        return failedRun(debugAttempts, logs);
+      }
+
+      const consoleEntries = consoleResult.entries;
+      const chartData = await readCharts(consoleEntries, runId, log, signal);
+      const consoleErrors = consoleEntries.filter(entry => entry.type === 'error');
+      if (consoleErrors.length === 0) {
+        log(`${attemptLabel}: Code ran without console errors`);
+        log(`Code verified in Earth Engine after ${debugAttempts} attempt(s)`);
+        const mapState = await readMapState(log, signal);
+        const mapScreenshot = await captureMap(log, signal);
+        return { debugAttempts, runSuccessful: true, errors: undefined, consoleEntries, chartData, mapScreenshot, mapState, debugLog: logs };
+      }
+
+      const errors = consoleErrors.map(entry => entry.message).join('\n');
+      log(`${attemptLabel}: Console errors: ${errors}`);
+      if (debugAttempts >= maxDebugAttempts) {
+        log(`Code could not be verified in Earth Engine after ${debugAttempts} attempt(s)`);
+      }
+      return failedRun(debugAttempts, logs, { errors, consoleEntries, chartData });
+    } finally {
+      stopWatching();
+    }
+  } catch (error) {
+    // A failed debugging stage should not discard the code we already have
+    console.error('Error in code debugging stage:', error);
+    log(`Error in code debugging stage: ${errorMessage(error)}`);
+    return failedRun(debugAttempts, logs);
+  }
+};
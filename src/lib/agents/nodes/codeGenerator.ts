@@ -0,0 +1,159 @@
+/**
+ * Code Generator Agent
+ *
+ * Writes Earth Engine JavaScript for the plan. When the Code Debugger loops
+ * back with console errors, it repairs the previous code instead.
+ */
+
+import { AgentContext, AgentNode, AgentState } from '../types';
+import {
+  createStepLogger,
+  createUIStream,
+  errorMessage,
+  extractCodeBlock,
+  extractPartialCodeBlock,
+  formatDatasetsForPrompt
+} from '../utils';
+import { formatImportsForPrompt } from '../../editor/imports';
+import { formatPlacesForPrompt } from '../../places/gazetteer';
+import { formatTimeframeForPrompt } from '../timeframe';
+
+/**
+ * Whether the debugger sent us back with errors to fix
+ */
+export const isRepairRequest = (state: AgentState): boolean => {
+  return !!state.errors && !!state.generatedCode;
+};
+
+/**
+ * What the Code Editor already defines, when it could be read
+ */
+const importsPrompt = (state: AgentState): string =>
+  state.editorImports
+    ? `
+    ${formatImportsForPrompt(state.editorImports)}
+    `
+    : '';
+
+/**
+ * Geometry for the places named in the request
+ */
+const placesPrompt = (state: AgentState): string =>
+  state.places && state.places.length > 0
+    ? `
+    ${formatPlacesForPrompt(state.places)}
+    `
+    : '';
+
+/**
+ * Exact dates for the period named in the request
+ */
+const timeframePrompt = (state: AgentState): string =>
+  state.timeframe
+    ? `
+    ${formatTimeframeForPrompt(state.timeframe)}
+    `
+    : '';
+
+export const createCodeGeneratorNode = ({ callChatModel, maxDebugAttempts }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+
+  if (isRepairRequest(state)) {
+    const attemptLabel = `Attempt ${state.debugAttempts}/${maxDebugAttempts}`;
+    try {
+      // Ask the model to repair the code using the console output
+      log(`${attemptLabel}: Asking LLM to fix the code...`);
+      const codeDebuggerSystemPrompt = `You are an expert Google Earth Engine JavaScript debugger.
+      Fix code so that it runs in the Earth Engine Code Editor without errors, changing as little as possible.`;
+
+      const codeDebuggerPrompt = `The following Google Earth Engine code was written for this task:
+
+      TASK: ${state.input}
+
+      CODE:
+      ${state.generatedCode}
+
+      Running it in the Earth Engine Code Editor produced these console errors:
+      ${state.errors}${importsPrompt(state)}${placesPrompt(state)}${timeframePrompt(state)}
+
+      Return the complete corrected JavaScript code. Return ONLY the JavaScript code.`;
+
+      const fixedCodeResponse = await callChatModel(
+        codeDebuggerPrompt, codeDebuggerSystemPrompt, 'Code Debugger', createUIStream('code', extractPartialCodeBlock)
+      );
+      log(`${attemptLabel}: Received corrected code`);
+
+      // Clearing the errors sends the corrected code back to the debugger
+      return {
+        generatedCode: extractCodeBlock(fixedCodeResponse),
+        errors: undefined,
+        debugLog: logs
+      };
+    } catch (error) {
+      // A failed repair should not discard the code we already have
+      console.error('Error in code debugging stage:', error);
+      log(`Error in code debugging stage: ${errorMessage(error)}`);
+      return { runSuccessful: false, debugLog: logs };
+    }
+  }
+
+  try {
+    log('STEP 3: Generating Earth Engine code');
+
+    // Only proceed if we have a plan and datasets
+    if (!state.taskPlan || !state.selectedDatabases) {
+      log('Missing task plan or datasets');
+      throw new Error('Missing task plan or datasets');
+    }
+
+    // Format datasets for prompt
+    log('Formatting dataset information for code generation...');
+    const datasetsFormatted = formatDatasetsForPrompt(state.selectedDatabases);
+
+    // Generate code using the model
+    log('Generating Earth Engine code with LLM...');
+    const codeSystemPrompt = `You are an expert in Google Earth Engine JavaScript programming.
+    Write clean, efficient, and well-commented code that addresses user tasks.`;
+
+    const previousCodePrompt = state.editorCode
+      ? `
+    CURRENT SCRIPT (the user's code in the Code Editor; modify it to address the task and keep what still applies. If the task only asks about the script, return it unchanged apart from explanatory comments):
+    ${state.editorCode}
+    `
+      : state.isFollowUp && state.previousCode
+        ? `
+    PREVIOUS CODE (modify it to address the task and keep what still applies):
+    ${state.previousCode}
+    `
+        : '';
+
+    const codePrompt = `Create Google Earth Engine JavaScript code for the following task:
+
+    TASK: ${state.input}
+
+    PLAN: ${state.taskPlan}
+
+    AVAILABLE DATASETS:
+    ${datasetsFormatted}
+    ${previousCodePrompt}${importsPrompt(state)}${placesPrompt(state)}${timeframePrompt(state)}
+    Write clean, efficient Earth Engine code that accomplishes this task. Include comments to explain your approach.
+    The code should be ready to run in the Earth Engine Code Editor. Return ONLY the JavaScript code.`;
+
+    const codeResponse = await callChatModel(
+      codePrompt, codeSystemPrompt, 'Code Generator', createUIStream('code', extractPartialCodeBlock)
+    );
+    log('Code generated successfully');
+    console.log('Code generated successfully');
+
+    return { generatedCode: extractCodeBlock(codeResponse), debugLog: logs };
+  } catch (error) {
+    console.error('Error in code generation stage:', error);
+    log(`Error in code generation stage: ${errorMessage(error)}`);
+    return {
+      halted: true,
+      response: `I encountered an error while generating Earth Engine code: ${errorMessage(error)}. Please try again with a more specific request.`,
+      generatedCode: "// Error in code generation",
+      debugLog: logs
+    };
+  }
+};
@@ -0,0 +1,197 @@
+/**
+ * Conversation Manager Agent
+ *
+ * Condenses earlier turns and decides whether the request modifies the
+ * previous result or starts a new task. Follow-ups carry the previous code
+ * and datasets forward so the dataset search can be skipped. Requests about
+ * the script open in the Code Editor get that script read in, and requests
+ * that only show, hide or reorder map layers are carried out directly. The
+ * script's geometry imports are read so code can use them, and a request
+ * about a drawn area is answered with a prompt to draw one when none exists.
+ */
+
+import { AgentContext, AgentNode } from '../types';
+import { condenseHistory, looksLikeFollowUp, refersToDrawnGeometry, refersToEditorScript } from '../memory';
+import { EarthEngineTools } from '../../tools';
+import { describeMapState, findLayer, LayerCommand, MapLayer, parseLayerCommand } from '../../map/layers';
+import { areaImports, EditorImport } from '../../editor/imports';
+import { createStepLogger, errorMessage } from '../utils';
+
+/**
+ * Read the open script when the request refers to it. An empty editor or
+ * one that cannot be reached leaves the request to be handled without it.
+ */
+const readEditorScript = async (
+  input: string,
+  log: (message: string) => void,
+  signal?: AbortSignal
+): Promise<string | undefined> => {
+  if (!refersToEditorScript(input)) return undefined;
+
+  log('Request refers to the open script. Reading the Code Editor...');
+  const result = await EarthEngineTools.getEditorCode(signal);
+  if (!result.success) {
+    log(`Could not read the Code Editor: ${result.error}`);
+    return undefined;
+  }
+  if (!result.code.trim()) {
+    log('The Code Editor is empty');
+    return undefined;
+  }
+  log(`Read ${result.code.split('\n').length} line(s) from the Code Editor`);
+  return result.code;
+};
+
+/**
+ * Read the open script's imports. Undefined when the Code Editor cannot be
+ * reached, so prompts only claim there are no geometries when that is known.
+ */
+const readEditorImports = async (
+  log: (message: string) => void,
+  signal?: AbortSignal
+): Promise<EditorImport[] | undefined> => {
+  const result = await EarthEngineTools.getEditorImports(signal);
+  if (!result.success) {
+    log(`Could not read the Code Editor imports: ${result.error}`);
+    return undefined;
+  }
+  const areas = areaImports(result.imports);
+  log(areas.length > 0
+    ? `Found geometry import(s) in the Code Editor: ${areas.map(entry => `${entry.name} (${entry.type})`).join(', ')}`
+    : 'No geometry is drawn in the Code Editor');
+  return result.imports;
+};
+
+/**
+ * Carry out a layer command on the map and describe the result
+ */
+const applyLayerCommand = async (
+  command: LayerCommand,
+  log: (message: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const current = await EarthEngineTools.getMapState(signal);
+  if (!current.state) {
+    return `I couldn't read the map in the Earth Engine Code Editor: ${current.error}`;
+  }
+
+  let layer: MapLayer;
+  try {
+    layer = findLayer(current.state.layers, command.layer);
+  } catch (error) {
+    return `I couldn't find that layer. ${errorMessage(error)}`;
+  }
+
+  const visible = command.action === 'toggle' ? !layer.visible : command.action === 'show';
+  const result = command.action === 'move'
+    ? await EarthEngineTools.moveLayer(layer.index, command.to, signal)
+    : await EarthEngineTools.setLayerVisibility(layer.index, visible, signal);
+  const done = command.action === 'move'
+    ? `moved the "${layer.name}" layer to the ${command.to}`
+    : `${visible ? 'showed' : 'hid'} the "${layer.name}" layer`;
+  if (!result.success) {
+    return `I couldn't change the "${layer.name}" layer: ${result.error}`;
+  }
+
+  log(`Layer command: ${done}`);
+  return `I ${done}. ${describeMapState({ ...current.state, layers: result.layers })}`;
+};
+
+export const createConversationManagerNode = ({ callChatModel, historyTokenBudget, signal }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+
+  // Layer commands change the map directly and need no new code
+  const layerCommand = parseLayerCommand(state.input);
+  if (layerCommand) {
+    log(`Request is a map layer command: ${layerCommand.action} "${layerCommand.layer}"`);
+    return {
+      halted: true,
+      response: await applyLayerCommand(layerCommand, log, signal),
+      generatedCode: '// No code was needed: the map layers were changed directly',
+      debugLog: logs
+    };
+  }
+
+  const editorCode = await readEditorScript(state.input, log, signal);
+  const editorImports = await readEditorImports(log, signal);
+
+  // Without a drawn geometry the request cannot be done as asked
+  if (editorImports && areaImports(editorImports).length === 0 && refersToDrawnGeometry(state.input)) {
+    log('Request refers to a drawn geometry, but none exists. Asking the user to draw one.');
+    return {
+      halted: true,
+      response: "I couldn't find a drawn geometry in the Earth Engine Code Editor. Draw your area of interest with the " +
+        'geometry tools at the top left of the map (it appears under Imports as `geometry`) and ask again, or name ' +
+        "the place and I'll define the area in the code.",
+      generatedCode: '// No code was generated: draw a geometry first',
+      editorImports,
+      debugLog: logs
+    };
+  }
+
+  const conversation = state.conversation;
+  if (!conversation || conversation.history.length === 0) {
+    return { isFollowUp: false, editorCode, editorImports, debugLog: logs };
+  }
+
+  log(`Reviewing ${conversation.history.length} earlier message(s)`);
+
+  let conversationSummary: string | undefined;
+  try {
+    const condensed = await condenseHistory(conversation.history, historyTokenBudget, callChatModel);
+    conversationSummary = condensed.transcript;
+    if (condensed.summarized) {
+      log('Summarized earlier conversation to stay within the token budget');
+    }
+  } catch (error) {
+    // Fall back to the latest turns only rather than failing the request
+    console.error('Error summarizing conversation:', error);
+    log(`Could not summarize conversation: ${errorMessage(error)}`);
+    conversationSummary = conversation.history
+      .slice(-2)
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n');
+  }
+
+  // Without earlier code there is nothing to modify
+  if (!conversation.lastCode) {
+    log('No previous code found. Treating request as a new task.');
+    return { isFollowUp: false, conversationSummary, editorCode, editorImports, debugLog: logs };
+  }
+
+  let isFollowUp: boolean;
+  try {
+    const routerSystemPrompt = `You route requests in a Google Earth Engine assistant.
+    Decide whether a new request modifies the previous result or is a new, unrelated task.`;
+
+    const routerPrompt = `CONVERSATION SO FAR:
+    ${conversationSummary}
+
+    NEW REQUEST: ${state.input}
+
+    Reply with exactly one word: FOLLOW_UP if the new request changes or builds on the previous code, or NEW_TASK if it should start from scratch.`;
+
+    const decision = await callChatModel(routerPrompt, routerSystemPrompt, 'Conversation Manager');
+    isFollowUp = /FOLLOW_UP/i.test(decision);
+  } catch (error) {
+    console.error('Error classifying follow-up request:', error);
+    log(`Could not classify request with LLM: ${errorMessage(error)}`);
+    isFollowUp = looksLikeFollowUp(state.input);
+  }
+
+  if (!isFollowUp) {
+    log('Request is a new task. Starting fresh.');
+    return { isFollowUp: false, conversationSummary, editorCode, editorImports, debugLog: logs };
+  }
+
+  log('Request is a follow-up. Modifying the previous result.');
+  return {
+    isFollowUp: true,
+    conversationSummary,
+    previousCode: conversation.lastCode,
+    editorCode,
+    editorImports,
+    selectedDatabases: conversation.selectedDatasets,
+    debugLog: logs
+  };
+};
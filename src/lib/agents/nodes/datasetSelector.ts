@@ -0,0 +1,152 @@
+/**
+ * Dataset Selector Agent
+ *
+ * Asks the model for specific dataset IDs, confirms them against the
+ * Earth Engine catalog and keeps the best matches. Datasets without data
+ * for the requested dates are swapped for a sibling that has it.
+ */
+
+import { AgentContext, AgentNode, DatasetSelectionSchema } from '../types';
+import { EarthEngineTools } from '../../tools';
+import { checkCoverage, describeCoverageDecision } from '../../tools/coverage';
+import { DatasetSearchResult } from '../../catalog/types';
+import { callStructuredModel } from '../structured';
+import {
+  createStepLogger,
+  errorMessage,
+  planTimeframe,
+  removeDuplicateDatasets
+} from '../utils';
+
+export const createDatasetSelectorNode = ({ callChatModel, signal }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+
+  try {
+    log('STEP 2: Selecting relevant datasets');
+
+    // Only proceed if we have a plan
+    if (!state.taskPlan) {
+      log('No task plan available');
+      throw new Error('No task plan available');
+    }
+
+    // Ask the model for explicit dataset IDs
+    log('Choosing datasets based on the plan...');
+    const datasetSystemPrompt = `You are a data specialist for Google Earth Engine.
+    Identify specific datasets that would be most relevant for Earth Engine tasks.`;
+
+    const datasetPrompt = `Based on the following Earth Engine task plan, identify the specific datasets that would be most relevant:
+
+    ${state.taskPlan}
+
+    Return a JSON object with these fields:
+    - "datasets": the top 1-5 datasets as [{"id": exact Earth Engine asset ID such as "USGS/SRTMGL1_003", "rationale": why it suits this task}]
+    - "searchTerms": a few short keywords for finding suitable datasets in the catalog, e.g. ["elevation", "Sentinel-2"]`;
+
+    const datasetSelection = await callStructuredModel(
+      callChatModel, datasetPrompt, datasetSystemPrompt, 'Dataset Selector', DatasetSelectionSchema, log
+    );
+    log(`Datasets chosen: ${datasetSelection.datasets.map(choice => choice.id).join(', ')}`);
+
+    // Prefer the dates read from the request over the plan's time range
+    const timeframe = state.timeframe || planTimeframe(state.plan);
+    if (timeframe) {
+      log(`Extracted timeframe: ${timeframe.start || 'any'} to ${timeframe.end || 'present'}`);
+    } else {
+      log('No specific timeframe detected. Keeping the catalog ranking.');
+    }
+
+    let allDatasets: Array<DatasetSearchResult & { rationale?: string }> = [];
+
+    // Confirm each chosen ID exists in the catalog
+    log('Looking up chosen datasets in Earth Engine catalog...');
+    for (const choice of datasetSelection.datasets) {
+      const foundDatasets = await EarthEngineTools.databaseSearch(choice.id, timeframe, signal);
+      const match = foundDatasets.find(dataset => dataset.id === choice.id);
+      if (match) {
+        allDatasets.push({ ...match, rationale: choice.rationale });
+      } else {
+        log(`Dataset "${choice.id}" was not found in the catalog`);
+      }
+    }
+
+    // Search by keyword when none of the chosen IDs could be confirmed
+    if (allDatasets.length === 0) {
+      const searchTerms = datasetSelection.searchTerms || [];
+      log(`Searching catalog for: ${searchTerms.join(', ') || 'no search terms given'}`);
+      for (const term of searchTerms) {
+        log(`Searching for term: "${term}"`);
+        const foundDatasets = await EarthEngineTools.databaseSearch(term, timeframe, signal);
+        log(`Found ${foundDatasets.length} datasets for term "${term}"`);
+        allDatasets = [...allDatasets, ...foundDatasets];
+      }
+    }
+
+    // Remove duplicates and limit to top 5
+    log('Removing duplicate datasets and selecting top candidates...');
+    let selectedDatabases = removeDuplicateDatasets(allDatasets).slice(0, 5);
+
+    // Check the chosen datasets against the dates read from the request
+    const coverageNotes: string[] = [];
+    const requestedDates = state.timeframe;
+    if (requestedDates) {
+      const checked: typeof selectedDatabases = [];
+      for (const dataset of selectedDatabases) {
+        const check = checkCoverage(dataset, requestedDates);
+        if (check.covered) {
+          checked.push(dataset);
+          continue;
+        }
+
+        const note = describeCoverageDecision(check, requestedDates);
+        log(`Coverage: ${note}`);
+        coverageNotes.push(note);
+        const sibling = check.sibling;
+        if (!sibling) {
+          checked.push({ ...dataset, rationale: [dataset.rationale, note].filter(Boolean).join(' ') });
+          continue;
+        }
+
+        // The catalog's entry gives the sibling its title and type
+        const entry = (await EarthEngineTools.databaseSearch(sibling.id, undefined, signal))
+          .find(found => found.id === sibling.id);
+        checked.push({
+          ...entry,
+          id: sibling.id,
+          name: sibling.name,
+          description: entry?.description || sibling.name,
+          type: entry?.type,
+          startDate: sibling.start,
+          endDate: sibling.end || '',
+          rationale: `Has data for the requested dates, which ${dataset.id} does not.`
+        });
+      }
+      selectedDatabases = removeDuplicateDatasets(checked);
+    }
+
+    log(`Selected ${selectedDatabases.length} unique datasets`);
+    if (selectedDatabases.length > 0) {
+      log('Selected datasets:');
+      selectedDatabases.forEach((dataset, index) => {
+        log(`${index + 1}. ${dataset.name || dataset.id}`);
+      });
+    }
+    console.log('Selected datasets:', selectedDatabases.length);
+
+    return {
+      selectedDatabases,
+      datasetSelection,
+      coverageNotes,
+      debugLog: logs
+    };
+  } catch (error) {
+    console.error('Error in dataset selection stage:', error);
+    log(`Error in dataset selection stage: ${errorMessage(error)}`);
+    return {
+      halted: true,
+      response: `I encountered an error while selecting appropriate datasets: ${errorMessage(error)}. Please try again with a more specific request.`,
+      generatedCode: "// Error in dataset selection stage",
+      debugLog: logs
+    };
+  }
+};
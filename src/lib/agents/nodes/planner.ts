@@ -0,0 +1,156 @@
+/**
+ * Planner Agent
+ *
+ * Checks that the request suits Earth Engine and writes a task plan for the
+ * agents that follow. Places named in the request are looked up in the
+ * offline gazetteer first, so the plan and the code use known boundaries,
+ * and dates are read as exact ranges.
+ */
+
+import { AgentContext, AgentNode, TaskPlan, TaskPlanSchema } from '../types';
+import { EarthEngineTools } from '../../tools';
+import { callStructuredModel } from '../structured';
+import { createStepLogger, errorMessage, formatTaskPlan } from '../utils';
+import { areaImports } from '../../editor/imports';
+import { formatPlacesForPrompt, ResolvedPlace, resolvePlaces } from '../../places/gazetteer';
+import { extractTimeframe, formatTimeframeForPrompt } from '../timeframe';
+
+/**
+ * Replace the model's bbox for a named area with the gazetteer's extent
+ */
+const useGazetteerExtent = (
+  plan: TaskPlan,
+  places: ResolvedPlace[],
+  log: (message: string) => void
+): TaskPlan => {
+  if (!plan.aoi?.bbox) return plan;
+  const name = plan.aoi.name.toLowerCase();
+  const place = places.find(entry =>
+    entry.bbox && (name.includes(entry.name.toLowerCase()) || name.includes(entry.text.toLowerCase())));
+  if (!place?.bbox || place.bbox.every((value, index) => value === plan.aoi!.bbox![index])) return plan;
+
+  log(`Using the gazetteer's bounding box for ${place.name}: [${place.bbox.join(', ')}]`);
+  return { ...plan, aoi: { ...plan.aoi, bbox: place.bbox } };
+};
+
+export const createPlannerNode = ({ callChatModel }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+
+  try {
+    log('STEP 1: Analyzing request and creating plan');
+
+    const places = resolvePlaces(state.input);
+    if (places.length > 0) {
+      log(`Found places in the gazetteer: ${places.map(place => place.name).join(', ')}`);
+    }
+    // Seasons follow the hemisphere of the first place named
+    const timeframe = extractTimeframe(state.input, { hemisphere: places[0]?.center[1] < 0 ? 'south' : 'north' });
+    if (timeframe) {
+      log(`Dates "${timeframe.text}": ${timeframe.start || 'any'} to ${timeframe.end || 'present'}`);
+    }
+
+    // A resumed request already has its plan
+    if (state.plan) {
+      log('Resuming with the plan from the stopped request');
+      return { taskPlan: formatTaskPlan(state.plan), places, timeframe, debugLog: logs };
+    }
+
+    // First, assess if the problem is feasible with Earth Engine. Follow-ups
+    // were already assessed with the original request.
+    if (!state.isFollowUp) {
+      log('Checking feasibility with Earth Engine...');
+      const assessmentResult = await EarthEngineTools.assessProblem(state.input);
+      console.log('Feasibility assessment:', assessmentResult);
+      log(`Feasibility assessment: ${assessmentResult.feasible ? 'FEASIBLE' : 'NOT FEASIBLE'}`);
+
+      if (!assessmentResult.feasible) {
+        log(`Task not feasible: ${assessmentResult.explanation}`);
+        return {
+          halted: true,
+          response: `I'm sorry, but I don't think Google Earth Engine is the right tool for this request. ${assessmentResult.explanation}`,
+          generatedCode: "// Task not feasible with Earth Engine",
+          debugLog: logs
+        };
+      }
+    }
+
+    // Generate a plan using the model
+    log('Generating task plan using LLM...');
+    const planSystemPrompt = `You are a planning agent for Google Earth Engine tasks.
+    Analyze user requests and create detailed plans for fulfilling them using Google Earth Engine.`;
+
+    const conversationPrompt = state.conversationSummary
+      ? `
+    CONVERSATION SO FAR:
+    ${state.conversationSummary}
+    `
+      : '';
+    const editorPrompt = state.editorCode
+      ? `
+    This request is about the user's current script in the Earth Engine Code Editor. Plan around this script rather than starting over:
+    ${state.editorCode}
+    `
+      : '';
+    const geometries = areaImports(state.editorImports || []);
+    const geometryPrompt = geometries.length > 0
+      ? `
+    DRAWN GEOMETRIES in the Code Editor: ${geometries.map(entry => `${entry.name} (${entry.type})`).join(', ')}
+    If the request refers to a drawn area or names no other place, use one as the area of interest: set "aoi" to {"name": the variable name, "bbox": null}.
+    `
+      : '';
+    const placesPrompt = places.length > 0
+      ? `
+    ${formatPlacesForPrompt(places)}
+    Use their bounding boxes for "aoi" where they have one.
+    `
+      : '';
+    const timeframePrompt = timeframe
+      ? `
+    ${formatTimeframeForPrompt(timeframe)}
+    Use these dates for "timeRange".
+    `
+      : '';
+    // The open script is what the user has now, so it takes the place of the previous code
+    const followUpPrompt = !state.editorCode && state.isFollowUp && state.previousCode
+      ? `
+    This request is a follow-up. Plan the changes needed to this previous code rather than starting over:
+    ${state.previousCode}
+    `
+      : '';
+
+    const planPrompt = `Analyze the following request and create a detailed plan for fulfilling it using Google Earth Engine:
+
+    ${state.input}
+    ${conversationPrompt}${editorPrompt}${followUpPrompt}${geometryPrompt}${placesPrompt}${timeframePrompt}
+    Return the plan as a JSON object with these fields:
+    - "summary": one sentence describing the goal
+    - "aoi": the area of interest as {"name": string, "bbox": [west, south, east, north] or null}, or null if the request has no specific area
+    - "timeRange": {"start": date or null, "end": date or null} with dates as YYYY, YYYY-MM or YYYY-MM-DD, or null if no period is requested
+    - "variables": the physical variables to analyze, e.g. ["elevation", "NDVI"]
+    - "outputs": what the user should get, e.g. ["map layer", "time series chart"]
+    - "steps": the processing and visualization steps, in order
+
+    Be specific and detailed in the steps.`;
+
+    const plan = useGazetteerExtent(
+      await callStructuredModel(callChatModel, planPrompt, planSystemPrompt, 'Planner', TaskPlanSchema, log),
+      places,
+      log
+    );
+    const taskPlan = formatTaskPlan(plan);
+    log('Plan created successfully');
+    log(`Plan summary: ${plan.summary}`);
+    console.log('Plan created:', plan);
+
+    return { plan, taskPlan, places, timeframe, debugLog: logs };
+  } catch (error) {
+    console.error('Error in planning stage:', error);
+    log(`Error in planning stage: ${errorMessage(error)}`);
+    return {
+      halted: true,
+      response: `I encountered an error while planning how to approach your request: ${errorMessage(error)}. Please try again with a more specific query.`,
+      generatedCode: "// Error in planning stage",
+      debugLog: logs
+    };
+  }
+};
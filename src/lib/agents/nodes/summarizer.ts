@@ -0,0 +1,99 @@
+/**
+ * Summarizer Agent
+ *
+ * Explains the generated code and its execution status to the user, and
+ * tells them about any dataset swapped for lack of data on their dates.
+ */
+
+import { AgentContext, AgentNode } from '../types';
+import { createStepLogger, createUIStream, errorMessage } from '../utils';
+import { formatConsoleEntries } from '../../console/consoleLog';
+import { describeChartTrends } from '../../console/chartTable';
+import { describeMapState } from '../../map/layers';
+
+/**
+ * Add the dataset coverage decisions to the response
+ */
+const withCoverageNotes = (response: string, notes?: string[]): string =>
+  notes && notes.length > 0 ? `${response}\n\nNote on dates: ${notes.join(' ')}` : response;
+
+export const createSummarizerNode = ({ callChatModel, supportsImages }: AgentContext): AgentNode => async (state) => {
+  const { logs, log } = createStepLogger();
+
+  try {
+    log('STEP 5: Creating final response');
+
+    // Only proceed if we have generated code
+    if (!state.generatedCode) {
+      log('No code was generated');
+      throw new Error('No code was generated');
+    }
+
+    // Generate a summary response using the model
+    log('Generating user-friendly explanation of the code...');
+    // Models that accept images also check the rendered map
+    const mapImage = supportsImages ? state.mapScreenshot : undefined;
+    if (mapImage) {
+      log('Sending the map screenshot for review');
+    }
+    const summarySystemPrompt = `You are an Earth science educator explaining Google Earth Engine concepts to users.
+    Create clear, concise summaries that non-experts can understand.`;
+
+    const summaryPrompt = `Create a clear, concise summary of the following Earth Engine task:
+
+    USER REQUEST: ${state.input}
+    ${state.isFollowUp ? `
+    This request was a follow-up that modified the previous code. Focus on what changed.
+    ` : ''}${state.editorCode ? `
+    This request was about the user's own script from the Code Editor, which the generated code is based on.
+    ` : ''}
+    GENERATED CODE: ${state.generatedCode}
+
+    EXECUTION STATUS: ${state.runSuccessful
+      ? 'The code ran in the Earth Engine Code Editor without console errors.'
+      : `The code could not be verified in the Earth Engine Code Editor.${state.errors ? ` Last console errors: ${state.errors}` : ''}`}
+${state.consoleEntries?.length ? `
+    CONSOLE OUTPUT (printed values, warnings and chart titles from the run):
+    ${formatConsoleEntries(state.consoleEntries)}
+` : ''}${state.chartData?.length ? `
+    CHART DATA (how each charted series changes):
+    ${state.chartData.map(describeChartTrends).join('\n\n')}
+
+    Describe the main trends in the charted data in a sentence or two.
+` : ''}${state.mapState ? `
+    MAP AFTER THE RUN:
+    ${describeMapState(state.mapState)}
+
+    Briefly say what the user should see on the map, naming the visible layers.
+` : ''}${mapImage ? `
+    MAP SCREENSHOT: The attached image shows the Code Editor map after the run. Check that the layers rendered
+    (no blank, gray or error tiles where data is expected) and that the colors and value ranges look sensible
+    for what was requested. Mention any problem you see and how to fix it, e.g. different visualization parameters.
+` : ''}
+    Explain what the code does in simple terms, how it addresses the user's request, and how they can use it.
+    If the code could not be verified, mention this briefly.`;
+
+    const response = await callChatModel(
+      summaryPrompt,
+      summarySystemPrompt,
+      'Response Summarizer',
+      createUIStream('response'),
+      mapImage ? [{ mediaType: mapImage.mediaType, data: mapImage.data }] : undefined
+    );
+    log('Response summary generated successfully');
+
+    return { response: withCoverageNotes(response, state.coverageNotes), debugLog: logs };
+  } catch (error) {
+    console.error('Error in response generation stage:', error);
+    log(`Error in response generation stage: ${errorMessage(error)}`);
+
+    // Fallback to a simpler response if summary fails
+    return {
+      response: withCoverageNotes(
+        "I've generated Earth Engine code based on your request. You can run this code in the Earth Engine Code Editor to accomplish your task.",
+        state.coverageNotes
+      ),
+      debugLog: logs
+    };
+  }
+};
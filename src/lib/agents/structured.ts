@@ -0,0 +1,88 @@
+/**
+ * Structured model output for Earth Engine Agent
+ *
+ * Asks the model for JSON, validates it with a zod schema and re-asks with
+ * the validation problems when the reply cannot be used.
+ */
+
+import { z } from 'zod';
+import { CallChatModel } from './types';
+
+// One initial request plus up to two re-asks
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+/**
+ * Pull the JSON object out of a reply that may be wrapped in prose or code fences
+ */
+export const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return fenced[1].trim();
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+};
+
+/**
+ * Describe zod issues in a form the model can act on
+ */
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+    .join('; ');
+
+/**
+ * Parse and validate a reply, returning the data or a description of the problem
+ */
+const parseReply = <T>(reply: string, schema: z.ZodType<T>): { data: T } | { problem: string } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(reply));
+  } catch (error) {
+    return { problem: `the reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const result = schema.safeParse(json);
+  return result.success ? { data: result.data } : { problem: describeIssues(result.error) };
+};
+
+/**
+ * Call the model for one agent step and return its reply validated against
+ * the schema. The prompt must describe the JSON shape the schema expects.
+ */
+export const callStructuredModel = async <T>(
+  callChatModel: CallChatModel,
+  prompt: string,
+  systemMessage: string,
+  step: string,
+  schema: z.ZodType<T>,
+  log: (message: string) => void = () => {}
+): Promise<T> => {
+  const jsonSystemMessage = `${systemMessage}
+    Respond with a single JSON object only, without markdown or explanations.`;
+
+  let currentPrompt = prompt;
+  let problem = '';
+  for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+    const stepLabel = attempt === 1 ? step : `${step} (retry ${attempt - 1})`;
+    const reply = await callChatModel(currentPrompt, jsonSystemMessage, stepLabel);
+    const parsed = parseReply(reply, schema);
+    if ('data' in parsed) {
+      return parsed.data;
+    }
+
+    problem = parsed.problem;
+    log(`${step} returned invalid output: ${problem}`);
+    currentPrompt = `${prompt}
+
+    Your previous reply could not be used: ${problem}.
+    PREVIOUS REPLY:
+    ${reply}
+
+    Reply again with only the corrected JSON object.`;
+  }
+
+  throw new Error(`${step} returned invalid output after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${problem}`);
+};
@@ -0,0 +1,376 @@
+/**
+ * Date expressions in requests
+ *
+ * Turns the dates a request mentions into exact ISO dates:
+ *
+ *   "between 2015 and 2020"      2015-01-01 to 2021-01-01
+ *   "Q3 2021"                    2021-07-01 to 2021-10-01
+ *   "the 2019 monsoon season"    2019-06-01 to 2019-10-01
+ *   "last summer", "past 5 years", "July 2021", "2020-03-01/2020-04-15"
+ *
+ * Ends are exclusive, as in ee.ImageCollection.filterDate, so a range can be
+ * used in the code as it is. Relative dates count from today and end after
+ * it. Seasons are meteorological: three whole months, flipped for the
+ * southern hemisphere. A season that spans the new year is named by the year
+ * it ends in, so "winter 2021" runs from December 2020.
+ */
+
+import { z } from 'zod';
+
+export const TimeframeSchema = z.object({
+  // Inclusive start and exclusive end, as YYYY-MM-DD
+  start: z.string().optional(),
+  end: z.string().optional(),
+  // The words of the request the dates were read from
+  text: z.string()
+});
+
+export type Timeframe = z.infer<typeof TimeframeSchema>;
+
+export type Hemisphere = 'north' | 'south';
+
+export interface TimeframeOptions {
+  // The day relative dates count from
+  today?: Date;
+  // Which seasons apply when the request does not say
+  hemisphere?: Hemisphere;
+}
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+interface ParseContext {
+  today: Date;
+  hemisphere: Hemisphere;
+}
+
+type Season = 'spring' | 'summer' | 'autumn' | 'winter' | 'monsoon';
+
+// First month (1-12) and length in months of each season
+const SEASONS: Record<Hemisphere, Record<Season, [number, number]>> = {
+  north: { spring: [3, 3], summer: [6, 3], autumn: [9, 3], winter: [12, 3], monsoon: [6, 4] },
+  south: { spring: [9, 3], summer: [12, 3], autumn: [3, 3], winter: [6, 3], monsoon: [12, 4] }
+};
+
+const MONTH = String.raw`jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?`;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const SEASON = String.raw`(?:(austral|boreal)\s+)?(spring|summer|autumn|fall|winter|monsoon)(?:\s+season)?`;
+const YEAR = String.raw`(?:19|20)\d{2}`;
+const QUARTERS = ['first', 'second', 'third', 'fourth'];
+const NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12
+};
+
+// Dates are handled in UTC so no time zone shifts a day
+const utcDate = (year: number, month: number, day: number = 1): Date => new Date(Date.UTC(year, month - 1, day));
+
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const startOfDay = (date: Date): Date => utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+
+const addMonths = (date: Date, months: number): Date =>
+  utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1 + months, date.getUTCDate());
+
+const addDays = (date: Date, days: number): Date =>
+  utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate() + days);
+
+const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const monthRange = (year: number, month: number): DateRange => ({
+  start: utcDate(year, month),
+  end: utcDate(year, month + 1)
+});
+
+const yearRange = (year: number): DateRange => ({ start: utcDate(year, 1), end: utcDate(year + 1, 1) });
+
+const seasonRange = (season: Season, year: number, hemisphere: Hemisphere): DateRange => {
+  const [firstMonth, length] = SEASONS[hemisphere][season];
+  // Seasons across the new year take the year they end in
+  const startYear = firstMonth + length > 13 ? year - 1 : year;
+  return { start: utcDate(startYear, firstMonth), end: utcDate(startYear, firstMonth + length) };
+};
+
+const parseSeason = (name: string): Season => (name.toLowerCase() === 'fall' ? 'autumn' : name.toLowerCase() as Season);
+
+const seasonHemisphere = (qualifier: string | undefined, context: ParseContext): Hemisphere => {
+  if (!qualifier) return context.hemisphere;
+  return qualifier.toLowerCase() === 'austral' ? 'south' : 'north';
+};
+
+/**
+ * The occurrence of a yearly period that "last", "this" or no qualifier
+ * means: the latest one that has ended, the one of the current year, or
+ * the latest one that has begun
+ */
+const recentOccurrence = (
+  rangeIn: (year: number) => DateRange,
+  qualifier: string | undefined,
+  today: Date
+): DateRange => {
+  const year = today.getUTCFullYear();
+  const candidates = [year + 1, year, year - 1, year - 2].map(rangeIn);
+  switch (qualifier?.toLowerCase()) {
+    case 'last':
+    case 'previous':
+    case 'past':
+      return candidates.find(range => range.end <= today)!;
+    case 'this':
+    case 'current':
+      return candidates.find(range => range.start <= today && today < range.end) ??
+        candidates.find(range => range.start.getUTCFullYear() === year) ?? rangeIn(year);
+    default:
+      return candidates.find(range => range.start <= today)!;
+  }
+};
+
+interface DatePattern {
+  pattern: string;
+  resolve: (groups: string[], context: ParseContext) => DateRange | undefined;
+}
+
+/**
+ * Single date expressions, most specific first
+ */
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    // 2020-03-15
+    pattern: String.raw`(${YEAR})-(\d{1,2})-(\d{1,2})`,
+    resolve: ([year, month, day]) => {
+      const start = utcDate(Number(year), Number(month), Number(day));
+      return { start, end: addDays(start, 1) };
+    }
+  },
+  {
+    // March 15, 2020 or 15 March 2020
+    pattern: String.raw`(${MONTH})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(${YEAR})|(\d{1,2})(?:st|nd|rd|th)?\s+(${MONTH})\.?,?\s+(${YEAR})`,
+    resolve: ([month, day, year, dayFirst, monthSecond, yearSecond]) => {
+      const start = month
+        ? utcDate(Number(year), monthIndex(month), Number(day))
+        : utcDate(Number(yearSecond), monthIndex(monthSecond), Number(dayFirst));
+      return { start, end: addDays(start, 1) };
+    }
+  },
+  {
+    // 2020-03
+    pattern: String.raw`(${YEAR})-(0[1-9]|1[0-2])(?![\d-])`,
+    resolve: ([year, month]) => monthRange(Number(year), Number(month))
+  },
+  {
+    // Q3 2021, 2021 Q3, third quarter of 2021
+    pattern: String.raw`q([1-4])\s*(?:of\s+)?(${YEAR})|(${YEAR})\s*-?\s*q([1-4])|(first|second|third|fourth)\s+quarter\s+(?:of\s+)?(${YEAR})`,
+    resolve: ([quarter, year, yearFirst, quarterSecond, quarterName, yearNamed]) => {
+      const number = quarter ? Number(quarter) : quarterSecond ? Number(quarterSecond) : QUARTERS.indexOf(quarterName.toLowerCase()) + 1;
+      const start = utcDate(Number(year || yearFirst || yearNamed), (number - 1) * 3 + 1);
+      return { start, end: addMonths(start, 3) };
+    }
+  },
+  {
+    // summer 2019, the 2019 monsoon season, austral winter of 2020
+    pattern: String.raw`${SEASON}\s+(?:of\s+)?(${YEAR})|(${YEAR})\s+${SEASON}`,
+    resolve: ([qualifier, season, year, yearFirst, qualifierSecond, seasonSecond], context) => season
+      ? seasonRange(parseSeason(season), Number(year), seasonHemisphere(qualifier, context))
+      : seasonRange(parseSeason(seasonSecond), Number(yearFirst), seasonHemisphere(qualifierSecond, context))
+  },
+  {
+    // July 2021
+    pattern: String.raw`(${MONTH})\.?\s+(?:of\s+)?(${YEAR})`,
+    resolve: ([month, year]) => monthRange(Number(year), monthIndex(month))
+  },
+  {
+    // The 1990s
+    pattern: String.raw`(?:the\s+)?((?:19|20)\d)0'?s`,
+    resolve: ([decade]) => ({ start: utcDate(Number(decade) * 10, 1), end: utcDate(Number(decade) * 10 + 10, 1) })
+  },
+  {
+    // Past 5 years, last three months, past decade
+    pattern: String.raw`(?:past|last|previous|recent)\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve)?\s*(day|week|month|year|decade)s?(?!\s+ago)`,
+    resolve: ([count, unit], { today }) => {
+      // Without a count, "last year" is the calendar year below
+      if (!count) return undefined;
+      const end = addDays(today, 1);
+      const amount = /^\d+$/.test(count) ? Number(count) : NUMBERS[count.toLowerCase()];
+      switch (unit.toLowerCase()) {
+        case 'day': return { start: addDays(end, -amount), end };
+        case 'week': return { start: addDays(end, -7 * amount), end };
+        case 'month': return { start: addMonths(end, -amount), end };
+        case 'year': return { start: addMonths(end, -12 * amount), end };
+        default: return { start: addMonths(end, -120 * amount), end };
+      }
+    }
+  },
+  {
+    // Last year, this month, past week
+    pattern: String.raw`(last|this|past|previous|current)\s+(week|month|year|decade|quarter)`,
+    resolve: ([qualifier, unit], { today }) => {
+      const end = addDays(today, 1);
+      const rolling = qualifier.toLowerCase() === 'past';
+      const year = today.getUTCFullYear();
+      const month = today.getUTCMonth() + 1;
+      const thisOne = ['this', 'current'].includes(qualifier.toLowerCase());
+      switch (unit.toLowerCase()) {
+        case 'week':
+          return { start: addDays(end, thisOne ? -(today.getUTCDay() || 7) : -7), end };
+        case 'month':
+          if (rolling) return { start: addMonths(end, -1), end };
+          return thisOne ? { start: utcDate(year, month), end } : monthRange(year, month - 1);
+        case 'quarter': {
+          const quarterStart = utcDate(year, Math.floor((month - 1) / 3) * 3 + 1);
+          if (rolling) return { start: addMonths(end, -3), end };
+          return thisOne ? { start: quarterStart, end } : { start: addMonths(quarterStart, -3), end: quarterStart };
+        }
+        case 'year':
+          if (rolling) return { start: addMonths(end, -12), end };
+          return thisOne ? { start: utcDate(year, 1), end } : yearRange(year - 1);
+        default:
+          return { start: addMonths(end, -120), end };
+      }
+    }
+  },
+  {
+    // Last summer, this monsoon season, during the winter
+    pattern: String.raw`(?:(last|this|past|previous|current)\s+|((?:during|in)\s+(?:the\s+)?))?${SEASON}`,
+    // A bare "fall" is more often the verb, as in "snow will fall"
+    resolve: ([qualifier, preposition, hemisphereQualifier, season], context) =>
+      !qualifier && !preposition && season.toLowerCase() === 'fall' ? undefined : recentOccurrence(
+        year => seasonRange(parseSeason(season), year, seasonHemisphere(hemisphereQualifier, context)),
+        qualifier,
+        context.today
+      )
+  },
+  {
+    // Last July, in March, but not "in may be"
+    pattern: String.raw`(?:(last|this|previous)|in|during)\s+(${MONTH})\b(?!\s+\d)(?!(?<=may)\s+(?:be|have|not|also|need|want)\b)`,
+    resolve: ([qualifier, month], { today }) =>
+      recentOccurrence(year => monthRange(year, monthIndex(month)), qualifier, today)
+  },
+  {
+    pattern: '(yesterday|today)',
+    resolve: ([day], { today }) => {
+      const start = day.toLowerCase() === 'today' ? today : addDays(today, -1);
+      return { start, end: addDays(start, 1) };
+    }
+  },
+  {
+    pattern: `(${YEAR})`,
+    resolve: ([year]) => yearRange(Number(year))
+  }
+];
+
+const DATE_EXPRESSION = DATE_PATTERNS.map(({ pattern }) => `(?:${pattern})`).join('|');
+
+const wordBounded = (pattern: string): string => String.raw`(?<![\w-])(?:${pattern})(?![\w])`;
+
+/**
+ * Resolve text that is a single date expression
+ */
+const resolveExpression = (text: string, context: ParseContext): DateRange | undefined => {
+  for (const { pattern, resolve } of DATE_PATTERNS) {
+    const match = text.match(new RegExp(`^(?:${pattern})$`, 'i'));
+    if (match) {
+      const range = resolve(match.slice(1), context);
+      if (range) return range;
+    }
+  }
+  return undefined;
+};
+
+interface FoundRange extends DateRange {
+  text: string;
+}
+
+/**
+ * Every date expression in the text, in order
+ */
+const findExpressions = (text: string, context: ParseContext): FoundRange[] =>
+  [...text.matchAll(new RegExp(wordBounded(DATE_EXPRESSION), 'gi'))].flatMap(match => {
+    const range = resolveExpression(match[0], context);
+    return range ? [{ ...range, text: match[0] }] : [];
+  });
+
+const RANGE_PATTERN = new RegExp(
+  wordBounded(String.raw`(?:between|from)?\s*(?<from>${DATE_EXPRESSION})\s*(?:to|until|till|through|thru|and|-|–|/)\s*(?<to>${DATE_EXPRESSION})`),
+  'i'
+);
+const OPEN_RANGE_PATTERN = new RegExp(
+  wordBounded(String.raw`(?<keyword>since|from|after|starting(?:\s+(?:in|from))?|until|till|through|before|up\s+to)\s+(?<bound>${DATE_EXPRESSION})`),
+  'i'
+);
+// "Current" only before data, so "the current script" names no dates
+const RECENT_PATTERN = /\b(?:latest|newest|most\s+recent|current(?=\s+(?:imagery|images?|data|conditions|observations)\b))\b/i;
+
+const toTimeframe = (range: Partial<DateRange>, text: string): Timeframe => ({
+  ...(range.start ? { start: isoDate(range.start) } : {}),
+  ...(range.end ? { end: isoDate(range.end) } : {}),
+  text: text.trim()
+});
+
+/**
+ * Extract the time range a request asks for, or undefined when it names
+ * no dates
+ */
+export const extractTimeframe = (text: string, options: TimeframeOptions = {}): Timeframe | undefined => {
+  const context: ParseContext = {
+    today: startOfDay(options.today ?? new Date()),
+    hemisphere: options.hemisphere ?? 'north'
+  };
+
+  // A range between two expressions: "from March 2020 to June 2021", "2018-2020"
+  const range = text.match(RANGE_PATTERN);
+  if (range?.groups) {
+    const from = resolveExpression(range.groups.from.trim(), context);
+    const to = resolveExpression(range.groups.to.trim(), context);
+    if (from && to && from.start < to.end) {
+      return toTimeframe({ start: from.start, end: to.end }, range[0]);
+    }
+  }
+
+  // A range open at one end: "since 2015", "before 2010"
+  const open = text.match(OPEN_RANGE_PATTERN);
+  if (open?.groups) {
+    const bound = resolveExpression(open.groups.bound.trim(), context);
+    if (bound) {
+      const keyword = open.groups.keyword.toLowerCase();
+      if (keyword === 'after') return toTimeframe({ start: bound.end, end: addDays(context.today, 1) }, open[0]);
+      if (keyword === 'before') return toTimeframe({ end: bound.start }, open[0]);
+      if (['until', 'till', 'through'].includes(keyword) || keyword.startsWith('up')) return toTimeframe({ end: bound.end }, open[0]);
+      return toTimeframe({ start: bound.start, end: addDays(context.today, 1) }, open[0]);
+    }
+  }
+
+  // Single expressions, spanning from the first to the last
+  const found = findExpressions(text, context);
+  if (found.length > 0) {
+    // A season or month without a year takes the year named elsewhere
+    const years = found.filter(expression => new RegExp(`^${YEAR}$`).test(expression.text));
+    const undated = found.filter(expression => !/\d/.test(expression.text));
+    if (years.length === 1 && undated.length === 1 && found.length === 2) {
+      const dated = resolveExpression(`${undated[0].text.replace(/^(?:during|in)\s+(?:the\s+)?/i, '')} ${years[0].text}`, context);
+      if (dated) return toTimeframe(dated, `${undated[0].text} ${years[0].text}`);
+    }
+    const start = new Date(Math.min(...found.map(expression => expression.start.getTime())));
+    const end = new Date(Math.max(...found.map(expression => expression.end.getTime())));
+    return toTimeframe({ start, end }, found.map(expression => expression.text).join(', '));
+  }
+
+  // "Latest" data looks back five years
+  const recent = text.match(RECENT_PATTERN);
+  if (recent) {
+    return toTimeframe({ start: utcDate(context.today.getUTCFullYear() - 5, 1) }, recent[0]);
+  }
+
+  return undefined;
+};
+
+/**
+ * The timeframe as prompt text, with the filterDate call that selects it
+ */
+export const formatTimeframeForPrompt = (timeframe: Timeframe): string => {
+  const dates = timeframe.start && timeframe.end
+    ? `is ${timeframe.start} to ${timeframe.end}. Filter collections with .filterDate('${timeframe.start}', '${timeframe.end}'); the end date is exclusive.`
+    : timeframe.start
+      ? `starts on ${timeframe.start}. Filter collections with .filterDate('${timeframe.start}', ee.Date(Date.now())).`
+      : `ends before ${timeframe.end}. Filter collections with .filterDate('1970-01-01', '${timeframe.end}').`;
+  return `DATES: "${timeframe.text}" ${dates}`;
+};
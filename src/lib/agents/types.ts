@@ -2,7 +2,18 @@
  * Type definitions for Earth Engine Agent
  */
 
-import { DatasetEntry } from "../tools/databaseSearch";
+import { DatasetEntry } from "../catalog/types";
+import { LLMTransport } from "../llm/transport";
+import { RetryOptions } from "../llm/retry";
+import { ProviderSettings } from "../llm/types";
+import { ConsoleEntry, ConsoleEntrySchema } from "../messaging/protocol";
+import { ChartTable, ChartTableSchema } from "../console/chartTable";
+import { MapScreenshot, MapScreenshotSchema } from "../map/screenshot";
+import { MapState, MapStateSchema } from "../map/layers";
+import { EditorImport, EditorImportSchema } from "../editor/imports";
+import { ResolvedPlace, ResolvedPlaceSchema } from "../places/gazetteer";
+import { Timeframe, TimeframeSchema } from "./timeframe";
+import { ChatImage } from "../llm/types";
 import { z } from "zod";
 
 // Zod schemas for validation
@@ -12,38 +23,175 @@ export const DatasetEntrySchema = z.object({
   description: z.string().optional(),
   type: z.string().optional(),
   tags: z.array(z.string()).optional(),
-  url: z.string().optional()
+  url: z.string().optional(),
+  rationale: z.string().optional()
+});
+
+// Dates the planner may return: a year, a month or a full day
+const PlanDateSchema = z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, 'Expected YYYY, YYYY-MM or YYYY-MM-DD');
+
+export const TaskPlanSchema = z.object({
+  summary: z.string().min(1),
+  aoi: z.object({
+    name: z.string().min(1),
+    // [west, south, east, north] in degrees
+    bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]).nullable().optional()
+  }).nullable(),
+  timeRange: z.object({
+    start: PlanDateSchema.nullable().optional(),
+    end: PlanDateSchema.nullable().optional()
+  }).nullable(),
+  variables: z.array(z.string()),
+  outputs: z.array(z.string()),
+  steps: z.array(z.string().min(1)).min(1)
+});
+
+export const DatasetChoiceSchema = z.object({
+  id: z.string().min(1),
+  rationale: z.string().min(1)
+});
+
+export const DatasetSelectionSchema = z.object({
+  datasets: z.array(DatasetChoiceSchema).min(1).max(5),
+  // Catalog keywords used when none of the chosen IDs can be found
+  searchTerms: z.array(z.string()).optional()
+});
+
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  code: z.string().optional()
+});
+
+export const ConversationContextSchema = z.object({
+  history: z.array(ConversationTurnSchema),
+  lastCode: z.string().optional(),
+  selectedDatasets: z.array(DatasetEntrySchema).optional()
 });
 
 export const AgentStateSchema = z.object({
   input: z.string(),
+  conversation: ConversationContextSchema.optional(),
+  conversationSummary: z.string().optional(),
+  isFollowUp: z.boolean().optional(),
+  previousCode: z.string().optional(),
+  editorCode: z.string().optional(),
+  editorImports: z.array(EditorImportSchema).optional(),
+  places: z.array(ResolvedPlaceSchema).optional(),
+  timeframe: TimeframeSchema.optional(),
+  coverageNotes: z.array(z.string()).optional(),
+  plan: TaskPlanSchema.optional(),
   taskPlan: z.string().optional(),
   selectedDatabases: z.array(DatasetEntrySchema).optional(),
-  databaseSelectionText: z.string().optional(),
+  datasetSelection: DatasetSelectionSchema.optional(),
   generatedCode: z.string().optional(),
   errors: z.string().optional(),
   debugLog: z.array(z.string()).optional(),
   inspectionResults: z.string().optional(),
+  debugAttempts: z.number().optional(),
+  runSuccessful: z.boolean().optional(),
+  consoleEntries: z.array(ConsoleEntrySchema).optional(),
+  chartData: z.array(ChartTableSchema).optional(),
+  mapScreenshot: MapScreenshotSchema.optional(),
+  mapState: MapStateSchema.optional(),
+  halted: z.boolean().optional(),
   response: z.string().optional()
 });
 
+export const StepUsageSchema = z.object({
+  step: z.string(),
+  model: z.string(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  cost: z.number().optional(),
+  estimated: z.boolean().optional()
+});
+
 export const AgentResponseSchema = z.object({
   response: z.string(),
   code: z.string().optional(),
-  debugLog: z.array(z.string()).optional()
+  debugLog: z.array(z.string()).optional(),
+  runSuccessful: z.boolean().optional(),
+  debugAttempts: z.number().optional(),
+  datasets: z.array(DatasetEntrySchema).optional(),
+  cancelled: z.boolean().optional(),
+  plan: TaskPlanSchema.optional(),
+  usage: z.array(StepUsageSchema).optional(),
+  mapScreenshot: MapScreenshotSchema.optional()
 });
 
 // TypeScript interfaces
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  code?: string;
+}
+
+/**
+ * Earlier turns of the chat, passed in by the UI for follow-up requests
+ */
+export interface ConversationContext {
+  history: ConversationTurn[];
+  lastCode?: string;
+  selectedDatasets?: DatasetEntry[];
+}
+
+export interface TaskPlan {
+  summary: string;
+  aoi: {
+    name: string;
+    bbox?: [number, number, number, number] | null;
+  } | null;
+  timeRange: {
+    start?: string | null;
+    end?: string | null;
+  } | null;
+  variables: string[];
+  outputs: string[];
+  steps: string[];
+}
+
+export interface DatasetChoice {
+  id: string;
+  rationale: string;
+}
+
+export interface DatasetSelection {
+  datasets: DatasetChoice[];
+  searchTerms?: string[];
+}
+
 export interface AgentState {
   // User input
   input: string;
   
-  // Task planning
+  // Conversation memory
+  conversation?: ConversationContext;
+  conversationSummary?: string;
+  isFollowUp?: boolean;
+  previousCode?: string;
+  
+  // The script open in the Code Editor, read when the request refers to it
+  editorCode?: string;
+  // Geometries and assets imported into that script. Undefined when the
+  // Code Editor could not be read.
+  editorImports?: EditorImport[];
+  
+  // Places named in the request, found in the offline gazetteer
+  places?: ResolvedPlace[];
+  // Dates named in the request, as exact start and end dates
+  timeframe?: Timeframe;
+  
+  // Task planning: the validated plan and its text form used in prompts
+  plan?: TaskPlan;
   taskPlan?: string;
   
   // Database selection
   selectedDatabases?: DatasetEntry[];
-  databaseSelectionText?: string;
+  // What was done about datasets without data for the requested dates,
+  // told to the user with the response
+  coverageNotes?: string[];
+  datasetSelection?: DatasetSelection;
   
   // Code generation
   generatedCode?: string;
@@ -51,16 +199,158 @@ export interface AgentState {
   // Debugging
   errors?: string;
   debugLog?: string[];
+  debugAttempts?: number;
+  runSuccessful?: boolean;
+  // What the console showed for the last run
+  consoleEntries?: ConsoleEntry[];
+  // Data of the charts the last run drew
+  chartData?: ChartTable[];
+  // The map after the last successful run
+  mapScreenshot?: MapScreenshot;
+  mapState?: MapState;
   
   // Inspection results from Earth Engine
   inspectionResults?: string;
   
+  // Set by a node that has already written the final response and wants
+  // the workflow to stop early
+  halted?: boolean;
+  
   // Final response to user
   response?: string;
 }
 
+/**
+ * Tokens used by one model call and their estimated cost in US dollars
+ */
+export interface StepUsage {
+  step: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Undefined when the model has no entry in the price table
+  cost?: number;
+  // Set when the provider reported no usage and the counts were estimated
+  estimated?: boolean;
+}
+
 export interface AgentResponse {
   response: string;
   code?: string;
   debugLog?: string[];
-} 
\ No newline at end of file
+  
+  // Whether the final code ran in Earth Engine without console errors
+  runSuccessful?: boolean;
+  debugAttempts?: number;
+  
+  // Datasets used, so the UI can pass them back with follow-up requests
+  datasets?: DatasetEntry[];
+  
+  // Set when the user stopped the request. The plan and datasets found so
+  // far are kept so the request can be resumed.
+  cancelled?: boolean;
+  plan?: TaskPlan;
+  
+  // Token usage of every model call made for this request
+  usage?: StepUsage[];
+  
+  // The map as the final code drew it
+  mapScreenshot?: MapScreenshot;
+}
+
+/**
+ * Per-request options for the agent system
+ */
+export interface AgentRunOptions {
+  // Aborting stops model calls and Earth Engine actions in progress
+  signal?: AbortSignal;
+  // Continue a stopped request from its plan and datasets
+  resume?: {
+    plan?: TaskPlan;
+    datasets?: DatasetEntry[];
+  };
+}
+
+/**
+ * The function returned by initializeAgentSystem
+ */
+export type AgentSystem = (
+  input: string,
+  conversation?: ConversationContext,
+  options?: AgentRunOptions
+) => Promise<AgentResponse>; 
+
+/**
+ * Overrides for initializeAgentSystem, used by tests to run offline
+ */
+export interface AgentSystemOptions {
+  // Used instead of the provider settings saved in Chrome storage
+  providerSettings?: ProviderSettings;
+  // Used instead of fetch for model requests
+  transport?: LLMTransport;
+  // Overrides for how failed model requests are retried
+  retry?: Partial<RetryOptions>;
+}
+
+/**
+ * Calls the configured chat model for one agent step. Passing onToken
+ * streams the reply.
+ */
+export type CallChatModel = (
+  prompt: string,
+  systemMessage: string,
+  step: string,
+  onToken?: (token: string) => void,
+  // Only passed when the model accepts images
+  images?: ChatImage[]
+) => Promise<string>;
+
+/**
+ * Posted on the window when an agent starts or finishes, so the chat can
+ * show which agent is active
+ */
+export interface AgentProgressMessage {
+  type: 'AGENT_PROGRESS';
+  step: string;
+  label: string;
+  status: 'active' | 'done';
+}
+
+/**
+ * Posted on the window while the code or the final response is streamed.
+ * Carries all text received so far.
+ */
+export interface AgentStreamMessage {
+  type: 'AGENT_STREAM';
+  target: 'code' | 'response';
+  text: string;
+}
+
+/**
+ * Posted on the window while a failed model request waits to be retried
+ */
+export interface AgentWaitMessage {
+  type: 'AGENT_WAIT';
+  message: string;
+  // Epoch milliseconds when the next attempt starts
+  retryAt: number;
+}
+
+/**
+ * Dependencies shared by every agent node during one request
+ */
+export interface AgentContext {
+  callChatModel: CallChatModel;
+  // Whether callChatModel can be given images
+  supportsImages: boolean;
+  maxDebugAttempts: number;
+  historyTokenBudget: number;
+  // Cancels the current request
+  signal?: AbortSignal;
+}
+
+/**
+ * A single agent in the workflow graph. It receives the current state and
+ * returns only the fields it changed.
+ */
+export type AgentNode = (state: AgentState) => Promise<Partial<AgentState>>;
@@ -0,0 +1,93 @@
+/**
+ * Token usage accounting for Earth Engine Agent
+ *
+ * Every model call is recorded with its step, token counts and estimated
+ * cost. Records are added up per step for a message and across messages for
+ * the session.
+ */
+
+import { TokenUsage } from '../llm/types';
+import { estimateCost, PriceTable } from '../llm/pricing';
+import { estimateTokens } from './memory';
+import { StepUsage } from './types';
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  // Undefined when none of the calls could be priced
+  cost?: number;
+  // Number of model calls
+  calls: number;
+  // Whether any of the counts were estimated
+  estimated: boolean;
+}
+
+export interface UsageSummary extends UsageTotals {
+  steps: Array<UsageTotals & { step: string }>;
+}
+
+/**
+ * Build the usage record for one call. Providers that report no usage, such
+ * as most local servers when streaming, are estimated from the text length.
+ */
+export const createStepUsage = (
+  step: string,
+  model: string,
+  usage: TokenUsage | undefined,
+  prompt: string,
+  completion: string,
+  priceTable: PriceTable
+): StepUsage => {
+  const tokens = usage || {
+    promptTokens: estimateTokens(prompt),
+    completionTokens: estimateTokens(completion)
+  };
+  return {
+    step,
+    model,
+    ...tokens,
+    cost: estimateCost(model, tokens, priceTable),
+    ...(usage ? {} : { estimated: true })
+  };
+};
+
+/**
+ * Structured output re-asks are labelled "Step (retry n)" and count towards
+ * their step
+ */
+const stepName = (step: string): string => step.replace(/ \(retry \d+\)$/, '');
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, calls: 0, estimated: false });
+
+const addUsage = (totals: UsageTotals, record: StepUsage): UsageTotals => ({
+  promptTokens: totals.promptTokens + record.promptTokens,
+  completionTokens: totals.completionTokens + record.completionTokens,
+  cost: record.cost === undefined ? totals.cost : (totals.cost || 0) + record.cost,
+  calls: totals.calls + 1,
+  estimated: totals.estimated || Boolean(record.estimated)
+});
+
+/**
+ * Add up usage records overall and per step, keeping steps in first-seen order
+ */
+export const summarizeUsage = (records: StepUsage[]): UsageSummary => {
+  const steps = new Map<string, UsageTotals>();
+  let totals = emptyTotals();
+
+  records.forEach(record => {
+    const step = stepName(record.step);
+    steps.set(step, addUsage(steps.get(step) || emptyTotals(), record));
+    totals = addUsage(totals, record);
+  });
+
+  return {
+    ...totals,
+    steps: Array.from(steps, ([step, stepTotals]) => ({ step, ...stepTotals }))
+  };
+};
+
+/**
+ * Format a cost in US dollars, keeping small amounts readable
+ */
+export const formatCost = (cost: number): string =>
+  cost >= 0.01 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`;
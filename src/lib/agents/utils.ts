@@ -0,0 +1,209 @@
+/**
+ * Shared helpers for Earth Engine Agent nodes
+ * 
+ * Logging, prompt formatting and text extraction used by more than one agent.
+ */
+
+import { AgentProgressMessage, AgentStreamMessage, AgentWaitMessage, TaskPlan } from './types';
+
+/**
+ * Log a message to the UI in real-time
+ */
+export const logToUI = (message: string) => {
+  console.log(message);
+  try {
+    window.postMessage({ type: 'AGENT_LOG', log: message }, '*');
+  } catch (error) {
+    console.error('Failed to send log to UI:', error);
+  }
+};
+
+/**
+ * Post a structured update to the chat UI. Does nothing outside a browser window.
+ */
+const postToUI = (message: AgentProgressMessage | AgentStreamMessage | AgentWaitMessage) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.postMessage(message, '*');
+  } catch (error) {
+    console.error('Failed to send update to UI:', error);
+  }
+};
+
+/**
+ * Tell the UI that an agent started or finished
+ */
+export const reportProgress = (step: string, label: string, status: AgentProgressMessage['status']) => {
+  postToUI({ type: 'AGENT_PROGRESS', step, label, status });
+};
+
+/**
+ * Tell the UI that a model request failed and is waiting to be retried
+ */
+export const reportWaiting = (message: string, delayMs: number) => {
+  postToUI({ type: 'AGENT_WAIT', message, retryAt: Date.now() + delayMs });
+};
+
+/**
+ * Create a token handler that streams text to the UI as it arrives. The
+ * optional transform turns the text so far into what should be shown.
+ */
+export const createUIStream = (
+  target: AgentStreamMessage['target'],
+  transform: (text: string) => string = text => text
+) => {
+  let text = '';
+  return (token: string) => {
+    text += token;
+    postToUI({ type: 'AGENT_STREAM', target, text: transform(text) });
+  };
+};
+
+/**
+ * Create a logger for one node run that records messages for the debug log
+ * and mirrors them to the UI
+ */
+export const createStepLogger = () => {
+  const logs: string[] = [];
+  const log = (message: string) => {
+    logs.push(message);
+    logToUI(message);
+  };
+  return { logs, log };
+};
+
+/**
+ * Format an unknown thrown value as a readable message
+ */
+export const errorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+/**
+ * Helper function to remove duplicate datasets
+ */
+export const removeDuplicateDatasets = (datasets: any[]): any[] => {
+  const uniqueIds = new Set();
+  return datasets.filter(dataset => {
+    if (uniqueIds.has(dataset.id)) {
+      return false;
+    }
+    uniqueIds.add(dataset.id);
+    return true;
+  });
+};
+
+/**
+ * Format datasets for inclusion in a prompt
+ */
+export const formatDatasetsForPrompt = (datasets: any[]): string => {
+  return datasets.map(dataset => 
+    `- ${dataset.name} (${dataset.id}): ${dataset.description || 'No description available'}` +
+    (dataset.rationale ? `\n  Why: ${dataset.rationale}` : '')
+  ).join('\n');
+};
+
+/**
+ * Render a structured plan as text for the prompts of later steps
+ */
+export const formatTaskPlan = (plan: TaskPlan): string => {
+  const lines = [`Summary: ${plan.summary}`];
+  if (plan.aoi) {
+    const bbox = plan.aoi.bbox ? ` (bbox [west, south, east, north]: ${plan.aoi.bbox.join(', ')})` : '';
+    lines.push(`Area of interest: ${plan.aoi.name}${bbox}`);
+  }
+  if (plan.timeRange && (plan.timeRange.start || plan.timeRange.end)) {
+    lines.push(`Time range: ${plan.timeRange.start || 'any'} to ${plan.timeRange.end || 'present'}`);
+  }
+  if (plan.variables.length > 0) {
+    lines.push(`Variables: ${plan.variables.join(', ')}`);
+  }
+  if (plan.outputs.length > 0) {
+    lines.push(`Outputs: ${plan.outputs.join(', ')}`);
+  }
+  lines.push('Steps:', ...plan.steps.map((step, index) => `${index + 1}. ${step}`));
+  return lines.join('\n');
+};
+
+/**
+ * The plan's time range as ISO dates for the catalog search. The plan's end
+ * names the last year, month or day wanted; the range's end is the first
+ * day after it.
+ */
+export const planTimeframe = (plan?: TaskPlan): { start?: string; end?: string } | undefined => {
+  const start = plan?.timeRange?.start;
+  const end = plan?.timeRange?.end;
+  if (!start && !end) return undefined;
+  return {
+    start: start ? normalizeDate(start) : undefined,
+    end: end ? normalizeDate(end, 'end') : undefined
+  };
+};
+
+/**
+ * Extract code block from model response
+ */
+export const extractCodeBlock = (text: string): string => {
+  // Try to extract code between markdown code fences
+  const codeBlockRegex = /```(?:javascript|js)?\s*([\s\S]*?)```/;
+  const match = text.match(codeBlockRegex);
+  
+  if (match && match[1]) {
+    return match[1].trim();
+  }
+  
+  // If no code block is found, return the entire text
+  // (this handles cases where the model might not use code fences)
+  return text;
+};
+
+/**
+ * Extract the code from a reply that is still streaming in, where the
+ * closing code fence may not have arrived yet
+ */
+export const extractPartialCodeBlock = (text: string): string => {
+  const fenceStart = text.indexOf('```');
+  if (fenceStart === -1) {
+    // Hold back a reply that may be about to open a fence
+    return text.trimStart().startsWith('`') ? '' : text;
+  }
+
+  const lineEnd = text.indexOf('\n', fenceStart);
+  if (lineEnd === -1) return '';
+  const body = text.slice(lineEnd + 1);
+  const fenceEnd = body.indexOf('```');
+  return fenceEnd === -1 ? body : body.slice(0, fenceEnd).trimEnd();
+};
+
+/**
+ * Normalize dates to ISO format. A start is the first day of the year or
+ * month named, an end the first day after it.
+ */
+const normalizeDate = (dateStr: string, bound: 'start' | 'end' = 'start'): string => {
+  const after = bound === 'end' ? 1 : 0;
+
+  // A year starts on January 1
+  if (/^\d{4}$/.test(dateStr)) {
+    return `${Number(dateStr) + after}-01-01`;
+  }
+
+  // A year and month starts on the first of the month
+  if (/^\d{4}-\d{2}$/.test(dateStr)) {
+    const [year, month] = dateStr.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1 + after, 1)).toISOString().split('T')[0];
+  }
+  
+  // Try to parse various date formats
+  try {
+    const date = new Date(dateStr);
+    if (!isNaN(date.getTime())) {
+      date.setUTCDate(date.getUTCDate() + after);
+      return date.toISOString().split('T')[0];
+    }
+  } catch (e) {
+    // Fall back to original string if parsing fails
+  }
+  
+  return dateStr;
+};
+
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildCatalogIndex } from '../searchIndex';
+import { catalogService, createCatalogService } from '../service';
+import { CatalogStore, StoredCatalog } from '../store';
+import { CatalogEntry } from '../types';
+import catalogSnapshot from '../catalogSnapshot.json';
+import { databaseSearch } from '../../tools';
+
+const SNAPSHOT: CatalogEntry[] = [
+  { id: 'USGS/SRTMGL1_003', title: 'NASA SRTM Digital Elevation 30m', tags: 'dem, elevation, srtm' },
+  { id: 'LANDSAT/LC08/C02/T1_L2', title: 'USGS Landsat 8 Level 2, Collection 2, Tier 1', tags: 'landsat, sr, usgs' },
+  { id: 'LANDSAT/LC08/C02/T1_TOA', title: 'USGS Landsat 8 Collection 2 Tier 1 TOA Reflectance', tags: ['landsat', 'toa', 'usgs'] },
+  { id: 'UCSB-CHG/CHIRPS/DAILY', title: 'CHIRPS Daily', description: 'Quasi-global rainfall and precipitation', tags: 'chirps, precipitation' }
+];
+
+const DOWNLOADED: CatalogEntry[] = [
+  ...SNAPSHOT,
+  { id: 'NASA/GPM_L3/IMERG_V07', title: 'GPM: Global Precipitation Measurement (GPM) v7', tags: 'gpm, precipitation' }
+];
+
+const memoryStore = (initial: StoredCatalog | null = null): CatalogStore & { saved: StoredCatalog | null } => {
+  const store = {
+    saved: initial,
+    read: async () => store.saved,
+    write: async (catalog: StoredCatalog) => { store.saved = catalog; }
+  };
+  return store;
+};
+
+const respond = (status: number, body?: unknown, etag?: string): Response =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: etag ? { ETag: etag } : {}
+  });
+
+describe('Catalog index', () => {
+  const index = buildCatalogIndex(SNAPSHOT);
+
+  it('finds datasets by their ID or part of it', () => {
+    expect(index.search('LANDSAT/LC08/C02/T1_L2').map(entry => entry.id)).toEqual(['LANDSAT/LC08/C02/T1_L2']);
+    expect(index.search('landsat/lc08/c02').map(entry => entry.id)).toEqual([
+      'LANDSAT/LC08/C02/T1_L2',
+      'LANDSAT/LC08/C02/T1_TOA'
+    ]);
+    expect(index.get('usgs/srtmgl1_003')?.title).toBe('NASA SRTM Digital Elevation 30m');
+  });
+
+  it('matches every word of a query, by whole word or beginning', () => {
+    expect(index.search('elevation data').map(entry => entry.id)).toEqual(['USGS/SRTMGL1_003']);
+    expect(index.search('precip').map(entry => entry.id)).toEqual(['UCSB-CHG/CHIRPS/DAILY']);
+    expect(index.search('landsat toa')[0].id).toBe('LANDSAT/LC08/C02/T1_TOA');
+  });
+
+  it('falls back to the datasets matching the most words', () => {
+    expect(index.search('digital elevation model').map(entry => entry.id)).toEqual(['USGS/SRTMGL1_003']);
+    expect(index.search('ocean salinity')).toEqual([]);
+  });
+
+  it('indexes the bundled snapshot', () => {
+    const bundled = buildCatalogIndex(catalogSnapshot as CatalogEntry[]);
+    expect(bundled.size).toBe(catalogSnapshot.length);
+    expect(bundled.search('night lights').map(entry => entry.id)).toContain('NOAA/VIIRS/DNB/MONTHLY_V1/VCMSLCFG');
+  });
+});
+
+describe('Catalog service', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('searches the snapshot without waiting for a download', async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(200, DOWNLOADED, '"v1"'));
+    const store = memoryStore();
+    const service = createCatalogService({ snapshot: SNAPSHOT, store, fetch, now: () => 1000 });
+
+    expect((await service.search('precipitation')).map(entry => entry.id)).toEqual(['UCSB-CHG/CHIRPS/DAILY']);
+    // The stale catalog is refreshed in the background for later searches
+    await vi.waitFor(() => expect(store.saved?.etag).toBe('"v1"'));
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect((await service.search('precipitation')).map(entry => entry.id)).toContain('NASA/GPM_L3/IMERG_V07');
+  });
+
+  it('uses the saved catalog until it is older than the TTL', async () => {
+    const fetch = vi.fn();
+    const store = memoryStore({ entries: DOWNLOADED, etag: '"v1"', fetchedAt: 1000 });
+    const service = createCatalogService({ snapshot: SNAPSHOT, store, fetch, ttlMs: 5000, now: () => 3000 });
+
+    expect((await service.get('NASA/GPM_L3/IMERG_V07'))?.title).toContain('GPM');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('checks for changes with the ETag and keeps the catalog when unchanged', async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(304));
+    const store = memoryStore({ entries: DOWNLOADED, etag: '"v1"', fetchedAt: 1000 });
+    const service = createCatalogService({ snapshot: SNAPSHOT, store, fetch, ttlMs: 5000, now: () => 9000 });
+
+    expect(await service.refresh()).toBe(false);
+    expect(fetch.mock.calls[0][1].headers).toEqual({ 'If-None-Match': '"v1"' });
+    expect(store.saved).toMatchObject({ etag: '"v1"', fetchedAt: 9000 });
+    expect(store.saved?.entries).toHaveLength(DOWNLOADED.length);
+  });
+
+  it('keeps the current catalog when a download fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetch = vi.fn().mockResolvedValue(respond(500));
+    const service = createCatalogService({ snapshot: SNAPSHOT, store: memoryStore(), fetch, now: () => 1000 });
+
+    await expect(service.refresh()).rejects.toThrow('failed with status 500');
+    expect(await service.search('srtm')).toHaveLength(1);
+    // A failed download is not retried on every search
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Dataset search', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the ranking of a keyword search without a timeframe', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const index = buildCatalogIndex([
+      { id: 'LANDSAT/LC08/C02/T1_L2', title: 'USGS Landsat 8 Level 2 surface reflectance', start_date: '2013-03-18', end_date: 'present' },
+      { id: 'LANDSAT/LT05/C02/T1_L2', title: 'USGS Landsat 5 Level 2 surface reflectance', tags: 'landsat, reflectance', start_date: '1984-03-16', end_date: '2012-05-05' }
+    ]);
+    vi.spyOn(catalogService, 'search').mockImplementation(async query => index.search(query));
+
+    const ranked = index.search('landsat reflectance').map(entry => entry.id);
+    expect(ranked[0]).toBe('LANDSAT/LT05/C02/T1_L2');
+    expect((await databaseSearch('landsat reflectance')).map(dataset => dataset.id)).toEqual(ranked);
+  });
+});
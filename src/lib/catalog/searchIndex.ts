@@ -0,0 +1,150 @@
+/**
+ * Inverted index over the dataset catalog
+ *
+ * Every word of a dataset's ID, title, tags, description and provider points
+ * to the datasets it appears in, weighted by the field it came from. A query
+ * is split into words the same way; each word matches the words it equals or
+ * begins, so "precip" finds "precipitation". Datasets that match every word
+ * of the query are returned, best first. When none does, those that match
+ * the most words are returned instead.
+ */
+
+import { CatalogEntry } from './types';
+
+// Weight of a word by the field it appears in
+const FIELD_WEIGHTS = {
+  id: 3,
+  title: 2,
+  tags: 2,
+  description: 1,
+  provider: 1
+} as const;
+
+// A word matched by its beginning counts for this share of its weight
+const PREFIX_FACTOR = 0.5;
+// Query words shorter than this only match whole words
+const MIN_PREFIX_LENGTH = 3;
+// Bonus for a query that is a dataset's ID, or part of it
+const EXACT_ID_SCORE = 1000;
+const PARTIAL_ID_SCORE = 20;
+
+// Query words that say nothing about the dataset
+const STOP_WORDS = new Set(['a', 'an', 'and', 'data', 'dataset', 'datasets', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+export interface CatalogIndex {
+  // Number of datasets indexed
+  size: number;
+  // The dataset with exactly this ID
+  get(id: string): CatalogEntry | undefined;
+  search(query: string, limit?: number): CatalogEntry[];
+}
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1);
+
+const tagText = (tags: CatalogEntry['tags']): string =>
+  Array.isArray(tags) ? tags.join(' ') : tags || '';
+
+/**
+ * The first position in a sorted list that is not before the value
+ */
+const lowerBound = (sorted: string[], value: string): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (sorted[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Index the catalog. Entries without an ID are left out.
+ */
+export const buildCatalogIndex = (catalog: CatalogEntry[]): CatalogIndex => {
+  const entries = catalog.filter(entry => typeof entry?.id === 'string' && entry.id);
+  // Word -> position of the entry -> weight of the word in it
+  const postings = new Map<string, Map<number, number>>();
+  const byId = new Map<string, number>();
+
+  entries.forEach((entry, position) => {
+    if (!byId.has(entry.id.toLowerCase())) byId.set(entry.id.toLowerCase(), position);
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      id: entry.id,
+      title: entry.title || '',
+      tags: tagText(entry.tags),
+      description: entry.description || '',
+      provider: entry.provider || ''
+    };
+    for (const [field, text] of Object.entries(fields) as Array<[keyof typeof FIELD_WEIGHTS, string]>) {
+      for (const token of tokenize(text)) {
+        let posting = postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          postings.set(token, posting);
+        }
+        posting.set(position, (posting.get(position) || 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+  });
+
+  const words = [...postings.keys()].sort();
+
+  // Weight of every entry a query word matches
+  const matchWord = (word: string): Map<number, number> => {
+    const scores = new Map<number, number>(postings.get(word));
+    if (word.length < MIN_PREFIX_LENGTH) return scores;
+    for (let at = lowerBound(words, word); at < words.length && words[at].startsWith(word); at++) {
+      if (words[at] === word) continue;
+      for (const [position, weight] of postings.get(words[at])!) {
+        scores.set(position, Math.max(scores.get(position) || 0, weight * PREFIX_FACTOR));
+      }
+    }
+    return scores;
+  };
+
+  const search = (query: string, limit = 50): CatalogEntry[] => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return [];
+
+    const tokens = [...new Set(tokenize(normalized))];
+    const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+    const queryWords = meaningful.length > 0 ? meaningful : tokens;
+
+    const scores = new Map<number, { score: number; matched: number }>();
+    const add = (position: number, score: number, matched: number) => {
+      const current = scores.get(position) || { score: 0, matched: 0 };
+      scores.set(position, { score: current.score + score, matched: current.matched + matched });
+    };
+
+    for (const word of queryWords) {
+      for (const [position, weight] of matchWord(word)) add(position, weight, 1);
+    }
+
+    const exact = byId.get(normalized);
+    if (exact !== undefined) add(exact, EXACT_ID_SCORE, queryWords.length);
+    if (normalized.length >= MIN_PREFIX_LENGTH && /[/_]/.test(normalized)) {
+      entries.forEach((entry, position) => {
+        if (position !== exact && entry.id.toLowerCase().includes(normalized)) add(position, PARTIAL_ID_SCORE, queryWords.length);
+      });
+    }
+
+    const ranked = [...scores.entries()];
+    const best = Math.max(0, ...ranked.map(([, { matched }]) => Math.min(matched, queryWords.length)));
+    return ranked
+      .filter(([, { matched }]) => Math.min(matched, queryWords.length) === best)
+      .sort(([a, first], [b, second]) => second.score - first.score || a - b)
+      .slice(0, limit)
+      .map(([position]) => entries[position]);
+  };
+
+  return {
+    size: entries.length,
+    get: id => {
+      const position = byId.get(id.toLowerCase());
+      return position === undefined ? undefined : entries[position];
+    },
+    search
+  };
+};
@@ -0,0 +1,162 @@
+/**
+ * Earth Engine dataset catalog service
+ *
+ * The one place datasets are looked up. A snapshot of common datasets is
+ * bundled so searches work offline and on first use. The full catalog is
+ * downloaded from GitHub when the copy in use is older than the TTL, checked
+ * with its ETag so an unchanged catalog is not downloaded again, and kept in
+ * IndexedDB between sessions. The search index is built once for each
+ * version of the catalog, not for each search.
+ */
+
+import { abortable, isAbortError } from '../abort';
+import { buildCatalogIndex, CatalogIndex } from './searchIndex';
+import { CatalogStore, createIndexedDBStore, StoredCatalog } from './store';
+import { CatalogEntry } from './types';
+import catalogSnapshot from './catalogSnapshot.json';
+
+export const CATALOG_URL = 'https://raw.githubusercontent.com/samapriya/Earth-Engine-Datasets-List/master/gee_catalog.json';
+// How long a catalog is used before it is checked for changes
+export const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+// How long to wait after a failed download before trying again
+export const CATALOG_RETRY_MS = 10 * 60 * 1000;
+
+export interface CatalogServiceOptions {
+  // Used until a download succeeds
+  snapshot?: CatalogEntry[];
+  // Where the full catalog is downloaded from; null to never download
+  url?: string | null;
+  ttlMs?: number;
+  store?: CatalogStore;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+export interface CatalogService {
+  /**
+   * Datasets matching the query, best first. A catalog older than the TTL
+   * is refreshed in the background; this search uses the current one.
+   */
+  search(query: string, options?: { limit?: number; signal?: AbortSignal }): Promise<CatalogEntry[]>;
+  // The dataset with exactly this ID
+  get(id: string, signal?: AbortSignal): Promise<CatalogEntry | undefined>;
+  /**
+   * Download the catalog if it changed. Resolves to whether a new catalog
+   * is in use.
+   */
+  refresh(signal?: AbortSignal): Promise<boolean>;
+}
+
+const isCatalog = (data: unknown): data is CatalogEntry[] =>
+  Array.isArray(data) && data.length > 0 &&
+  data.every(entry => typeof entry === 'object' && entry !== null && typeof (entry as CatalogEntry).id === 'string');
+
+export const createCatalogService = ({
+  snapshot = catalogSnapshot as CatalogEntry[],
+  url = CATALOG_URL,
+  ttlMs = CATALOG_TTL_MS,
+  store = createIndexedDBStore(),
+  fetch: fetchCatalog = (...args) => fetch(...args),
+  now = Date.now
+}: CatalogServiceOptions = {}): CatalogService => {
+  let index: CatalogIndex | null = null;
+  // The downloaded catalog in use, if any
+  let stored: StoredCatalog | null = null;
+  let loading: Promise<CatalogIndex> | null = null;
+  let refreshing: Promise<boolean> | null = null;
+  let lastFailure: number | null = null;
+
+  // The index in use, once the saved catalog has been read
+  const load = async (): Promise<CatalogIndex> => {
+    if (!loading) {
+      loading = (async () => {
+        try {
+          const saved = await store.read();
+          if (saved && isCatalog(saved.entries)) stored = saved;
+        } catch (error) {
+          console.warn('Could not read the saved dataset catalog:', error);
+        }
+        if (!index) {
+          index = buildCatalogIndex(stored ? stored.entries : snapshot);
+          console.log(`Indexed ${index.size} datasets from the ${stored ? 'saved' : 'bundled'} catalog`);
+        }
+        return index;
+      })();
+    }
+    await loading;
+    // A download may have replaced the index since it was first built
+    return index!;
+  };
+
+  const save = async (catalog: StoredCatalog) => {
+    stored = catalog;
+    try {
+      await store.write(catalog);
+    } catch (error) {
+      console.warn('Could not save the dataset catalog:', error);
+    }
+  };
+
+  const download = async (signal?: AbortSignal): Promise<boolean> => {
+    await load();
+    if (!url) return false;
+
+    const headers: Record<string, string> = stored?.etag ? { 'If-None-Match': stored.etag } : {};
+    const response = await fetchCatalog(url, { headers, signal });
+    if (response.status === 304 && stored) {
+      await save({ ...stored, fetchedAt: now() });
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Downloading the dataset catalog failed with status ${response.status}`);
+    }
+
+    const entries: unknown = await response.json();
+    if (!isCatalog(entries)) {
+      throw new Error('The downloaded dataset catalog has no datasets');
+    }
+    index = buildCatalogIndex(entries);
+    console.log(`Indexed ${index.size} datasets from the downloaded catalog`);
+    await save({ entries, etag: response.headers.get('ETag') || undefined, fetchedAt: now() });
+    return true;
+  };
+
+  const refresh = (signal?: AbortSignal): Promise<boolean> => {
+    if (!refreshing) {
+      refreshing = download(signal)
+        .catch(error => {
+          if (!isAbortError(error)) lastFailure = now();
+          throw error;
+        })
+        .finally(() => { refreshing = null; });
+    }
+    return abortable(refreshing, signal);
+  };
+
+  const refreshIfStale = () => {
+    const time = now();
+    const stale = !stored || time - stored.fetchedAt >= ttlMs;
+    const retrying = lastFailure !== null && time - lastFailure < CATALOG_RETRY_MS;
+    if (!url || !stale || refreshing || retrying) return;
+    refresh().catch(error => console.warn('Could not refresh the dataset catalog:', error));
+  };
+
+  return {
+    search: async (query, { limit, signal } = {}) => {
+      const current = await abortable(load(), signal);
+      refreshIfStale();
+      return current.search(query, limit);
+    },
+    get: async (id, signal) => {
+      const current = await abortable(load(), signal);
+      refreshIfStale();
+      return current.get(id);
+    },
+    refresh
+  };
+};
+
+/**
+ * The catalog shared by every tool
+ */
+export const catalogService = createCatalogService();
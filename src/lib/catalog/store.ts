@@ -0,0 +1,84 @@
+/**
+ * Persistent copy of the downloaded catalog
+ *
+ * The full catalog is several megabytes, too large for chrome.storage, so
+ * the last download is kept in IndexedDB together with its ETag. Where
+ * IndexedDB is not available nothing is kept and the bundled snapshot is
+ * used until the next download.
+ */
+
+import { CatalogEntry } from './types';
+
+export interface StoredCatalog {
+  entries: CatalogEntry[];
+  // ETag of the response the entries came from
+  etag?: string;
+  // Epoch milliseconds of the last download or check for changes
+  fetchedAt: number;
+}
+
+export interface CatalogStore {
+  read(): Promise<StoredCatalog | null>;
+  write(catalog: StoredCatalog): Promise<void>;
+}
+
+const DATABASE_NAME = 'earth_agent_catalog';
+const OBJECT_STORE = 'catalog';
+const CATALOG_KEY = 'gee_catalog';
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (factory: IDBFactory): Promise<IDBDatabase> => {
+  const request = factory.open(DATABASE_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(OBJECT_STORE);
+  return settle(request);
+};
+
+/**
+ * A store that keeps nothing
+ */
+export const createMemorylessStore = (): CatalogStore => ({
+  read: async () => null,
+  write: async () => {}
+});
+
+/**
+ * Keep the catalog in IndexedDB
+ */
+export const createIndexedDBStore = (
+  factory: IDBFactory | undefined = typeof indexedDB === 'undefined' ? undefined : indexedDB
+): CatalogStore => {
+  if (!factory) return createMemorylessStore();
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = openDatabase(factory);
+      // Try again next time rather than keep a failed connection
+      database.catch(() => { database = null; });
+    }
+    return database;
+  };
+
+  return {
+    read: async () => {
+      const db = await open();
+      const stored = await settle(db.transaction(OBJECT_STORE).objectStore(OBJECT_STORE).get(CATALOG_KEY));
+      return stored ?? null;
+    },
+    write: async catalog => {
+      const db = await open();
+      const transaction = db.transaction(OBJECT_STORE, 'readwrite');
+      transaction.objectStore(OBJECT_STORE).put(catalog, CATALOG_KEY);
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    }
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * Types of the Earth Engine dataset catalog
+ */
+
+/**
+ * A dataset as the catalog lists it. The GitHub catalog keeps tags as one
+ * comma-separated string; other sources use a list.
+ */
+export interface CatalogEntry {
+  id: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  provider?: string;
+  tags?: string | string[];
+  start_date?: string;
+  end_date?: string;
+  [field: string]: unknown;
+}
+
+// Define interface for GEE catalog dataset entry
+export interface DatasetEntry {
+  id: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  provider?: string;
+  documentation_url?: string;
+  type?: string;
+  asset_url?: string;
+  start_date?: string;
+  end_date?: string;
+  startyear?: string;
+  endyear?: string;
+  thumbnail_url?: string;
+  // Why the dataset selector chose this dataset
+  rationale?: string;
+}
+
+/**
+ * A dataset as a catalog search returns it, with the catalog's fields
+ * renamed for the agents
+ */
+export interface DatasetSearchResult {
+  id: string;
+  name: string;
+  // The catalog title
+  description: string;
+  type: string;
+  startDate: string;
+  // "present" while the dataset is still updated
+  endDate: string;
+  updateFrequency?: string;
+  provider?: string;
+  gsd?: string;
+  source?: string;
+  // How well the dates fit the requested timeframe, when there is one
+  timeScore?: number;
+}
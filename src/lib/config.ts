@@ -4,31 +4,69 @@
  * Handles API keys and other configuration securely using Chrome storage
  */
 
+import { ProviderId, ProviderSettings, ProviderSettingsSchema } from './llm/types';
+import { DEFAULT_PRICE_TABLE, ModelPrice, PriceTable, PriceTableSchema } from './llm/pricing';
+
 // Default configuration values
 export const DEFAULT_CONFIG = {
-  modelName: "gpt-3.5-turbo",
-  temperature: 0
+  provider: "openai" as ProviderId,
+  modelName: "gpt-4o",
+  temperature: 0,
+  // How many times the Code Debugger may run and repair generated code
+  maxDebugAttempts: 3,
+  // Approximate token budget for conversation history sent to the agents
+  historyTokenBudget: 2000,
+  // Attempts per model request when the provider is rate limiting or failing
+  maxModelAttempts: 4,
+  // How long a model request may go without any response data
+  modelTimeoutMs: 60000
 };
 
 // Keys used in Chrome storage
 export const STORAGE_KEYS = {
+  // API keys by provider
+  API_KEYS: 'earth_agent_api_keys',
+  // The single key saved before keys were kept per provider. It is moved to
+  // the provider selected at the time on first read.
   OPENAI_API_KEY: 'earth_agent_openai_api_key',
   SETTINGS: 'earth_agent_settings',
 };
 
+type ApiKeys = Partial<Record<ProviderId, string>>;
+
+const getSyncStorage = (): chrome.storage.SyncStorageArea => {
+  if (typeof chrome === 'undefined' || !chrome.storage || !chrome.storage.sync) {
+    throw new Error('Chrome storage API is not available');
+  }
+  return chrome.storage.sync;
+};
+
 /**
- * Save the OpenAI API key securely to Chrome storage
+ * The stored API keys by provider
  */
-export const saveApiKey = async (apiKey: string): Promise<void> => {
+const readApiKeys = async (): Promise<ApiKeys> => {
+  const storage = getSyncStorage();
+  const result = await storage.get([STORAGE_KEYS.API_KEYS, STORAGE_KEYS.OPENAI_API_KEY, STORAGE_KEYS.SETTINGS]);
+  const keys: ApiKeys = result[STORAGE_KEYS.API_KEYS] || {};
+  const legacyKey = result[STORAGE_KEYS.OPENAI_API_KEY];
+  if (!legacyKey) return keys;
+
+  const parsed = ProviderSettingsSchema.shape.provider.safeParse(result[STORAGE_KEYS.SETTINGS]?.llm?.provider);
+  const provider = parsed.success ? parsed.data : DEFAULT_CONFIG.provider;
+  const migrated = { [provider]: legacyKey, ...keys };
+  await storage.set({ [STORAGE_KEYS.API_KEYS]: migrated });
+  await storage.remove(STORAGE_KEYS.OPENAI_API_KEY);
+  return migrated;
+};
+
+/**
+ * Save a provider's API key securely to Chrome storage. An empty key removes it.
+ */
+export const saveApiKey = async (provider: ProviderId, apiKey: string): Promise<void> => {
   try {
-    // First check if we're in a context where chrome.storage is available
-    if (typeof chrome === 'undefined' || !chrome.storage || !chrome.storage.sync) {
-      console.warn("Chrome storage API is not available in saveApiKey");
-      throw new Error('Chrome storage API is not available');
-    }
-    
-    console.log("Saving API key to Chrome storage, length:", apiKey.length);
-    await chrome.storage.sync.set({ [STORAGE_KEYS.OPENAI_API_KEY]: apiKey });
+    const { [provider]: _previous, ...others } = await readApiKeys();
+    console.log(`Saving ${provider} API key to Chrome storage, length:`, apiKey.length);
+    await getSyncStorage().set({ [STORAGE_KEYS.API_KEYS]: apiKey ? { ...others, [provider]: apiKey } : others });
     console.log('API key saved successfully');
   } catch (error) {
     console.error('Error saving API key:', error);
@@ -37,20 +75,12 @@ export const saveApiKey = async (apiKey: string): Promise<void> => {
 };
 
 /**
- * Get the OpenAI API key from Chrome storage
+ * Get a provider's API key from Chrome storage
  */
-export const getApiKey = async (): Promise<string | null> => {
+export const getApiKey = async (provider: ProviderId): Promise<string | null> => {
   try {
-    // First check if we're in a context where chrome.storage is available
-    if (typeof chrome === 'undefined' || !chrome.storage || !chrome.storage.sync) {
-      console.warn("Chrome storage API is not available in getApiKey");
-      return null;
-    }
-    
-    console.log("Retrieving API key from Chrome storage...");
-    const result = await chrome.storage.sync.get([STORAGE_KEYS.OPENAI_API_KEY]);
-    const apiKey = result[STORAGE_KEYS.OPENAI_API_KEY] || null;
-    console.log("API key retrieved from storage:", apiKey ? `length: ${apiKey.length}` : "not found");
+    const apiKey = (await readApiKeys())[provider] || null;
+    console.log(`${provider} API key retrieved from storage:`, apiKey ? `length: ${apiKey.length}` : "not found");
     return apiKey;
   } catch (error) {
     console.error('Error retrieving API key:', error);
@@ -59,25 +89,9 @@ export const getApiKey = async (): Promise<string | null> => {
 };
 
 /**
- * Check if the API key is set
+ * Check if a provider's API key is set
  */
-export const isApiKeySet = async (): Promise<boolean> => {
-  try {
-    // First check if we're in a context where chrome.storage is available
-    if (typeof chrome === 'undefined' || !chrome.storage || !chrome.storage.sync) {
-      console.warn("Chrome storage API is not available");
-      return false;
-    }
-    
-    const apiKey = await getApiKey();
-    const isSet = !!apiKey;
-    console.log("API key is set:", isSet);
-    return isSet;
-  } catch (error) {
-    console.error('Error checking if API key is set:', error);
-    return false;
-  }
-};
+export const isApiKeySet = async (provider: ProviderId): Promise<boolean> => !!await getApiKey(provider);
 
 /**
  * Save settings to Chrome storage
@@ -115,4 +129,48 @@ export const getSettings = async (): Promise<Record<string, any>> => {
     console.error('Error retrieving settings:', error);
     return {};
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Get the LLM provider settings, including the stored API key
+ */
+export const getProviderSettings = async (): Promise<ProviderSettings> => {
+  const settings = await getSettings();
+  const parsed = ProviderSettingsSchema.safeParse({ provider: DEFAULT_CONFIG.provider, ...settings.llm });
+  if (!parsed.success) {
+    console.warn('Ignoring invalid LLM provider settings:', parsed.error.errors);
+    return { provider: DEFAULT_CONFIG.provider, apiKey: await getApiKey(DEFAULT_CONFIG.provider) || undefined };
+  }
+  // Only the selected provider's own key is ever sent to it
+  return { ...parsed.data, apiKey: await getApiKey(parsed.data.provider) || undefined };
+};
+
+/**
+ * Save the LLM provider settings. API keys are stored separately with saveApiKey.
+ */
+export const saveProviderSettings = async (providerSettings: Omit<ProviderSettings, 'apiKey'>): Promise<void> => {
+  const settings = await getSettings();
+  await saveSettings({ ...settings, llm: providerSettings });
+};
+
+/**
+ * Get the model price table: the built-in prices with the user's overrides
+ */
+export const getPriceTable = async (): Promise<PriceTable> => {
+  const settings = await getSettings();
+  const parsed = PriceTableSchema.safeParse(settings.priceTable ?? {});
+  if (!parsed.success) {
+    console.warn('Ignoring invalid price table settings:', parsed.error.errors);
+    return DEFAULT_PRICE_TABLE;
+  }
+  return { ...DEFAULT_PRICE_TABLE, ...parsed.data };
+};
+
+/**
+ * Save the price of one model, overriding the built-in price if there is one
+ */
+export const saveModelPrice = async (model: string, price: ModelPrice): Promise<void> => {
+  const settings = await getSettings();
+  const parsed = PriceTableSchema.safeParse(settings.priceTable ?? {});
+  const priceTable = parsed.success ? parsed.data : {};
+  await saveSettings({ ...settings, priceTable: { ...priceTable, [model]: price } });
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { chartTableToCsv, chartTableToRecords, describeChartTrends, parseChartTable } from '../chartTable';
+
+const ndviSeries = () => parseChartTable(
+  'NDVI over time',
+  ['system:time_start', 'NDVI', 'Label'],
+  [
+    ['Jan 1, 2020', '0.21', 'winter'],
+    ['Apr 1, 2020', '0.35', 'spring'],
+    ['Jul 1, 2020', '0.62', 'summer, peak'],
+    ['Oct 1, 2020', '', 'autumn']
+  ],
+  'run-1'
+);
+
+describe('chart tables', () => {
+  it('types columns by their cells', () => {
+    const table = ndviSeries();
+
+    expect(table.columns.map(column => column.type)).toEqual(['date', 'number', 'string']);
+    expect(table.rows[0]).toEqual(['2020-01-01', 0.21, 'winter']);
+    // Empty cells are null and do not make a column text
+    expect(table.rows[3][1]).toBeNull();
+    expect(table.runId).toBe('run-1');
+  });
+
+  it('reads grouped numbers and keeps years as numbers', () => {
+    const table = parseChartTable('Area', ['Year', 'Area (ha)'], [['2019', '1,234.5'], ['2020', '-12']]);
+
+    expect(table.columns.map(column => column.type)).toEqual(['number', 'number']);
+    expect(table.rows).toEqual([[2019, 1234.5], [2020, -12]]);
+  });
+
+  it('exports CSV and JSON records', () => {
+    const table = ndviSeries();
+
+    expect(chartTableToCsv(table).split('\n').slice(0, 4)).toEqual([
+      'system:time_start,NDVI,Label',
+      '2020-01-01,0.21,winter',
+      '2020-04-01,0.35,spring',
+      '2020-07-01,0.62,"summer, peak"'
+    ]);
+    expect(chartTableToRecords(table)[3]).toEqual({ 'system:time_start': '2020-10-01', NDVI: null, Label: 'autumn' });
+  });
+
+  it('describes the direction and extremes of each numeric series', () => {
+    const description = describeChartTrends(ndviSeries());
+
+    expect(description).toContain('NDVI over time (4 rows)');
+    expect(description).toContain('NDVI: 0.21 at 2020-01-01 to 0.62 at 2020-07-01 (+195.2%), rising overall');
+    expect(description).toContain('max 0.62 at 2020-07-01');
+    expect(description).not.toContain('Label:');
+  });
+
+  it('calls a series without a clear direction flat', () => {
+    const table = parseChartTable('Flat', ['x', 'y'], [['1', '5'], ['2', '6'], ['3', '4'], ['4', '6'], ['5', '5']]);
+
+    expect(describeChartTrends(table)).toContain('roughly flat');
+  });
+});
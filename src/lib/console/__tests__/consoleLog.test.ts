@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createConsoleLog, formatConsoleEntries } from '../consoleLog';
+import { ConsoleEntry } from '../../messaging/protocol';
+
+const entry = (message: string, runId: string | null, type: ConsoleEntry['type'] = 'print'): ConsoleEntry => ({
+  type,
+  message,
+  timestamp: '2024-05-01T12:00:00.000Z',
+  runId
+});
+
+describe('console log', () => {
+  it('returns the entries of one run or all of them', () => {
+    const log = createConsoleLog();
+    log.add(entry('old output', null));
+    log.add(entry('Mean NDVI: 0.42', 'run-1'));
+    log.add(entry('Line 3: x is not defined', 'run-2', 'error'));
+
+    expect(log.entries('run-1').map(item => item.message)).toEqual(['Mean NDVI: 0.42']);
+    expect(log.entries('run-2')[0].type).toBe('error');
+    expect(log.entries()).toHaveLength(3);
+  });
+
+  it('keeps only the newest entries', () => {
+    const log = createConsoleLog(2);
+    ['a', 'b', 'c'].forEach(message => log.add(entry(message, 'run-1')));
+
+    expect(log.entries().map(item => item.message)).toEqual(['b', 'c']);
+  });
+
+  it('tells subscribers about new entries until they unsubscribe', () => {
+    const log = createConsoleLog();
+    const listener = vi.fn();
+    const unsubscribe = log.subscribe(listener);
+
+    log.add(entry('NDVI over time', 'run-1', 'chart'));
+    unsubscribe();
+    log.add(entry('later', 'run-1'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'chart', message: 'NDVI over time' }));
+  });
+
+  it('formats entries for a prompt', () => {
+    expect(formatConsoleEntries([entry('42', 'run-1'), entry('Band not found', 'run-1', 'warning')]))
+      .toBe('[print] 42\n[warning] Band not found');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Data behind the charts in the Code Editor console
+ *
+ * Google Charts draw a chart as SVG and keep a hidden HTML table of its data
+ * next to it for screen readers. That table is read as text and turned into
+ * typed rows here, which can be exported or described to the model.
+ */
+
+import { z } from 'zod';
+
+export const ChartColumnSchema = z.object({
+  label: z.string(),
+  // Dates are kept as ISO strings
+  type: z.enum(['number', 'date', 'string'])
+});
+
+export const ChartValueSchema = z.union([z.number(), z.string(), z.null()]);
+
+export const ChartTableSchema = z.object({
+  title: z.string(),
+  columns: z.array(ChartColumnSchema),
+  rows: z.array(z.array(ChartValueSchema)),
+  // The run that drew the chart, or null when it was already there
+  runId: z.string().nullable()
+});
+
+export type ChartColumn = z.infer<typeof ChartColumnSchema>;
+export type ChartValue = z.infer<typeof ChartValueSchema>;
+export type ChartTable = z.infer<typeof ChartTableSchema>;
+
+// Numbers as Google Charts format them, e.g. "1,234.5" or "-0.25"
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?(e[-+]?\d+)?$/i;
+
+const parseNumber = (text: string): number | null => {
+  if (!NUMBER_PATTERN.test(text) || !/\d/.test(text)) return null;
+  return Number(text.replace(/,/g, ''));
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const parseDate = (text: string): string | null => {
+  // Bare numbers such as years parse as dates too, but are numbers here
+  if (!/[a-z]/i.test(text) && !/^\d{4}-\d{2}/.test(text)) return null;
+  const time = Date.parse(text);
+  if (Number.isNaN(time)) return null;
+  const date = new Date(time);
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  // Charts show dates in the page's time zone, so keep their local fields
+  return date.getHours() || date.getMinutes() || date.getSeconds()
+    ? `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+    : day;
+};
+
+/**
+ * Type each column by the cells it holds: numbers, dates or text. Empty
+ * cells become null and do not decide the type.
+ */
+export const parseChartTable = (
+  title: string,
+  header: string[],
+  cells: string[][],
+  runId: string | null = null
+): ChartTable => {
+  const texts = cells.map(row => header.map((_, index) => (row[index] ?? '').trim()));
+  const columns = header.map((label, index): ChartColumn => {
+    const values = texts.map(row => row[index]).filter(Boolean);
+    let type: ChartColumn['type'] = 'string';
+    if (values.length > 0 && values.every(value => parseNumber(value) !== null)) {
+      type = 'number';
+    } else if (values.length > 0 && values.every(value => parseDate(value) !== null)) {
+      type = 'date';
+    }
+    return { label: label.trim() || `Column ${index + 1}`, type };
+  });
+
+  const rows = texts.map(row => row.map((text, index): ChartValue => {
+    if (!text) return null;
+    switch (columns[index].type) {
+      case 'number': return parseNumber(text);
+      case 'date': return parseDate(text);
+      default: return text;
+    }
+  }));
+
+  return { title, columns, rows, runId };
+};
+
+const csvField = (value: ChartValue): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The table as CSV with a header row
+ */
+export const chartTableToCsv = (table: ChartTable): string =>
+  [table.columns.map(column => column.label), ...table.rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\n');
+
+/**
+ * The rows as objects keyed by column label
+ */
+export const chartTableToRecords = (table: ChartTable): Record<string, ChartValue>[] =>
+  table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => [column.label, row[index] ?? null])));
+
+const formatNumber = (value: number): string => String(Number(value.toPrecision(4)));
+
+/**
+ * Describe how each numeric series changes along the first column: where it
+ * starts and ends, its overall direction and its extremes
+ */
+export const describeChartTrends = (table: ChartTable): string => {
+  const lines = [`${table.title} (${table.rows.length} rows)`];
+  const [axis, ...series] = table.columns;
+  if (!axis) return lines[0];
+
+  series.forEach((column, offset) => {
+    if (column.type !== 'number') return;
+    const index = offset + 1;
+    const points = table.rows
+      .filter(row => typeof row[index] === 'number' && row[0] !== null)
+      .map(row => ({ x: row[0] as number | string, y: row[index] as number }));
+    if (points.length < 2) return;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const min = points.reduce((low, point) => point.y < low.y ? point : low);
+    const max = points.reduce((high, point) => point.y > high.y ? point : high);
+
+    // Least-squares slope over the point order, judged against the spread
+    const meanIndex = (points.length - 1) / 2;
+    const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    const slope = points.reduce((sum, point, i) => sum + (i - meanIndex) * (point.y - meanY), 0) /
+      points.reduce((sum, _, i) => sum + (i - meanIndex) ** 2, 0);
+    const fitted = slope * (points.length - 1);
+    const range = max.y - min.y;
+    const direction = range === 0 || Math.abs(fitted) < range * 0.25 ? 'roughly flat' : fitted > 0 ? 'rising' : 'falling';
+
+    const change = last.y - first.y;
+    const percent = first.y !== 0 ? ` (${change >= 0 ? '+' : ''}${formatNumber((change / Math.abs(first.y)) * 100)}%)` : '';
+    lines.push(`${column.label}: ${formatNumber(first.y)} at ${first.x} to ${formatNumber(last.y)} at ${last.x}${percent}, ` +
+      `${direction} overall; min ${formatNumber(min.y)} at ${min.x}, max ${formatNumber(max.y)} at ${max.x}`);
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,50 @@
+/**
+ * Console log for Earth Engine Agent
+ *
+ * Keeps the console entries seen in a Code Editor tab, tagged with the run
+ * that produced them, and tells subscribers about each new one.
+ */
+
+import { ConsoleEntry } from '../messaging/protocol';
+
+// Older entries are dropped beyond this many
+const MAX_ENTRIES = 500;
+
+export interface ConsoleLog {
+  add(entry: ConsoleEntry): void;
+  // Entries of one run, or all of them, oldest first
+  entries(runId?: string): ConsoleEntry[];
+  // Call the listener with every entry added from now on
+  subscribe(listener: (entry: ConsoleEntry) => void): () => void;
+}
+
+export const createConsoleLog = (limit: number = MAX_ENTRIES): ConsoleLog => {
+  let entries: ConsoleEntry[] = [];
+  const listeners = new Set<(entry: ConsoleEntry) => void>();
+
+  return {
+    add: entry => {
+      entries = [...entries, entry].slice(-limit);
+      listeners.forEach(listener => {
+        try {
+          listener(entry);
+        } catch (error) {
+          console.error('Error in console listener:', error);
+        }
+      });
+    },
+    entries: runId => runId === undefined ? [...entries] : entries.filter(entry => entry.runId === runId),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+/**
+ * Console entries as prompt text, one per line
+ */
+export const formatConsoleEntries = (entries: ConsoleEntry[]): string =>
+  entries.map(entry => `[${entry.type}] ${entry.message}`).join('\n');
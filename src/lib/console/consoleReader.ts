@@ -0,0 +1,103 @@
+/**
+ * Console reader for the Code Editor
+ *
+ * Watches the console panel with a MutationObserver and turns every entry
+ * that appears into a typed ConsoleEntry. Entries are read a moment after
+ * they appear because charts and long objects are drawn in steps.
+ */
+
+import { ConsoleEntry } from '../messaging/protocol';
+import { ChartTable, parseChartTable } from './chartTable';
+
+// Where the Code Editor writes console output
+export const CONSOLE_PANEL_SELECTORS = '.console-panel, .output-panel';
+
+// How long an added entry is left to finish drawing before it is read
+const SETTLE_MS = 250;
+
+/**
+ * Title of a chart: Google Charts put it in the first text of the drawing
+ */
+const chartTitle = (element: Element): string | null =>
+  element.querySelector('svg text')?.textContent?.trim() || null;
+
+/**
+ * Type and text of one console entry element
+ */
+export const describeConsoleElement = (element: Element): Pick<ConsoleEntry, 'type' | 'message'> | null => {
+  const text = ((element as HTMLElement).innerText ?? element.textContent ?? '').trim();
+  const classes = `${element.className} ${Array.from(element.querySelectorAll('[class]'), node => node.className).join(' ')}`;
+
+  if (element.querySelector('svg, canvas')) {
+    return { type: 'chart', message: chartTitle(element) || text || 'Chart' };
+  }
+  if (!text) return null;
+  if (/\b(error|console-error|ace_error)\b/.test(classes)) return { type: 'error', message: text };
+  if (/\bwarning\b|console-warning/.test(classes)) return { type: 'warning', message: text };
+  return { type: 'print', message: text };
+};
+
+/**
+ * Read the data table Google Charts keep beside a chart for screen readers.
+ * Returns null for drawings without one, e.g. images.
+ */
+export const readChartTable = (element: Element, runId: string | null): ChartTable | null => {
+  const table = element.querySelector('[aria-label*="tabular representation"] table') ?? element.querySelector('table');
+  if (!table) return null;
+
+  const rows = Array.from(table.querySelectorAll('tr'), row =>
+    Array.from(row.querySelectorAll('th, td'), cell => cell.textContent ?? ''));
+  // The first row holds the column labels
+  const [header, ...cells] = rows;
+  if (!header || header.length === 0) return null;
+
+  return parseChartTable(chartTitle(element) || 'Chart', header, cells, runId);
+};
+
+/**
+ * Watch a console panel, reporting entries already there and each new one.
+ * Returns a function that stops watching.
+ */
+export const watchConsolePanel = (
+  panel: Element,
+  getRunId: () => string | null,
+  onEntry: (entry: ConsoleEntry, element: Element) => void
+): (() => void) => {
+  const seen = new WeakSet<Element>();
+  const pending = new Map<Element, string | null>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    pending.forEach((runId, element) => {
+      // Entries removed in the meantime, e.g. by the next Run, are skipped
+      if (!element.isConnected) return;
+      const described = describeConsoleElement(element);
+      if (described) onEntry({ ...described, timestamp: new Date().toISOString(), runId }, element);
+    });
+    pending.clear();
+  };
+
+  const queue = (element: Element) => {
+    if (seen.has(element)) return;
+    seen.add(element);
+    // The run is noted now, before a later Run can change it
+    pending.set(element, getRunId());
+    clearTimeout(timer);
+    timer = setTimeout(flush, SETTLE_MS);
+  };
+
+  Array.from(panel.children).forEach(queue);
+  const observer = new MutationObserver(mutations => {
+    mutations.forEach(mutation => mutation.addedNodes.forEach(node => {
+      if (node instanceof Element && node.parentElement === panel) queue(node);
+    }));
+  });
+  observer.observe(panel, { childList: true });
+
+  return () => {
+    observer.disconnect();
+    clearTimeout(timer);
+    pending.clear();
+  };
+};
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AceEditor, createAceHandlers, handleBridgeCall, startPageBridge } from '../aceBridge';
+import { connectEditorBridge } from '../bridgeClient';
+import { applyEdits } from '../diff';
+import { createMapHandlers } from '../../map/mapBridge';
+import { EditorPosition, EditorRange } from '../protocol';
+
+// A small stand-in for Ace that keeps one document and a cursor
+const createFakeEditor = (initial = '') => {
+  let value = initial;
+  let cursor: EditorPosition = { row: 0, column: 0 };
+  let range: EditorRange = { start: cursor, end: cursor };
+  const history: string[] = [];
+
+  const endOf = (text: string): EditorPosition => {
+    const lines = text.split('\n');
+    return { row: lines.length - 1, column: lines[lines.length - 1].length };
+  };
+
+  const editor: AceEditor = {
+    getValue: () => value,
+    setValue: (next, cursorAt) => {
+      history.push(value);
+      value = next;
+      cursor = cursorAt === -1 ? { row: 0, column: 0 } : endOf(next);
+      range = { start: cursor, end: cursor };
+      return next;
+    },
+    getCursorPosition: () => cursor,
+    moveCursorToPosition: position => {
+      cursor = position;
+    },
+    clearSelection: () => {
+      range = { start: cursor, end: cursor };
+    },
+    getSelectionRange: () => range,
+    getSelectedText: () => value.split('\n')[range.start.row].slice(range.start.column, range.end.column),
+    selection: {
+      setSelectionRange: next => {
+        range = next;
+      }
+    },
+    insert: text => {
+      history.push(value);
+      value += text;
+      cursor = endOf(value);
+    },
+    session: {
+      replace: (replaced, text) => {
+        history.push(value);
+        value = applyEdits(value, [{ range: replaced, text }]);
+        return replaced.start;
+      }
+    },
+    undo: () => {
+      value = history.pop() ?? value;
+    },
+    redo: vi.fn()
+  };
+  return editor;
+};
+
+// A window that delivers postMessage to its own listeners, as a page does
+const createFakeWindow = () => {
+  const target = new EventTarget();
+  const win = Object.assign(target, {
+    location: { origin: 'https://code.earthengine.google.com' },
+    postMessage: (data: unknown, _origin: string, ports: MessagePort[] = []) => {
+      setTimeout(() => {
+        const event = Object.assign(new Event('message'), { data, source: win, ports });
+        target.dispatchEvent(event);
+      }, 0);
+    }
+  });
+  return win as unknown as Window;
+};
+
+describe('Editor bridge', () => {
+  it('drives the editor through the handlers', () => {
+    const editor = createFakeEditor('var a = 1;');
+    const handlers = createAceHandlers(() => editor);
+
+    handlers.setValue({ value: 'var image = ee.Image(1);\nMap.addLayer(image);' });
+    expect(handlers.getValue({})).toBe('var image = ee.Image(1);\nMap.addLayer(image);');
+    expect(handlers.getCursor({})).toEqual({ row: 1, column: 20 });
+
+    handlers.setSelection({ start: { row: 0, column: 4 }, end: { row: 0, column: 9 } });
+    expect(handlers.getSelection({})).toMatchObject({ text: 'image' });
+
+    handlers.undo({});
+    expect(handlers.getValue({})).toBe('var a = 1;');
+  });
+
+  it('applies edits from the bottom up', () => {
+    const editor = createFakeEditor('a\nb\nc');
+    const handlers = createAceHandlers(() => editor);
+
+    handlers.applyEdits({
+      edits: [
+        { range: { start: { row: 0, column: 0 }, end: { row: 1, column: 0 } }, text: 'A\n' },
+        { range: { start: { row: 2, column: 0 }, end: { row: 2, column: 1 } }, text: 'C' }
+      ]
+    });
+
+    expect(editor.getValue()).toBe('A\nb\nC');
+    expect(() => handlers.applyEdits({ edits: [{ text: 'x' }] })).toThrow('Edits need a range');
+  });
+
+  it('answers bad calls with errors instead of throwing', () => {
+    const handlers = { ...createAceHandlers(() => createFakeEditor()), ...createMapHandlers(() => null) };
+
+    expect(handleBridgeCall(handlers, { id: 1, method: 'setValue', params: { value: 42 } }))
+      .toEqual({ id: 1, ok: false, error: 'value must be a string' });
+    expect(handleBridgeCall(handlers, { id: 2, method: 'setCursor', params: { row: -1, column: 0 } }))
+      .toMatchObject({ id: 2, ok: false });
+    expect(handleBridgeCall(handlers, { id: 3, method: 'eval' as never, params: {} }))
+      .toEqual({ id: 3, ok: false, error: 'Unknown bridge method: eval' });
+    expect(handleBridgeCall({ ...handlers, ...createAceHandlers(() => null) }, { id: 4, method: 'getValue', params: {} }))
+      .toEqual({ id: 4, ok: false, error: 'The Code Editor is not ready' });
+    expect(handleBridgeCall(handlers, { id: 5, method: 'getMapView', params: {} }))
+      .toEqual({ id: 5, ok: false, error: 'The Code Editor map is not ready' });
+  });
+
+  it('connects over a MessageChannel whichever side loads first', async () => {
+    const win = createFakeWindow();
+    const editor = createFakeEditor();
+
+    // The content script asks before the page bridge is listening
+    const connecting = connectEditorBridge(win, 1000);
+    startPageBridge(win, { ...createAceHandlers(() => editor), ...createMapHandlers(() => null) });
+    const bridge = await connecting;
+
+    await bridge.setValue('print(1);');
+    expect(editor.getValue()).toBe('print(1);');
+    await expect(bridge.insert('\nprint(2);')).resolves.toEqual({ row: 1, column: 9 });
+    await expect(bridge.setCursor({ row: 1.5, column: 0 })).rejects.toThrow('Code Editor: Cursor position');
+  });
+
+  it('gives up when no page bridge answers', async () => {
+    await expect(connectEditorBridge(createFakeWindow(), 20))
+      .rejects.toThrow('The Code Editor bridge did not respond');
+  });
+});
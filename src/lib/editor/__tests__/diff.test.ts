@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyEdits, countChanges, diffLines, diffToEdits } from '../diff';
+
+const script = [
+  "var s2 = ee.ImageCollection('COPERNICUS/S2_SR')",
+  "  .filterDate('2020-01-01', '2020-12-31');",
+  'var image = s2.median();',
+  "Map.addLayer(image, {bands: ['B4', 'B3', 'B2'], max: 3000}, 'RGB');"
+].join('\n');
+
+describe('Line diffs', () => {
+  it('marks only the changed lines', () => {
+    const edited = script.replace("'2020-12-31'", "'2021-12-31'");
+
+    const lines = diffLines(script, edited);
+
+    expect(countChanges(lines)).toEqual({ added: 1, removed: 1 });
+    expect(lines.filter(line => line.type === 'same')).toHaveLength(3);
+    expect(lines.find(line => line.type === 'added')?.text).toContain('2021-12-31');
+  });
+
+  it('turns a small change into a small edit', () => {
+    const edited = script.replace('var image = s2.median();', 'var image = s2.median();\nprint(image);');
+
+    const edits = diffToEdits(script, edited);
+
+    expect(edits).toEqual([
+      { range: { start: { row: 3, column: 0 }, end: { row: 3, column: 0 } }, text: 'print(image);\n' }
+    ]);
+  });
+
+  it.each([
+    ['a change in the middle', script, script.replace('median', 'mosaic')],
+    ['lines added at the end', script, `${script}\nprint(image);\nprint(s2.size());`],
+    ['the last lines removed', script, script.split('\n').slice(0, 2).join('\n')],
+    ['lines added at the start', script, `// Sentinel-2 composite\n${script}`],
+    ['everything replaced', script, 'print(1);'],
+    ['an empty script filled', '', script]
+  ])('reproduces the new code for %s', (_label, before, edited) => {
+    expect(applyEdits(before, diffToEdits(before, edited))).toBe(edited);
+  });
+
+  it('needs no edits for identical code', () => {
+    expect(diffToEdits(script, script)).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { areaImports, formatImportsForPrompt, importsHeader, parseImportsHeader } from '../imports';
+
+const SCRIPT = [
+  'var geometry = /* color: #d63000 */ee.Geometry.Polygon(',
+  '        [[[-122.1, 37.4],',
+  '          [-122.0, 37.4],',
+  '          [-122.0, 37.5]]]),',
+  '    site = /* color: #98ff00 */ee.Geometry.Point([-122.08, 37.42]),',
+  '    s2 = ee.ImageCollection("COPERNICUS/S2_SR_HARMONIZED");',
+  '',
+  'Map.addLayer(s2.filterBounds(geometry).median());'
+].join('\n');
+
+describe('Editor imports', () => {
+  it('parses each declaration of the imports header into its name, type and kind', () => {
+    const imports = parseImportsHeader(SCRIPT);
+
+    expect(imports).toEqual([
+      { name: 'geometry', type: 'Polygon', kind: 'geometry', detail: '' },
+      { name: 'site', type: 'Point', kind: 'geometry', detail: '' },
+      { name: 's2', type: 'ImageCollection', kind: 'imageCollection', detail: '"COPERNICUS/S2_SR_HARMONIZED"' }
+    ]);
+    expect(areaImports(imports).map(entry => entry.name)).toEqual(['geometry', 'site']);
+    expect(importsHeader(SCRIPT)).toBe(SCRIPT.split('\n\n')[0]);
+  });
+
+  it("does not take the user's own declarations for imports", () => {
+    expect(parseImportsHeader('var geometry = ee.Geometry.Point([-122.08, 37.42]);\nMap.addLayer(geometry);')).toEqual([]);
+    expect(parseImportsHeader('print(1);\nvar site = /* color: #98ff00 */ee.Geometry.Point([0, 0]);')).toEqual([]);
+  });
+
+  it('lists the imports for the prompt', () => {
+    const prompt = formatImportsForPrompt(parseImportsHeader(SCRIPT));
+
+    expect(prompt).toContain('- geometry: Polygon');
+    expect(prompt).not.toContain('No geometry is drawn');
+  });
+
+  it('tells the model to define the area when no geometry is drawn', () => {
+    const prompt = formatImportsForPrompt([
+      { name: 's2', type: 'ImageCollection', kind: 'imageCollection', detail: '"COPERNICUS/S2_SR_HARMONIZED"' }
+    ]);
+
+    expect(prompt).toContain('- s2: ImageCollection "COPERNICUS/S2_SR_HARMONIZED"');
+    expect(prompt).toContain('No geometry is drawn');
+    expect(formatImportsForPrompt([])).toMatch(/^No geometry is drawn/);
+  });
+});
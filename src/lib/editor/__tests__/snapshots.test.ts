@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { clearSnapshots, listSnapshots, MAX_SNAPSHOTS, saveSnapshot } from '../snapshots';
+
+// An in-memory chrome.storage.local
+const createStorage = () => {
+  const items: Record<string, unknown> = {};
+  return {
+    get: vi.fn(async (key: string) => (key in items ? { [key]: items[key] } : {})),
+    set: vi.fn(async (values: Record<string, unknown>) => {
+      Object.assign(items, values);
+    }),
+    remove: vi.fn(async (key: string) => {
+      delete items[key];
+    })
+  };
+};
+
+describe('Editor snapshots', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', { storage: { local: createStorage() } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the newest snapshots of each tab first', async () => {
+    await saveSnapshot(1, 'print(1);', 1000);
+    await saveSnapshot(1, 'print(2);', 2000);
+    await saveSnapshot(2, 'print("other tab");', 3000);
+
+    const snapshots = await listSnapshots(1);
+    expect(snapshots.map(snapshot => snapshot.code)).toEqual(['print(2);', 'print(1);']);
+    expect(snapshots[0].savedAt).toBe(2000);
+    expect(await listSnapshots(2)).toHaveLength(1);
+  });
+
+  it('skips empty code and repeats of the newest snapshot', async () => {
+    expect(await saveSnapshot(1, '  \n')).toBeNull();
+    await saveSnapshot(1, 'print(1);');
+    expect(await saveSnapshot(1, 'print(1);')).toBeNull();
+
+    expect(await listSnapshots(1)).toHaveLength(1);
+  });
+
+  it('drops the oldest snapshots past the limit', async () => {
+    for (let i = 0; i < MAX_SNAPSHOTS + 3; i++) {
+      await saveSnapshot(1, `print(${i});`, i);
+    }
+
+    const snapshots = await listSnapshots(1);
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS);
+    expect(snapshots[MAX_SNAPSHOTS - 1].code).toBe('print(3);');
+  });
+
+  it('forgets a tab', async () => {
+    await saveSnapshot(1, 'print(1);');
+    await clearSnapshots(1);
+
+    expect(await listSnapshots(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Page side of the editor bridge
+ *
+ * Runs in the Code Editor page's world and answers calls from the content
+ * script with the real Ace editor API, so code is set as a whole document
+ * instead of being typed in, and indentation and undo history are kept.
+ */
+
+import {
+  BRIDGE_CONNECTED,
+  BRIDGE_METHODS,
+  BRIDGE_SOURCE,
+  BridgeCall,
+  BridgeHandlers,
+  BridgeHandshake,
+  BridgeReply,
+  EditorEdit,
+  EditorMethods,
+  EditorPosition,
+  EditorRange,
+  isBridgeHandshake,
+  MethodHandlers
+} from './protocol';
+
+/**
+ * The parts of the Ace editor API the bridge uses
+ */
+export interface AceEditor {
+  getValue(): string;
+  // cursor: -1 moves the cursor to the start, 1 to the end
+  setValue(value: string, cursor?: number): string;
+  getCursorPosition(): EditorPosition;
+  moveCursorToPosition(position: EditorPosition): void;
+  clearSelection(): void;
+  getSelectionRange(): EditorRange;
+  getSelectedText(): string;
+  selection: { setSelectionRange(range: EditorRange, reverse?: boolean): void };
+  insert(text: string): void;
+  session: { replace(range: EditorRange, text: string): EditorPosition };
+  undo(): void;
+  redo(): void;
+}
+
+interface AceGlobal {
+  edit(element: Element): AceEditor;
+}
+
+const isPosition = (value: unknown): value is EditorPosition =>
+  typeof value === 'object' && value !== null &&
+  Number.isInteger((value as EditorPosition).row) && (value as EditorPosition).row >= 0 &&
+  Number.isInteger((value as EditorPosition).column) && (value as EditorPosition).column >= 0;
+
+const isRange = (value: unknown): value is EditorRange =>
+  typeof value === 'object' && value !== null &&
+  isPosition((value as EditorRange).start) && isPosition((value as EditorRange).end);
+
+const isEdit = (value: unknown): value is EditorEdit =>
+  typeof value === 'object' && value !== null &&
+  isRange((value as EditorEdit).range) && typeof (value as EditorEdit).text === 'string';
+
+const comparePositions = (a: EditorPosition, b: EditorPosition): number =>
+  a.row - b.row || a.column - b.column;
+
+const readString = (params: unknown, key: string): string => {
+  const value = (params as Record<string, unknown> | null)?.[key];
+  if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+  return value;
+};
+
+/**
+ * Find the Code Editor's Ace instance on the page
+ */
+export const findPageEditor = (win: Window & { ace?: AceGlobal } = window): AceEditor | null => {
+  const element = win.document.querySelector('.ace_editor') as (Element & { env?: { editor?: AceEditor } }) | null;
+  if (!element) return null;
+  // An element that already hosts an editor keeps it on env.editor
+  if (element.env?.editor) return element.env.editor;
+  return win.ace ? win.ace.edit(element) : null;
+};
+
+/**
+ * Bridge methods implemented on an Ace editor. Parameters come from another
+ * script, so each one is checked before use.
+ */
+export const createAceHandlers = (getEditor: () => AceEditor | null): MethodHandlers<EditorMethods> => {
+  const editor = (): AceEditor => {
+    const found = getEditor();
+    if (!found) throw new Error('The Code Editor is not ready');
+    return found;
+  };
+
+  return {
+    getValue: () => editor().getValue(),
+    setValue: params => {
+      const value = readString(params, 'value');
+      const cursor = (params as { cursor?: unknown }).cursor;
+      // Replacing the document this way is a single step on the undo stack
+      editor().setValue(value, cursor === 'start' ? -1 : 1);
+      return null;
+    },
+    getCursor: () => editor().getCursorPosition(),
+    setCursor: params => {
+      if (!isPosition(params)) throw new Error('Cursor position needs whole-number row and column');
+      const target = editor();
+      target.clearSelection();
+      target.moveCursorToPosition(params);
+      return null;
+    },
+    getSelection: () => {
+      const target = editor();
+      const { start, end } = target.getSelectionRange();
+      return {
+        range: { start: { row: start.row, column: start.column }, end: { row: end.row, column: end.column } },
+        text: target.getSelectedText()
+      };
+    },
+    setSelection: params => {
+      if (!isRange(params)) throw new Error('Selection needs a start and an end position');
+      editor().selection.setSelectionRange(params);
+      return null;
+    },
+    insert: params => {
+      const target = editor();
+      target.insert(readString(params, 'text'));
+      return target.getCursorPosition();
+    },
+    applyEdits: params => {
+      const edits = (params as { edits?: unknown } | null)?.edits;
+      if (!Array.isArray(edits) || !edits.every(isEdit)) {
+        throw new Error('Edits need a range and replacement text');
+      }
+      const session = editor().session;
+      // Later edits first so the positions of earlier ones stay valid. Edits
+      // made in one go are undone together.
+      [...edits]
+        .sort((a, b) => comparePositions(b.range.start, a.range.start))
+        .forEach(edit => session.replace(edit.range, edit.text));
+      return null;
+    },
+    undo: () => {
+      editor().undo();
+      return null;
+    },
+    redo: () => {
+      editor().redo();
+      return null;
+    }
+  };
+};
+
+/**
+ * Answer one call, turning errors into error replies
+ */
+export const handleBridgeCall = (handlers: BridgeHandlers, call: BridgeCall): BridgeReply => {
+  if (!Number.isInteger(call?.id)) {
+    return { id: -1, ok: false, error: 'Call is missing its id' };
+  }
+  if (!BRIDGE_METHODS.includes(call.method)) {
+    return { id: call.id, ok: false, error: `Unknown bridge method: ${String(call.method)}` };
+  }
+  try {
+    return { id: call.id, ok: true, result: handlers[call.method](call.params ?? {}) };
+  } catch (error) {
+    return { id: call.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Serve calls on the channel the content script offers. Handshakes are only
+ * accepted from this window, and a new channel replaces the previous one so
+ * a reloaded extension can reconnect.
+ */
+export const startPageBridge = (win: Window, handlers: BridgeHandlers): void => {
+  let current: MessagePort | null = null;
+
+  win.addEventListener('message', (event: MessageEvent) => {
+    if (event.source !== win || !isBridgeHandshake(event.data, 'CONNECT')) return;
+    const port = event.ports[0];
+    if (!port) return;
+
+    current?.close();
+    current = port;
+    port.onmessage = (message: MessageEvent<BridgeCall>) => {
+      port.postMessage(handleBridgeCall(handlers, message.data));
+    };
+    port.postMessage(BRIDGE_CONNECTED);
+  });
+
+  const ready: BridgeHandshake = { source: BRIDGE_SOURCE, type: 'READY' };
+  win.postMessage(ready, win.location.origin);
+};
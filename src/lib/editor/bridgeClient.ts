@@ -0,0 +1,171 @@
+/**
+ * Content script side of the editor bridge
+ *
+ * Connects to the page bridge over a MessageChannel and exposes the Ace
+ * editor and the map as async methods. The channel keeps calls off the
+ * window but is not private: the port is handed over with a postMessage that
+ * any script in the page can also receive. That is no loss, since page
+ * scripts can reach the editor and the map directly anyway, but nothing read
+ * over the bridge should be trusted more than the page itself.
+ */
+
+import {
+  BRIDGE_CONNECTED,
+  BRIDGE_SOURCE,
+  BridgeCall,
+  BridgeHandshake,
+  BridgeMethod,
+  BridgeMethods,
+  BridgeReply,
+  EditorEdit,
+  EditorPosition,
+  EditorRange,
+  EditorSelection,
+  isBridgeHandshake,
+  LatLng,
+  MapView
+} from './protocol';
+import { MapLayer } from '../map/layers';
+
+// How long to wait for the page bridge to load and for each call
+const CONNECT_TIMEOUT_MS = 5000;
+const CALL_TIMEOUT_MS = 5000;
+
+export interface EditorBridge {
+  getValue(): Promise<string>;
+  setValue(value: string, cursor?: 'start' | 'end'): Promise<void>;
+  getCursor(): Promise<EditorPosition>;
+  setCursor(position: EditorPosition): Promise<void>;
+  getSelection(): Promise<EditorSelection>;
+  setSelection(range: EditorRange): Promise<void>;
+  insert(text: string): Promise<EditorPosition>;
+  applyEdits(edits: EditorEdit[]): Promise<void>;
+  undo(): Promise<void>;
+  redo(): Promise<void>;
+  getMapView(): Promise<MapView>;
+  setMapCenter(center: LatLng): Promise<void>;
+  getMapLayers(): Promise<MapLayer[]>;
+  setLayerVisible(index: number, visible: boolean): Promise<MapLayer[]>;
+  moveLayer(from: number, to: number): Promise<MapLayer[]>;
+}
+
+/**
+ * Make calls over a connected port, matching replies to calls by id
+ */
+const createPortCaller = (port: MessagePort) => {
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  port.onmessage = (event: MessageEvent<BridgeReply>) => {
+    const reply = event.data;
+    const call = pending.get(reply?.id);
+    if (!call) return;
+    pending.delete(reply.id);
+    if (reply.ok) {
+      call.resolve(reply.result);
+    } else {
+      call.reject(new Error(`Code Editor: ${reply.error}`));
+    }
+  };
+
+  return <M extends BridgeMethod>(method: M, params: BridgeMethods[M]['params']): Promise<BridgeMethods[M]['result']> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Code Editor did not answer ${method} within ${CALL_TIMEOUT_MS / 1000} s`));
+      }, CALL_TIMEOUT_MS);
+      pending.set(id, {
+        resolve: result => {
+          clearTimeout(timer);
+          resolve(result as BridgeMethods[M]['result']);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+      const call: BridgeCall = { id, method, params };
+      port.postMessage(call);
+    });
+};
+
+/**
+ * Connect to the page bridge. The connect message is sent right away and
+ * again whenever the bridge announces itself, since either script may load
+ * first. The bridge keeps only the newest channel, so that is the one used.
+ */
+export const connectEditorBridge = (win: Window = window, timeoutMs: number = CONNECT_TIMEOUT_MS): Promise<EditorBridge> =>
+  new Promise((resolve, reject) => {
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      win.removeEventListener('message', onWindowMessage);
+    };
+
+    let latest: MessagePort | null = null;
+
+    const offerChannel = () => {
+      const channel = new MessageChannel();
+      latest = channel.port1;
+      channel.port1.onmessage = (event: MessageEvent) => {
+        if (settled || latest !== channel.port1 || event.data !== BRIDGE_CONNECTED) return;
+        finish();
+        resolve(createEditorBridge(channel.port1));
+      };
+      const connect: BridgeHandshake = { source: BRIDGE_SOURCE, type: 'CONNECT' };
+      win.postMessage(connect, win.location.origin, [channel.port2]);
+    };
+
+    const onWindowMessage = (event: MessageEvent) => {
+      if (event.source === win && isBridgeHandshake(event.data, 'READY')) offerChannel();
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error('The Code Editor bridge did not respond. Reload the Earth Engine tab and try again.'));
+    }, timeoutMs);
+
+    win.addEventListener('message', onWindowMessage);
+    offerChannel();
+  });
+
+/**
+ * Wrap a connected port in the editor methods
+ */
+const createEditorBridge = (port: MessagePort): EditorBridge => {
+  const call = createPortCaller(port);
+  return {
+    getValue: () => call('getValue', {}),
+    setValue: async (value, cursor) => {
+      await call('setValue', { value, cursor });
+    },
+    getCursor: () => call('getCursor', {}),
+    setCursor: async position => {
+      await call('setCursor', position);
+    },
+    getSelection: () => call('getSelection', {}),
+    setSelection: async range => {
+      await call('setSelection', range);
+    },
+    insert: text => call('insert', { text }),
+    applyEdits: async edits => {
+      await call('applyEdits', { edits });
+    },
+    undo: async () => {
+      await call('undo', {});
+    },
+    redo: async () => {
+      await call('redo', {});
+    },
+    getMapView: () => call('getMapView', {}),
+    setMapCenter: async center => {
+      await call('setMapCenter', center);
+    },
+    getMapLayers: () => call('getMapLayers', {}),
+    setLayerVisible: (index, visible) => call('setLayerVisible', { index, visible }),
+    moveLayer: (from, to) => call('moveLayer', { from, to })
+  };
+};
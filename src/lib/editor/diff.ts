@@ -0,0 +1,163 @@
+/**
+ * Line diffs for Earth Engine Agent
+ *
+ * Compares the script in the Code Editor with new code, for the preview in
+ * the side panel and for turning the difference into the few edits that
+ * apply it, so the rest of a large script is left untouched.
+ */
+
+import { EditorEdit } from './protocol';
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs the changed middle is replaced as one block
+// instead of being compared line by line
+const MAX_COMPARISONS = 4_000_000;
+
+/**
+ * Diff two texts line by line, keeping the longest run of common lines
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common lines at either end need no comparison
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const same = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'same', text }));
+
+  return [
+    ...same(a.slice(0, prefix)),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...same(a.slice(a.length - suffix))
+  ];
+};
+
+/**
+ * Longest common subsequence diff of the lines that differ
+ */
+const diffMiddle = (a: string[], b: string[]): DiffLine[] => {
+  if (a.length * b.length > MAX_COMPARISONS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // common[i][j] is the number of common lines in a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || common[i][j + 1] >= common[i + 1][j])) {
+      lines.push({ type: 'added', text: b[j++] });
+    } else {
+      lines.push({ type: 'removed', text: a[i++] });
+    }
+  }
+  return lines;
+};
+
+/**
+ * Number of lines added and removed
+ */
+export const countChanges = (lines: DiffLine[]): { added: number; removed: number } => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
+
+/**
+ * The edits that turn before into after, in document order. Each edit
+ * replaces whole lines of before, so positions refer to the text as it is
+ * before any edit is applied.
+ */
+export const diffToEdits = (before: string, after: string): EditorEdit[] => {
+  const lines = before.split('\n');
+  const edits: EditorEdit[] = [];
+  const diff = diffLines(before, after);
+
+  let row = 0;
+  let index = 0;
+  while (index < diff.length) {
+    if (diff[index].type === 'same') {
+      row++;
+      index++;
+      continue;
+    }
+
+    // Collect one run of changed lines
+    const start = row;
+    const added: string[] = [];
+    while (index < diff.length && diff[index].type !== 'same') {
+      if (diff[index].type === 'removed') {
+        row++;
+      } else {
+        added.push(diff[index].text);
+      }
+      index++;
+    }
+
+    if (row < lines.length) {
+      // Replace the removed lines up to the start of the next kept line
+      edits.push({
+        range: { start: { row: start, column: 0 }, end: { row, column: 0 } },
+        text: added.map(text => `${text}\n`).join('')
+      });
+    } else if (start > 0) {
+      // At the end there is no next line, so start after the previous one
+      edits.push({
+        range: {
+          start: { row: start - 1, column: lines[start - 1].length },
+          end: { row: lines.length - 1, column: lines[lines.length - 1].length }
+        },
+        text: added.map(text => `\n${text}`).join('')
+      });
+    } else {
+      edits.push({
+        range: { start: { row: 0, column: 0 }, end: { row: lines.length - 1, column: lines[lines.length - 1].length } },
+        text: added.join('\n')
+      });
+    }
+  }
+  return edits;
+};
+
+/**
+ * Apply edits whose positions refer to the original text
+ */
+export const applyEdits = (text: string, edits: EditorEdit[]): string => {
+  const lines = text.split('\n');
+  const offsetOf = ({ row, column }: EditorEdit['range']['start']): number => {
+    let offset = 0;
+    for (let i = 0; i < row; i++) offset += lines[i].length + 1;
+    return offset + column;
+  };
+
+  // Later edits first, so earlier positions stay valid
+  return [...edits]
+    .sort((x, y) => offsetOf(y.range.start) - offsetOf(x.range.start))
+    .reduce((result, edit) =>
+      result.slice(0, offsetOf(edit.range.start)) + edit.text + result.slice(offsetOf(edit.range.end)), text);
+};
@@ -0,0 +1,95 @@
+/**
+ * Imports of the open Code Editor script
+ *
+ * Geometries drawn on the map and assets imported into a script are kept
+ * apart from the code the user writes. The Code Editor saves them as a
+ * header at the top of the script, one declaration each, with the drawn
+ * geometries marked by their display color:
+ *
+ *   var geometry = /* color: #d63000 *\/ee.Geometry.Polygon(
+ *           [[[-122.1, 37.4], [-122.0, 37.4], [-122.0, 37.5]]]),
+ *       site = /* color: #98ff00 *\/ee.Geometry.Point([-122.08, 37.42]),
+ *       s2 = ee.ImageCollection("COPERNICUS/S2_SR_HARMONIZED");
+ *
+ * That header is read here so generated code can use the variables rather
+ * than reference ones that do not exist.
+ */
+
+import { z } from 'zod';
+
+export const EditorImportSchema = z.object({
+  name: z.string(),
+  // As the Code Editor names it, e.g. "Polygon" or "ImageCollection"
+  type: z.string(),
+  kind: z.enum(['geometry', 'feature', 'featureCollection', 'image', 'imageCollection', 'table', 'other']),
+  // The asset ID of an imported asset, e.g. "COPERNICUS/S2_SR_HARMONIZED"
+  detail: z.string()
+});
+
+export type EditorImport = z.infer<typeof EditorImportSchema>;
+
+// The header is the first statement, a var declaration
+const HEADER_PATTERN = /^\s*(?:\/\/[^\n]*\n\s*)*var\s[^;]*;?/;
+// Display options the Code Editor writes before drawn geometries
+const DISPLAY_COMMENT = /\/\*\s*(?:color|shown|displayProperties)\s*:/;
+const DECLARATION_PATTERN = /(?:^|,)\s*([A-Za-z_$][\w$]*)\s*=\s*((?:\/\*[\s\S]*?\*\/\s*)*)ee\.(?:Geometry\.)?([A-Za-z]+)\s*\(\s*(?:"([^"]*)")?/g;
+
+const GEOMETRY_TYPES = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'LinearRing', 'Polygon', 'MultiPolygon', 'Rectangle', 'Geometry'];
+
+const KINDS: Record<string, EditorImport['kind']> = {
+  Feature: 'feature',
+  FeatureCollection: 'featureCollection',
+  Image: 'image',
+  ImageCollection: 'imageCollection',
+  Table: 'table'
+};
+
+/**
+ * The imports header at the top of a script, or '' when it has none. A first
+ * declaration without a drawn geometry counts as no header, since a header
+ * of assets alone cannot be told apart from the user's own code.
+ */
+export const importsHeader = (code: string): string => {
+  const header = code.match(HEADER_PATTERN)?.[0] ?? '';
+  return DISPLAY_COMMENT.test(header) ? header.trim() : '';
+};
+
+/**
+ * Parse the imports header of a script
+ */
+export const parseImportsHeader = (code: string): EditorImport[] => {
+  const header = importsHeader(code).replace(/^(?:\/\/[^\n]*\n\s*)*var\s/, '');
+  return [...header.matchAll(DECLARATION_PATTERN)].map(([, name, , type, asset]) => {
+    const geometry = GEOMETRY_TYPES.includes(type);
+    return {
+      name,
+      type,
+      kind: geometry ? 'geometry' as const : KINDS[type] ?? 'other',
+      detail: asset ? `"${asset}"` : ''
+    };
+  });
+};
+
+/**
+ * Imports that can serve as an area of interest
+ */
+export const areaImports = (imports: EditorImport[]): EditorImport[] =>
+  imports.filter(entry => ['geometry', 'feature', 'featureCollection', 'table'].includes(entry.kind));
+
+const describeImport = (entry: EditorImport): string =>
+  `- ${entry.name}: ${[entry.type, entry.detail].filter(Boolean).join(' ')}`;
+
+/**
+ * The imports as prompt text. Without an area import the model is told to
+ * define the area itself instead of using an undefined `geometry`.
+ */
+export const formatImportsForPrompt = (imports: EditorImport[]): string => {
+  const lines = imports.length > 0
+    ? ['IMPORTS (already defined in the Code Editor; use these variables as they are and do not redefine them):', ...imports.map(describeImport)]
+    : [];
+  if (areaImports(imports).length === 0) {
+    lines.push('No geometry is drawn in the Code Editor, so variables such as `geometry` are not defined. ' +
+      'Define the area of interest in the code, e.g. `var aoi = ee.Geometry.Rectangle([west, south, east, north]);` from the plan, and use that variable.');
+  }
+  return lines.join('\n');
+};
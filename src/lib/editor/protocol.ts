@@ -0,0 +1,125 @@
+/**
+ * Protocol between the content script and the page bridge
+ *
+ * The page bridge runs in the Code Editor page's own JavaScript world, where
+ * the Ace editor and the map instances live. The content script opens a
+ * MessageChannel to it: the window only carries the handshake and the port,
+ * and every call afterwards travels over the port. Page scripts share that
+ * world and can see the handshake, so the channel separates our calls from
+ * other window messages rather than hiding them.
+ */
+
+import { MapLayer } from '../map/layers';
+
+// Marks handshake messages on the window as ours
+export const BRIDGE_SOURCE = 'earth-agent-editor-bridge';
+
+export interface EditorPosition {
+  row: number;
+  column: number;
+}
+
+export interface EditorRange {
+  start: EditorPosition;
+  end: EditorPosition;
+}
+
+export interface EditorSelection {
+  range: EditorRange;
+  text: string;
+}
+
+// Replace the text in a range
+export interface EditorEdit {
+  range: EditorRange;
+  text: string;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * What the map currently shows and where it is on the page
+ */
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+  // The map element in client pixels
+  rect: { left: number; top: number; width: number; height: number };
+}
+
+/**
+ * Parameters and result of every editor method the bridge offers
+ */
+export interface EditorMethods {
+  getValue: { params: Record<string, never>; result: string };
+  // Where the cursor goes after the text is replaced
+  setValue: { params: { value: string; cursor?: 'start' | 'end' }; result: null };
+  getCursor: { params: Record<string, never>; result: EditorPosition };
+  setCursor: { params: EditorPosition; result: null };
+  getSelection: { params: Record<string, never>; result: EditorSelection };
+  setSelection: { params: EditorRange; result: null };
+  // Inserts at the cursor, replacing the selection, and returns the new cursor
+  insert: { params: { text: string }; result: EditorPosition };
+  // Edits with positions in the current document, applied as one undo step
+  applyEdits: { params: { edits: EditorEdit[] }; result: null };
+  undo: { params: Record<string, never>; result: null };
+  redo: { params: Record<string, never>; result: null };
+}
+
+/**
+ * Parameters and result of every map method the bridge offers
+ */
+export interface MapMethods {
+  getMapView: { params: Record<string, never>; result: MapView };
+  setMapCenter: { params: LatLng; result: null };
+  getMapLayers: { params: Record<string, never>; result: MapLayer[] };
+  // Both return the layers as they are afterwards
+  setLayerVisible: { params: { index: number; visible: boolean }; result: MapLayer[] };
+  moveLayer: { params: { from: number; to: number }; result: MapLayer[] };
+}
+
+export type BridgeMethods = EditorMethods & MapMethods;
+export type BridgeMethod = keyof BridgeMethods;
+
+export const BRIDGE_METHODS: BridgeMethod[] = [
+  'getValue', 'setValue', 'getCursor', 'setCursor', 'getSelection', 'setSelection', 'insert', 'applyEdits', 'undo', 'redo',
+  'getMapView', 'setMapCenter', 'getMapLayers', 'setLayerVisible', 'moveLayer'
+];
+
+/**
+ * Page-side implementations of a set of methods. Parameters come from
+ * another script, so they arrive unchecked.
+ */
+export type MethodHandlers<M> = { [K in keyof M]: (params: unknown) => M[K] extends { result: infer R } ? R : never };
+
+export type BridgeHandlers = MethodHandlers<BridgeMethods>;
+
+export interface BridgeCall {
+  id: number;
+  method: BridgeMethod;
+  params: unknown;
+}
+
+export type BridgeReply =
+  | { id: number; ok: true; result: unknown }
+  | { id: number; ok: false; error: string };
+
+/**
+ * Handshake on the window: the bridge announces READY when it loads and the
+ * content script answers with CONNECT, transferring its end of the channel
+ */
+export interface BridgeHandshake {
+  source: typeof BRIDGE_SOURCE;
+  type: 'READY' | 'CONNECT';
+}
+
+// Sent over the port once the bridge accepted the channel
+export const BRIDGE_CONNECTED = 'CONNECTED';
+
+export const isBridgeHandshake = (data: unknown, type: BridgeHandshake['type']): boolean =>
+  typeof data === 'object' && data !== null &&
+  (data as BridgeHandshake).source === BRIDGE_SOURCE &&
+  (data as BridgeHandshake).type === type;
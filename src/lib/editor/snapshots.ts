@@ -0,0 +1,61 @@
+/**
+ * Editor snapshots for Earth Engine Agent
+ *
+ * The Code Editor contents are saved before every injection so the user can
+ * roll back. Each tab keeps its own history in chrome.storage.local, newest
+ * first, and the history is dropped when the tab closes.
+ */
+
+// How many snapshots each tab keeps
+export const MAX_SNAPSHOTS = 10;
+
+export interface EditorSnapshot {
+  id: string;
+  code: string;
+  // Epoch milliseconds
+  savedAt: number;
+}
+
+const snapshotKey = (tabId: number) => `earth_agent_editor_snapshots_${tabId}`;
+
+const getStorage = (): chrome.storage.LocalStorageArea => {
+  if (typeof chrome === 'undefined' || !chrome.storage || !chrome.storage.local) {
+    throw new Error('Chrome storage API is not available');
+  }
+  return chrome.storage.local;
+};
+
+/**
+ * Snapshots saved for a tab, newest first
+ */
+export const listSnapshots = async (tabId: number): Promise<EditorSnapshot[]> => {
+  const key = snapshotKey(tabId);
+  const result = await getStorage().get(key);
+  return Array.isArray(result[key]) ? result[key] : [];
+};
+
+/**
+ * Save the editor contents for a tab. Empty code and code identical to the
+ * newest snapshot are not saved again; null is returned for those.
+ */
+export const saveSnapshot = async (
+  tabId: number,
+  code: string,
+  savedAt: number = Date.now()
+): Promise<EditorSnapshot | null> => {
+  if (!code.trim()) return null;
+
+  const snapshots = await listSnapshots(tabId);
+  if (snapshots[0]?.code === code) return null;
+
+  const snapshot: EditorSnapshot = { id: crypto.randomUUID(), code, savedAt };
+  await getStorage().set({ [snapshotKey(tabId)]: [snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS) });
+  return snapshot;
+};
+
+/**
+ * Forget every snapshot of a tab
+ */
+export const clearSnapshots = async (tabId: number): Promise<void> => {
+  await getStorage().remove(snapshotKey(tabId));
+};
@@ -0,0 +1,15 @@
+/**
+ * Finding the Earth Engine Code Editor tab from the side panel
+ */
+
+const EARTH_ENGINE_URL = 'https://code.earthengine.google.com/';
+
+/**
+ * The active tab if it shows the Code Editor, otherwise any Code Editor tab
+ */
+export const findEarthEngineTab = async (): Promise<number | undefined> => {
+  const [active] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (active?.id && active.url?.startsWith(EARTH_ENGINE_URL)) return active.id;
+  const [tab] = await chrome.tabs.query({ url: `${EARTH_ENGINE_URL}*` });
+  return tab?.id;
+};
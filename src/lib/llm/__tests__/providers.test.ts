@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createProvider, isProviderConfigured } from '../index';
+import { TransportRequest } from '../transport';
+
+const mockFetch = (body: unknown) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const messages = [
+  { role: 'system' as const, content: 'You are helpful.' },
+  { role: 'user' as const, content: 'Hello' }
+];
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends OpenAI requests with a bearer token and the configured model', async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: 'Hi' } }] });
+    const provider = createProvider({ provider: 'openai', apiKey: 'key-123', model: 'gpt-4o-mini' });
+
+    const completion = await provider.chat({ messages });
+
+    expect(completion.content).toBe('Hi');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer key-123');
+    expect(JSON.parse(init.body).model).toBe('gpt-4o-mini');
+  });
+
+  it('calls a local OpenAI-compatible server without an API key', async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: 'Hi' } }] });
+    const provider = createProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:8080/v1/' });
+
+    await provider.chat({ messages });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('addresses Azure OpenAI deployments with an api-key header', async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: 'Hi' } }] });
+    const provider = createProvider({
+      provider: 'azure-openai',
+      apiKey: 'azure-key',
+      baseUrl: 'https://example.openai.azure.com',
+      model: 'gpt4o-deploy'
+    });
+
+    await provider.chat({ messages });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.openai.azure.com/openai/deployments/gpt4o-deploy/chat/completions?api-version=2024-06-01');
+    expect(init.headers['api-key']).toBe('azure-key');
+  });
+
+  it('moves the system prompt out of the Anthropic message list', async () => {
+    const fetchMock = mockFetch({ content: [{ type: 'text', text: 'Hi' }] });
+    const provider = createProvider({ provider: 'anthropic', apiKey: 'ant-key' });
+
+    const completion = await provider.chat({ messages });
+
+    expect(completion.content).toBe('Hi');
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.system).toBe('You are helpful.');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  it('streams OpenAI tokens across chunk boundaries', async () => {
+    const usage = { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 };
+    const events = ['Hel', 'lo!'].map(token => `data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`).join('')
+      + `data: ${JSON.stringify({ choices: [], usage })}\n\n`
+      + 'data: [DONE]\n\n';
+    const transport = vi.fn(async (request: TransportRequest) => {
+      // Deliver the stream in uneven pieces that split lines apart
+      for (let i = 0; i < events.length; i += 7) {
+        request.onData!(events.slice(i, i + 7));
+      }
+      return { status: 200, ok: true, body: events };
+    });
+    const provider = createProvider({ provider: 'openai', apiKey: 'key-123' }, transport);
+    const tokens: string[] = [];
+
+    const completion = await provider.chat({ messages, onToken: token => tokens.push(token) });
+
+    expect(completion.content).toBe('Hello!');
+    expect(completion.usage).toEqual({ promptTokens: 12, completionTokens: 2 });
+    expect(tokens).toEqual(['Hel', 'lo!']);
+    const body = JSON.parse(transport.mock.calls[0][0].body);
+    expect(body.stream).toBe(true);
+    expect(body.stream_options).toEqual({ include_usage: true });
+  });
+
+  it('streams Anthropic text deltas', async () => {
+    const events = [
+      { type: 'message_start', message: { usage: { input_tokens: 20, output_tokens: 1 } } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi ' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'there' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+      { type: 'message_stop' }
+    ].map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+    const transport = vi.fn(async (request: TransportRequest) => {
+      request.onData!(events);
+      return { status: 200, ok: true, body: events };
+    });
+    const provider = createProvider({ provider: 'anthropic', apiKey: 'ant-key' }, transport);
+    const tokens: string[] = [];
+
+    const completion = await provider.chat({ messages, onToken: token => tokens.push(token) });
+
+    expect(completion.content).toBe('Hi there');
+    expect(completion.usage).toEqual({ promptTokens: 20, completionTokens: 3 });
+    expect(tokens).toEqual(['Hi ', 'there']);
+  });
+
+  it('reports HTTP errors with the provider name and status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      text: async () => 'invalid key'
+    }));
+    const provider = createProvider({ provider: 'openai', apiKey: 'bad' });
+
+    await expect(provider.chat({ messages })).rejects.toThrow('OpenAI API error: 401 - invalid key');
+  });
+
+  it('sends images as content parts in each provider format', async () => {
+    const image = { mediaType: 'image/jpeg' as const, data: 'aGVsbG8=' };
+    const withImage = [messages[0], { role: 'user' as const, content: 'Does the map look right?', images: [image] }];
+
+    const openaiFetch = mockFetch({ choices: [{ message: { content: 'Yes' } }] });
+    await createProvider({ provider: 'openai', apiKey: 'key', model: 'gpt-4o' }).chat({ messages: withImage });
+    expect(JSON.parse(openaiFetch.mock.calls[0][1].body).messages[1].content).toEqual([
+      { type: 'text', text: 'Does the map look right?' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,aGVsbG8=' } }
+    ]);
+
+    const anthropicFetch = mockFetch({ content: [{ type: 'text', text: 'Yes' }] });
+    await createProvider({ provider: 'anthropic', apiKey: 'ant-key' }).chat({ messages: withImage });
+    expect(JSON.parse(anthropicFetch.mock.calls[0][1].body).messages[0].content).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'aGVsbG8=' } },
+      { type: 'text', text: 'Does the map look right?' }
+    ]);
+  });
+
+  it('knows which models accept images', () => {
+    expect(createProvider({ provider: 'openai', apiKey: 'k', model: 'gpt-4o-mini' }).supportsImages).toBe(true);
+    expect(createProvider({ provider: 'openai', apiKey: 'k', model: 'gpt-3.5-turbo' }).supportsImages).toBe(false);
+    expect(createProvider({ provider: 'anthropic', apiKey: 'k' }).supportsImages).toBe(true);
+    expect(createProvider({ provider: 'openai-compatible' }).supportsImages).toBe(false);
+    expect(createProvider({ provider: 'openai-compatible', model: 'llava:13b' }).supportsImages).toBe(true);
+  });
+
+  it('only requires an API key for hosted providers', () => {
+    expect(isProviderConfigured({ provider: 'openai' })).toBe(false);
+    expect(isProviderConfigured({ provider: 'openai-compatible' })).toBe(true);
+    expect(isProviderConfigured({ provider: 'azure-openai', apiKey: 'k' })).toBe(false);
+  });
+});
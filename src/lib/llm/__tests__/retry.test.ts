@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backoffDelay, ModelRequestError, parseRetryAfter, withRetries } from '../retry';
+import { TransportRequest, TransportResponse } from '../transport';
+
+const request: TransportRequest = { url: 'https://api.example.com/chat', headers: {}, body: '{}' };
+const ok: TransportResponse = { status: 200, ok: true, body: '{"ok":true}' };
+const rateLimited = (retryAfter?: string): TransportResponse => ({ status: 429, ok: false, body: 'slow down', retryAfter });
+
+// No waiting between attempts unless the server asks for it
+const fast = { label: 'OpenAI', baseDelayMs: 0, random: () => 0 };
+
+describe('Model request retries', () => {
+  it('retries rate limits and waits as long as Retry-After asks', async () => {
+    const transport = vi.fn()
+      .mockResolvedValueOnce(rateLimited('0.01'))
+      .mockResolvedValueOnce(ok);
+    const onRetry = vi.fn();
+
+    const response = await withRetries(transport, { ...fast, onRetry })(request);
+
+    expect(response).toBe(ok);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith({
+      attempt: 1,
+      maxAttempts: 4,
+      delayMs: 10,
+      reason: 'OpenAI is rate limiting requests (HTTP 429)'
+    });
+  });
+
+  it('gives up with a clear error once the attempts are used up', async () => {
+    const transport = vi.fn().mockResolvedValue({ status: 503, ok: false, body: 'overloaded' });
+
+    const error = await withRetries(transport, { ...fast, maxAttempts: 3 })(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(ModelRequestError);
+    expect(error.status).toBe(503);
+    expect(error.message).toContain('OpenAI is unavailable (HTTP 503) and still failed after 3 attempts');
+    expect(transport).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns client errors without retrying', async () => {
+    const unauthorized = { status: 401, ok: false, body: 'bad key' };
+    const transport = vi.fn().mockResolvedValue(unauthorized);
+
+    expect(await withRetries(transport, fast)(request)).toBe(unauthorized);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('abandons an attempt that does not respond in time', async () => {
+    const transport = vi.fn()
+      .mockImplementationOnce(({ signal }: TransportRequest) => new Promise((_, reject) => {
+        signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+      }))
+      .mockResolvedValueOnce(ok);
+    const onRetry = vi.fn();
+
+    const response = await withRetries(transport, { ...fast, timeoutMs: 10, onRetry })(request);
+
+    expect(response).toBe(ok);
+    expect(onRetry.mock.calls[0][0].reason).toBe('OpenAI did not respond within 1 s');
+  });
+
+  it('stops at once when the server asks for a longer wait than allowed', async () => {
+    const transport = vi.fn().mockResolvedValue(rateLimited('120'));
+
+    await expect(withRetries(transport, fast)(request)).rejects.toThrow('asked to wait 120 s');
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads Retry-After dates and caps the jittered backoff', () => {
+    const now = Date.parse('2024-05-01T12:00:00Z');
+    expect(parseRetryAfter('Wed, 01 May 2024 12:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000, random: () => 1 };
+    expect([1, 2, 3, 4].map(attempt => backoffDelay(attempt, options))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
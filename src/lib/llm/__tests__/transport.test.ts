@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRecordingTransport, createReplayTransport, fixtureKey, LLMFixture } from '../transport';
+
+const request = {
+  url: 'https://api.openai.com/v1/chat/completions',
+  headers: { Authorization: 'Bearer secret' },
+  body: JSON.stringify({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hello' }] })
+};
+
+describe('LLM transport', () => {
+  it('records exchanges without request headers', async () => {
+    const fixtures: LLMFixture[] = [];
+    const inner = vi.fn().mockResolvedValue({ status: 200, ok: true, body: '{"ok":true}' });
+    const transport = createRecordingTransport(inner, fixture => fixtures.push(fixture));
+
+    await transport(request);
+
+    expect(inner).toHaveBeenCalledWith(request);
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0].key).toBe(fixtureKey(request));
+    expect(fixtures[0].request.body).toEqual({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hello' }] });
+    expect(JSON.stringify(fixtures[0])).not.toContain('secret');
+  });
+
+  it('replays responses for matching requests regardless of API key', async () => {
+    const transport = createReplayTransport([
+      { key: fixtureKey(request), request: { url: request.url, body: {} }, response: { status: 200, ok: true, body: 'first' } },
+      { key: fixtureKey(request), request: { url: request.url, body: {} }, response: { status: 200, ok: true, body: 'second' } }
+    ]);
+    const otherKey = { ...request, headers: { Authorization: 'Bearer other' } };
+
+    expect((await transport(otherKey)).body).toBe('first');
+    expect((await transport(request)).body).toBe('second');
+    expect((await transport(request)).body).toBe('second');
+  });
+
+  it('fails clearly when a request was never recorded', async () => {
+    const transport = createReplayTransport([]);
+
+    await expect(transport({ ...request, body: '{}' })).rejects.toThrow('No recorded LLM response');
+  });
+});
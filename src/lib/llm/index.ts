@@ -0,0 +1,384 @@
+/**
+ * LLM Provider Layer for Earth Engine Agent
+ *
+ * Creates chat model backends for OpenAI, Azure OpenAI, Anthropic and any
+ * OpenAI-compatible local server such as Ollama or llama.cpp.
+ */
+
+import { DEFAULT_CONFIG } from '../config';
+import { RetryOptions, withRetries } from './retry';
+import { fetchTransport, LLMTransport } from './transport';
+import { ChatCompletion, ChatMessage, ChatRequest, LLMProvider, ProviderId, ProviderSettings, TokenUsage } from './types';
+import { supportsImages } from './vision';
+
+interface ProviderDefaults {
+  label: string;
+  baseUrl: string;
+  model: string;
+  requiresApiKey: boolean;
+}
+
+// Defaults used when a setting is left empty
+export const PROVIDER_DEFAULTS: Record<ProviderId, ProviderDefaults> = {
+  'openai': {
+    label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    model: DEFAULT_CONFIG.modelName,
+    requiresApiKey: true
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    baseUrl: '',
+    model: '',
+    requiresApiKey: true
+  },
+  'anthropic': {
+    label: 'Anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    model: 'claude-3-5-sonnet-latest',
+    requiresApiKey: true
+  },
+  'openai-compatible': {
+    label: 'Local (OpenAI-compatible)',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    requiresApiKey: false
+  }
+};
+
+// Azure OpenAI REST API version used when none is configured
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+// Anthropic requires an explicit output limit
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+/**
+ * POST a JSON body and return the parsed response, throwing on HTTP errors
+ */
+const postJson = async (
+  transport: LLMTransport,
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<any> => {
+  const response = await transport({
+    url,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} - ${response.body}`);
+  }
+
+  return JSON.parse(response.body);
+};
+
+/**
+ * Split a server-sent event stream into the payloads of its data lines.
+ * Call the returned function with each chunk, then with '\n' to flush.
+ */
+const createSseReader = (onData: (data: string) => void) => {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        onData(trimmed.slice('data:'.length).trim());
+      }
+    });
+  };
+};
+
+/**
+ * POST a JSON body that requests a streamed response and pass each event on
+ */
+const postStream = async (
+  transport: LLMTransport,
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  onEvent: (event: any) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const readSse = createSseReader(data => {
+    if (data !== '[DONE]') onEvent(JSON.parse(data));
+  });
+
+  const response = await transport({
+    url,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    onData: readSse,
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.status} - ${response.body}`);
+  }
+  readSse('\n');
+};
+
+/**
+ * Remove trailing slashes so paths can be appended safely
+ */
+const trimBaseUrl = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Messages in the OpenAI format, where images go in a list of content parts
+ */
+const toOpenAIMessages = (messages: ChatMessage[]) =>
+  messages.map(({ role, content, images }) => images?.length
+    ? {
+      role,
+      content: [
+        { type: 'text', text: content },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mediaType};base64,${image.data}` } }))
+      ]
+    }
+    : { role, content });
+
+/**
+ * Messages in the Anthropic format, with images as base64 blocks before the text
+ */
+const toAnthropicMessages = (messages: ChatMessage[]) =>
+  messages.map(({ role, content, images }) => images?.length
+    ? {
+      role,
+      content: [
+        ...images.map(image => ({ type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } })),
+        { type: 'text', text: content }
+      ]
+    }
+    : { role, content });
+
+/**
+ * Read the text from an OpenAI-style chat completion
+ */
+const parseOpenAICompletion = (data: any): ChatCompletion => {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new Error('Unexpected chat completion response: missing message content');
+  }
+  return { content, usage: parseOpenAIUsage(data?.usage) };
+};
+
+/**
+ * Read an OpenAI-style usage block
+ */
+const parseOpenAIUsage = (usage: any): TokenUsage | undefined => {
+  if (typeof usage?.prompt_tokens !== 'number') return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens || 0
+  };
+};
+
+/**
+ * Send an OpenAI-style chat completion, streaming it when onToken is set.
+ * Servers that support stream_options report usage in the final event.
+ */
+const sendOpenAICompletion = async (
+  transport: LLMTransport,
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  { onToken, signal }: ChatRequest,
+  streamUsage: boolean
+): Promise<ChatCompletion> => {
+  if (!onToken) {
+    return parseOpenAICompletion(await postJson(transport, label, url, headers, body, signal));
+  }
+
+  let content = '';
+  let usage: TokenUsage | undefined;
+  const streamBody = { ...body, stream: true, ...(streamUsage ? { stream_options: { include_usage: true } } : {}) };
+  await postStream(transport, label, url, headers, streamBody, event => {
+    const token = event?.choices?.[0]?.delta?.content;
+    if (typeof token === 'string' && token) {
+      content += token;
+      onToken(token);
+    }
+    usage = parseOpenAIUsage(event?.usage) || usage;
+  }, signal);
+  return { content, usage };
+};
+
+/**
+ * OpenAI and any server that implements the same /chat/completions API
+ */
+const createOpenAIStyleProvider = (
+  id: 'openai' | 'openai-compatible',
+  settings: ProviderSettings,
+  transport: LLMTransport
+): LLMProvider => {
+  const defaults = PROVIDER_DEFAULTS[id];
+  const baseUrl = trimBaseUrl(settings.baseUrl || defaults.baseUrl);
+  const model = settings.model || defaults.model;
+
+  return {
+    id,
+    label: defaults.label,
+    model,
+    supportsImages: supportsImages(id, model),
+    chat: async (request: ChatRequest) => {
+      const headers: Record<string, string> = {};
+      if (settings.apiKey) {
+        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+      }
+
+      // Local servers may reject stream_options, so only OpenAI asks for it
+      return sendOpenAICompletion(transport, defaults.label, `${baseUrl}/chat/completions`, headers, {
+        model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? DEFAULT_CONFIG.temperature
+      }, request, id === 'openai');
+    }
+  };
+};
+
+/**
+ * Azure OpenAI, where the model setting names the deployment
+ */
+const createAzureOpenAIProvider = (settings: ProviderSettings, transport: LLMTransport): LLMProvider => {
+  const defaults = PROVIDER_DEFAULTS['azure-openai'];
+  if (!settings.baseUrl || !settings.model) {
+    throw new Error('Azure OpenAI requires a resource endpoint and a deployment name');
+  }
+  const baseUrl = trimBaseUrl(settings.baseUrl);
+  const apiVersion = settings.apiVersion || DEFAULT_AZURE_API_VERSION;
+  const url = `${baseUrl}/openai/deployments/${encodeURIComponent(settings.model)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+
+  return {
+    id: 'azure-openai',
+    label: defaults.label,
+    model: settings.model,
+    supportsImages: supportsImages('azure-openai', settings.model),
+    chat: async (request: ChatRequest) => {
+      return sendOpenAICompletion(transport, defaults.label, url, { 'api-key': settings.apiKey || '' }, {
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature ?? DEFAULT_CONFIG.temperature
+      }, request, false);
+    }
+  };
+};
+
+/**
+ * Anthropic Messages API, which takes the system prompt separately
+ */
+const createAnthropicProvider = (settings: ProviderSettings, transport: LLMTransport): LLMProvider => {
+  const defaults = PROVIDER_DEFAULTS['anthropic'];
+  const baseUrl = trimBaseUrl(settings.baseUrl || defaults.baseUrl);
+  const model = settings.model || defaults.model;
+
+  return {
+    id: 'anthropic',
+    label: defaults.label,
+    model,
+    supportsImages: supportsImages('anthropic', model),
+    chat: async ({ messages, temperature, onToken, signal }: ChatRequest) => {
+      const system = messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n\n');
+      const conversation = messages.filter(message => message.role !== 'system');
+
+      const url = `${baseUrl}/messages`;
+      const headers = {
+        'x-api-key': settings.apiKey || '',
+        'anthropic-version': '2023-06-01',
+        // Required for requests made from a browser extension page
+        'anthropic-dangerous-direct-browser-access': 'true'
+      };
+      const body = {
+        model,
+        system: system || undefined,
+        messages: toAnthropicMessages(conversation),
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        temperature: temperature ?? DEFAULT_CONFIG.temperature
+      };
+
+      if (onToken) {
+        let streamed = '';
+        const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+        await postStream(transport, defaults.label, url, headers, { ...body, stream: true }, event => {
+          if (event?.type === 'error') {
+            throw new Error(`${defaults.label} API error: ${event.error?.message || 'stream failed'}`);
+          }
+          if (event?.type === 'message_start') {
+            usage.promptTokens = event.message?.usage?.input_tokens || 0;
+          }
+          if (event?.type === 'message_delta') {
+            usage.completionTokens = event.usage?.output_tokens || usage.completionTokens;
+          }
+          if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+            streamed += event.delta.text;
+            onToken(event.delta.text);
+          }
+        }, signal);
+        return { content: streamed, usage };
+      }
+
+      const data = await postJson(transport, defaults.label, url, headers, body, signal);
+
+      const content = Array.isArray(data?.content)
+        ? data.content
+          .filter((block: any) => block.type === 'text')
+          .map((block: any) => block.text)
+          .join('')
+        : undefined;
+      if (typeof content !== 'string') {
+        throw new Error('Unexpected Anthropic response: missing message content');
+      }
+      return {
+        content,
+        usage: typeof data?.usage?.input_tokens === 'number'
+          ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens || 0 }
+          : undefined
+      };
+    }
+  };
+};
+
+/**
+ * Whether the settings contain everything the provider needs
+ */
+export const isProviderConfigured = (settings: ProviderSettings): boolean => {
+  const defaults = PROVIDER_DEFAULTS[settings.provider];
+  if (defaults.requiresApiKey && !settings.apiKey) return false;
+  if (settings.provider === 'azure-openai') return !!settings.baseUrl && !!settings.model;
+  return true;
+};
+
+/**
+ * Create the provider selected in settings. Tests pass a recording or replay
+ * transport in place of fetch. Failed requests are retried as configured.
+ */
+export const createProvider = (
+  settings: ProviderSettings,
+  baseTransport: LLMTransport = fetchTransport,
+  retry: Partial<RetryOptions> = {}
+): LLMProvider => {
+  const label = PROVIDER_DEFAULTS[settings.provider]?.label || settings.provider;
+  const transport = withRetries(baseTransport, { label, ...retry });
+
+  switch (settings.provider) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIStyleProvider(settings.provider, settings, transport);
+    case 'azure-openai':
+      return createAzureOpenAIProvider(settings, transport);
+    case 'anthropic':
+      return createAnthropicProvider(settings, transport);
+    default:
+      throw new Error(`Unknown LLM provider: ${(settings as ProviderSettings).provider}`);
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * Model prices for cost estimates
+ *
+ * Prices are in US dollars per million tokens. Users can override or add
+ * models through the priceTable setting.
+ */
+
+import { z } from 'zod';
+import { TokenUsage } from './types';
+
+export const ModelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative()
+});
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+export const PriceTableSchema = z.record(ModelPriceSchema);
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 }
+};
+
+/**
+ * Find the price for a model. Dated or suffixed names such as
+ * gpt-4o-2024-08-06 use the longest matching prefix in the table.
+ */
+export const findModelPrice = (model: string, priceTable: PriceTable): ModelPrice | undefined => {
+  if (priceTable[model]) return priceTable[model];
+
+  const prefix = Object.keys(priceTable)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? priceTable[prefix] : undefined;
+};
+
+/**
+ * Estimated cost in US dollars, or undefined when the model has no price
+ */
+export const estimateCost = (model: string, usage: TokenUsage, priceTable: PriceTable): number | undefined => {
+  const price = findModelPrice(model, priceTable);
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+};
@@ -0,0 +1,179 @@
+/**
+ * Retries for model requests
+ *
+ * Wraps a transport so that rate limits (429), server errors (5xx), timeouts
+ * and network failures are retried with exponential backoff and jitter. A
+ * Retry-After header from the server takes precedence over the backoff.
+ */
+
+import { delay, isAbortError, throwIfAborted } from '../abort';
+import { LLMTransport, TransportResponse } from './transport';
+
+export interface RetryNotice {
+  // The attempt that failed, counting from 1
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  // What went wrong, e.g. "OpenAI is rate limiting requests (HTTP 429)"
+  reason: string;
+}
+
+export interface RetryOptions {
+  // Provider name used in messages
+  label: string;
+  // Total attempts including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Longest wait between attempts. A longer Retry-After ends the retries.
+  maxDelayMs: number;
+  // Time allowed without any response data before an attempt is abandoned
+  timeoutMs: number;
+  // Called before waiting for the next attempt
+  onRetry?: (notice: RetryNotice) => void;
+  // Source of jitter, replaceable in tests
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  label: 'Model',
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 60000
+};
+
+/**
+ * A model request that failed after retrying, with a message meant for the user
+ */
+export class ModelRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ModelRequestError';
+  }
+}
+
+/**
+ * Rate limits, timeouts and server errors are worth another attempt
+ */
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+/**
+ * Read a Retry-After header given in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Exponential backoff with full jitter: a random wait up to base * 2^(attempt - 1)
+ */
+export const backoffDelay = (attempt: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs' | 'random'>): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round((options.random || Math.random)() * ceiling);
+};
+
+const describeStatus = (label: string, status: number): string =>
+  status === 429
+    ? `${label} is rate limiting requests (HTTP ${status})`
+    : `${label} is unavailable (HTTP ${status})`;
+
+const formatSeconds = (ms: number): string => `${Math.ceil(ms / 1000)} s`;
+
+type AttemptResult =
+  | { response: TransportResponse }
+  | { failure: string; retryAfterMs?: number; status?: number };
+
+/**
+ * Retry failed requests on the given transport. Non-retryable responses are
+ * returned unchanged; a request that keeps failing ends with a ModelRequestError.
+ */
+export const withRetries = (transport: LLMTransport, options: Partial<RetryOptions> = {}): LLMTransport => {
+  const settings: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  return async (request) => {
+    const { signal } = request;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+
+      // Each attempt gets its own timeout, restarted whenever data arrives
+      const controller = new AbortController();
+      let timedOut = false;
+      let received = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const startTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, settings.timeoutMs);
+      };
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      startTimer();
+
+      let result: AttemptResult;
+      try {
+        const response = await transport({
+          ...request,
+          signal: controller.signal,
+          onData: request.onData && (chunk => {
+            received = true;
+            startTimer();
+            request.onData!(chunk);
+          })
+        });
+        result = response.ok || !isRetryableStatus(response.status)
+          ? { response }
+          : {
+            failure: describeStatus(settings.label, response.status),
+            retryAfterMs: parseRetryAfter(response.retryAfter),
+            status: response.status
+          };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // A partly streamed reply cannot be retried without repeating tokens
+        if (received) {
+          throw timedOut
+            ? new ModelRequestError(`${settings.label} stopped responding for ${formatSeconds(settings.timeoutMs)} in the middle of a reply`)
+            : error;
+        }
+        if (timedOut) {
+          result = { failure: `${settings.label} did not respond within ${formatSeconds(settings.timeoutMs)}` };
+        } else if (error instanceof TypeError && !isAbortError(error)) {
+          // fetch reports network failures as TypeError
+          result = { failure: `Could not reach ${settings.label} (${error.message})` };
+        } else {
+          throw error;
+        }
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+
+      if ('response' in result) return result.response;
+
+      if (attempt >= settings.maxAttempts) {
+        throw new ModelRequestError(
+          `${result.failure} and still failed after ${settings.maxAttempts} attempts. Please wait a minute and try again.`,
+          result.status
+        );
+      }
+      if (result.retryAfterMs !== undefined && result.retryAfterMs > settings.maxDelayMs) {
+        throw new ModelRequestError(
+          `${result.failure} and asked to wait ${formatSeconds(result.retryAfterMs)}. Please try again later.`,
+          result.status
+        );
+      }
+
+      const delayMs = result.retryAfterMs ?? backoffDelay(attempt, settings);
+      settings.onRetry?.({ attempt, maxAttempts: settings.maxAttempts, delayMs, reason: result.failure });
+      await delay(delayMs, signal);
+    }
+  };
+};
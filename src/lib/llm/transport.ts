@@ -0,0 +1,143 @@
+/**
+ * HTTP transport used by the LLM providers
+ *
+ * Providers build their wire format and hand the request to a transport. The
+ * default transport calls fetch; the recording and replay transports let
+ * tests capture real model responses once and play them back offline.
+ */
+
+import { throwIfAborted } from '../abort';
+
+export interface TransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  // Serialized JSON request body
+  body: string;
+  // Receives the response text as it arrives, for streamed completions
+  onData?: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  ok: boolean;
+  // Raw response text
+  body: string;
+  // Retry-After header of an error response
+  retryAfter?: string;
+}
+
+export type LLMTransport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * A recorded request/response pair. Headers are never recorded so API keys
+ * cannot end up in fixture files.
+ */
+export interface LLMFixture {
+  key: string;
+  request: {
+    url: string;
+    body: unknown;
+  };
+  response: TransportResponse;
+}
+
+/**
+ * Send the request with fetch
+ */
+export const fetchTransport: LLMTransport = async ({ url, headers, body, onData, signal }) => {
+  const response = await fetch(url, { method: 'POST', headers, body, signal });
+
+  if (!response.ok) {
+    const retryAfter = response.headers?.get('retry-after') || undefined;
+    return { status: response.status, ok: false, body: await response.text(), retryAfter };
+  }
+
+  if (!onData || !response.body) {
+    const text = await response.text();
+    if (onData) onData(text);
+    return { status: response.status, ok: response.ok, body: text };
+  }
+
+  // Hand each chunk over as soon as it arrives
+  let text = '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = decoder.decode(value, { stream: true });
+    text += chunk;
+    onData(chunk);
+  }
+
+  return { status: response.status, ok: response.ok, body: text };
+};
+
+/**
+ * FNV-1a hash, enough to tell recorded prompts apart
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identify a request by its URL and body, ignoring headers
+ */
+export const fixtureKey = ({ url, body }: Pick<TransportRequest, 'url' | 'body'>): string =>
+  `${hashString(url)}-${hashString(body)}`;
+
+const parseBody = (body: string): unknown => {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Forward requests to another transport and report every exchange
+ */
+export const createRecordingTransport = (
+  transport: LLMTransport,
+  onRecord: (fixture: LLMFixture) => void
+): LLMTransport => async (request) => {
+  const response = await transport(request);
+  onRecord({
+    key: fixtureKey(request),
+    request: { url: request.url, body: parseBody(request.body) },
+    response
+  });
+  return response;
+};
+
+/**
+ * Answer requests from recorded fixtures. Identical requests get their
+ * recorded responses in order, and the last one is reused once they run out.
+ * Streamed responses are replayed line by line.
+ */
+export const createReplayTransport = (fixtures: LLMFixture[]): LLMTransport => {
+  const responses = new Map<string, TransportResponse[]>();
+  fixtures.forEach(fixture => {
+    responses.set(fixture.key, [...(responses.get(fixture.key) || []), fixture.response]);
+  });
+
+  return async (request) => {
+    throwIfAborted(request.signal);
+    const key = fixtureKey(request);
+    const queue = responses.get(key);
+    if (!queue || queue.length === 0) {
+      throw new Error(`No recorded LLM response for request ${key} to ${request.url}. Re-record the fixtures if the prompts changed.`);
+    }
+    const response = queue.length > 1 ? queue.shift()! : queue[0];
+    if (request.onData && response.ok) {
+      response.body.split(/(?<=\n)/).forEach(chunk => request.onData!(chunk));
+    }
+    return response;
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * Type definitions for the LLM provider layer
+ */
+
+import { z } from 'zod';
+
+export const PROVIDER_IDS = ['openai', 'azure-openai', 'anthropic', 'openai-compatible'] as const;
+
+export const ProviderSettingsSchema = z.object({
+  provider: z.enum(PROVIDER_IDS),
+  apiKey: z.string().optional(),
+  baseUrl: z.string().optional(),
+  model: z.string().optional(),
+  apiVersion: z.string().optional()
+});
+
+export type ProviderId = typeof PROVIDER_IDS[number];
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  apiKey?: string;
+  // Endpoint root, e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl?: string;
+  // Model name, or the deployment name for Azure OpenAI
+  model?: string;
+  // Azure OpenAI only
+  apiVersion?: string;
+}
+
+export interface ChatImage {
+  mediaType: 'image/png' | 'image/jpeg';
+  // Base64 without the data: prefix
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Sent along with a user message to models that accept images
+  images?: ChatImage[];
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  // When set, the completion is streamed and each piece of text is passed
+  // here as it arrives. The full text is still returned.
+  onToken?: (token: string) => void;
+  // Cancels the request
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  // Token counts reported by the provider, when it reports them
+  usage?: TokenUsage;
+}
+
+/**
+ * A chat model backend. Each provider turns a ChatRequest into its own wire
+ * format and returns plain text.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  // Human readable name used in logs
+  label: string;
+  model: string;
+  // Whether the model accepts images in user messages
+  supportsImages: boolean;
+  chat: (request: ChatRequest) => Promise<ChatCompletion>;
+}
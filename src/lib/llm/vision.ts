@@ -0,0 +1,25 @@
+/**
+ * Which chat models accept images
+ *
+ * Providers do not say whether a model takes images, so model names are
+ * matched against the families known to take them. Azure deployments are matched by
+ * their name, which usually contains the model's.
+ */
+
+import { ProviderId } from './types';
+
+const VISION_MODEL_PATTERNS: Record<ProviderId, RegExp[]> = {
+  'openai': [/gpt-4o/, /gpt-4\.1/, /gpt-4-turbo/, /gpt-5/, /^o[134](-|$)/],
+  'azure-openai': [/gpt-?4o/, /gpt-?4\.1/, /gpt-?4-turbo/, /gpt-?5/, /^o[134](-|$)/],
+  'anthropic': [/^claude-3/, /^claude-(opus|sonnet|haiku)-4/],
+  // Vision models commonly served by Ollama and llama.cpp
+  'openai-compatible': [/llava/, /bakllava/, /vision/, /[\d-]vl\b/, /minicpm-v/, /gemma3/, /moondream/, /pixtral/]
+};
+
+/**
+ * Whether images can be sent to the model
+ */
+export const supportsImages = (provider: ProviderId, model: string): boolean => {
+  const name = model.toLowerCase();
+  return VISION_MODEL_PATTERNS[provider].some(pattern => pattern.test(name));
+};
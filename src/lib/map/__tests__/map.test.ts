@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { parseInspectorText } from '../inspector';
+import { isInsideView, latLngToViewPixel } from '../projection';
+import { mapCropRegion } from '../screenshot';
+import { describeMapState, findLayer, MapLayer, parseLayerCommand } from '../layers';
+import { createMapHandlers, GoogleMap, OverlayMapType } from '../mapBridge';
+import { MapView } from '../../editor/protocol';
+
+const view: MapView = {
+  center: { lat: 0, lng: 0 },
+  zoom: 2,
+  rect: { left: 0, top: 0, width: 1024, height: 768 }
+};
+
+describe('Map projection', () => {
+  it('puts the center in the middle of the map', () => {
+    expect(latLngToViewPixel(view, view.center)).toEqual({ x: 512, y: 384 });
+  });
+
+  it('places points by Web Mercator', () => {
+    // At zoom 2 the world is 1024 pixels wide
+    const east = latLngToViewPixel(view, { lat: 0, lng: 90 });
+    expect(east.x).toBeCloseTo(768);
+    expect(east.y).toBeCloseTo(384);
+
+    const north = latLngToViewPixel(view, { lat: 45, lng: 0 });
+    expect(north.y).toBeCloseTo(384 - 1024 * Math.log(Math.tan(Math.PI / 4 + Math.PI / 8)) / (2 * Math.PI));
+  });
+
+  it('uses the copy of the world nearest the center', () => {
+    const pacific: MapView = { ...view, center: { lat: 0, lng: 170 }, zoom: 4 };
+
+    // -170 is 20 degrees east of 170 across the antimeridian
+    expect(latLngToViewPixel(pacific, { lat: 0, lng: -170 }).x).toBeCloseTo(512 + (4096 * 20) / 360);
+  });
+
+  it('tells points in view from points outside it', () => {
+    expect(isInsideView(view, latLngToViewPixel(view, { lat: 10, lng: 10 }))).toBe(true);
+    expect(isInsideView(view, latLngToViewPixel(view, { lat: 80, lng: 0 }))).toBe(false);
+  });
+});
+
+describe('Inspector parsing', () => {
+  it('reads the point, pixel values and feature properties', () => {
+    const reading = parseInspectorText([
+      'Point (-122.0850, 37.4219) at 76m/px',
+      'Pixels',
+      'Sentinel-2: Image (3 bands)',
+      'B4: 1520',
+      'B3: 1311.5',
+      'B2: null',
+      'Objects',
+      'Counties: FeatureCollection (1 element)',
+      'type: Feature',
+      'id: 00000000000000000035',
+      'properties: Object (2 properties)',
+      'NAME: Santa Clara',
+      'STATEFP: 06'
+    ].join('\n'));
+
+    expect(reading.point).toEqual({ lat: 37.4219, lng: -122.085, metersPerPixel: 76 });
+    expect(reading.pixels).toEqual([
+      { layer: 'Sentinel-2', type: 'Image (3 bands)', values: { B4: 1520, B3: 1311.5, B2: null } }
+    ]);
+    expect(reading.objects).toHaveLength(1);
+    expect(reading.objects[0]).toMatchObject({
+      layer: 'Counties',
+      type: 'FeatureCollection (1 element)',
+      values: { type: 'Feature', NAME: 'Santa Clara', STATEFP: 6 }
+    });
+  });
+
+  it('returns an empty reading for an idle Inspector', () => {
+    const reading = parseInspectorText('Click on the map to inspect the layers.');
+
+    expect(reading).toMatchObject({ point: null, pixels: [], objects: [] });
+  });
+});
+
+describe('Map screenshots', () => {
+  const rect = { left: 400, top: 60, width: 600, height: 500 };
+
+  it('scales the map rectangle to device pixels', () => {
+    expect(mapCropRegion(rect, 2, { width: 2800, height: 1600 })).toEqual({
+      sx: 800, sy: 120, sw: 1200, sh: 1000, width: 1024, height: 853
+    });
+  });
+
+  it('clips the map to the captured page', () => {
+    expect(mapCropRegion(rect, 1, { width: 900, height: 400 })).toMatchObject({ sx: 400, sw: 500, sh: 340, width: 500 });
+  });
+
+  it('rejects a map that is off screen', () => {
+    expect(() => mapCropRegion({ ...rect, left: 2000 }, 1, { width: 1200, height: 800 })).toThrow('not visible');
+  });
+});
+
+describe('Map layers', () => {
+  const layers: MapLayer[] = [
+    { index: 0, name: 'Sentinel-2 RGB', visible: true, opacity: 1 },
+    { index: 1, name: 'NDVI', visible: false, opacity: 0.7 }
+  ];
+
+  it('recognizes requests that only change layers', () => {
+    expect(parseLayerCommand('Hide the NDVI layer')).toEqual({ action: 'hide', layer: 'NDVI' });
+    expect(parseLayerCommand('please turn on the "Sentinel-2 RGB" layer.')).toEqual({ action: 'show', layer: 'Sentinel-2 RGB' });
+    expect(parseLayerCommand('Move the NDVI layer to the top')).toEqual({ action: 'move', layer: 'NDVI', to: 'top' });
+    expect(parseLayerCommand('Compute NDVI and hide the RGB layer')).toBeNull();
+  });
+
+  it('finds layers by name, part of a name or index', () => {
+    expect(findLayer(layers, 'ndvi').index).toBe(1);
+    expect(findLayer(layers, 'RGB').index).toBe(0);
+    expect(findLayer(layers, 1).name).toBe('NDVI');
+    expect(() => findLayer(layers, 'elevation')).toThrow('The layers are "Sentinel-2 RGB", "NDVI"');
+  });
+
+  it('describes the map with the top layer first', () => {
+    expect(describeMapState({ center: { lat: 36.1, lng: -112.1 }, zoom: 9, layers })).toBe([
+      'Centered on 36.1000, -112.1000 at zoom 9. Layers from top to bottom:',
+      '- NDVI: hidden',
+      '- Sentinel-2 RGB: visible, opacity 1'
+    ].join('\n'));
+  });
+
+  it('hides, shows and reorders the overlays of a Google map', () => {
+    const overlay = (name: string, opacity: number): OverlayMapType => ({
+      name,
+      getOpacity: () => opacity,
+      setOpacity: value => {
+        opacity = value;
+      }
+    });
+    const overlays = [overlay('RGB', 1), overlay('NDVI', 0.6)];
+    const map = {
+      overlayMapTypes: {
+        getLength: () => overlays.length,
+        getAt: (index: number) => overlays[index],
+        removeAt: (index: number) => overlays.splice(index, 1)[0],
+        insertAt: (index: number, mapType: OverlayMapType) => {
+          overlays.splice(index, 0, mapType);
+        }
+      }
+    } as unknown as GoogleMap;
+    const handlers = createMapHandlers(() => map);
+
+    expect(handlers.setLayerVisible({ index: 1, visible: false })[1]).toEqual({ index: 1, name: 'NDVI', visible: false, opacity: 0.6 });
+    expect(handlers.setLayerVisible({ index: 1, visible: true })[1]).toMatchObject({ visible: true, opacity: 0.6 });
+    expect(handlers.moveLayer({ from: 1, to: 0 }).map(layer => layer.name)).toEqual(['NDVI', 'RGB']);
+    expect(() => handlers.moveLayer({ from: 0, to: 5 })).toThrow('index');
+  });
+});
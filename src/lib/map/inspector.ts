@@ -0,0 +1,104 @@
+/**
+ * Inspector output of the Code Editor as data
+ *
+ * After a map click the Inspector lists the point, the pixel values of every
+ * image layer and the properties of the features under the point:
+ *
+ *   Point (-122.0850, 37.4219) at 76m/px
+ *   Pixels
+ *   Sentinel-2: Image (3 bands)
+ *   B4: 1520
+ *   Objects
+ *   Counties: FeatureCollection (1 element)
+ *   NAME: Santa Clara
+ *
+ * The panel's text is read line by line. Nested values are flattened into
+ * their layer, keyed by their own name.
+ */
+
+import { z } from 'zod';
+
+export const InspectorValueSchema = z.union([z.number(), z.string(), z.boolean(), z.null()]);
+
+export const InspectorLayerSchema = z.object({
+  layer: z.string(),
+  // As the Inspector names it, e.g. "Image (3 bands)"
+  type: z.string(),
+  values: z.record(InspectorValueSchema)
+});
+
+export const InspectorReadingSchema = z.object({
+  point: z.object({
+    lat: z.number(),
+    lng: z.number(),
+    metersPerPixel: z.number().optional()
+  }).nullable(),
+  pixels: z.array(InspectorLayerSchema),
+  objects: z.array(InspectorLayerSchema),
+  // The panel text the reading was parsed from
+  text: z.string()
+});
+
+export type InspectorValue = z.infer<typeof InspectorValueSchema>;
+export type InspectorLayer = z.infer<typeof InspectorLayerSchema>;
+export type InspectorReading = z.infer<typeof InspectorReadingSchema>;
+
+const POINT_PATTERN = /^Point \((-?[\d.]+),\s*(-?[\d.]+)\)(?: at ([\d.]+)\s*m\/px)?/;
+const LAYER_PATTERN = /^(.+?):\s*((?:Image|ImageCollection|Feature|FeatureCollection|Geometry)\b.*)$/;
+const VALUE_PATTERN = /^([^:]+):\s*(.*)$/;
+// Lines that only open a nested value, e.g. "properties: Object (5 properties)"
+const CONTAINER_PATTERN = /^(Object|List|Dictionary|Array)\b/;
+
+const parseValue = (text: string): InspectorValue => {
+  if (text === 'null' || text === '') return null;
+  if (text === 'true' || text === 'false') return text === 'true';
+  const number = Number(text);
+  return text.trim() !== '' && Number.isFinite(number) ? number : text;
+};
+
+/**
+ * Parse the Inspector panel text
+ */
+export const parseInspectorText = (text: string): InspectorReading => {
+  const reading: InspectorReading = { point: null, pixels: [], objects: [], text };
+  let section: 'pixels' | 'objects' | null = null;
+  let layer: InspectorLayer | null = null;
+
+  for (const line of text.split('\n').map(part => part.trim()).filter(Boolean)) {
+    const point = line.match(POINT_PATTERN);
+    if (point) {
+      reading.point = {
+        lng: Number(point[1]),
+        lat: Number(point[2]),
+        ...(point[3] ? { metersPerPixel: Number(point[3]) } : {})
+      };
+      continue;
+    }
+    if (/^Pixels$/i.test(line)) {
+      section = 'pixels';
+      layer = null;
+      continue;
+    }
+    if (/^Objects$/i.test(line)) {
+      section = 'objects';
+      layer = null;
+      continue;
+    }
+    if (!section) continue;
+
+    // A feature's own "type: Feature" line belongs to the layer above it
+    const header = line.match(LAYER_PATTERN);
+    if (header && !(layer && header[1] === 'type')) {
+      layer = { layer: header[1], type: header[2], values: {} };
+      reading[section].push(layer);
+      continue;
+    }
+
+    const value = line.match(VALUE_PATTERN);
+    if (layer && value && !CONTAINER_PATTERN.test(value[2])) {
+      layer.values[value[1].trim()] = parseValue(value[2].trim());
+    }
+  }
+
+  return reading;
+};
@@ -0,0 +1,118 @@
+/**
+ * Layers on the Code Editor map
+ *
+ * Every Map.addLayer() call adds an overlay to the Google Maps map. Layers
+ * are listed in drawing order: the first is at the bottom and the last is
+ * drawn on top. A hidden layer keeps its place with its opacity set to zero.
+ */
+
+import { z } from 'zod';
+
+export const MapLayerSchema = z.object({
+  // Position in drawing order, from the bottom
+  index: z.number().int().min(0),
+  name: z.string(),
+  visible: z.boolean(),
+  // Opacity the layer is drawn with when visible, from 0 to 1
+  opacity: z.number().min(0).max(1)
+});
+
+export const MapStateSchema = z.object({
+  center: z.object({ lat: z.number(), lng: z.number() }),
+  zoom: z.number(),
+  layers: z.array(MapLayerSchema)
+});
+
+export type MapLayer = z.infer<typeof MapLayerSchema>;
+export type MapState = z.infer<typeof MapStateSchema>;
+
+/**
+ * Where to move a layer: to the top or bottom of the drawing order, or to
+ * an index in it
+ */
+export type LayerPosition = 'top' | 'bottom' | number;
+
+export type LayerCommand =
+  | { action: 'hide' | 'show' | 'toggle'; layer: string }
+  | { action: 'move'; layer: string; to: 'top' | 'bottom' };
+
+// Commands make up the whole request, so "add NDVI and hide the RGB layer"
+// still goes to code generation
+const POLITE_START = String.raw`^\s*(?:please\s+|(?:can|could) you\s+)?`;
+const POLITE_END = String.raw`(?:\s+please)?\s*[.!?]?\s*$`;
+const VISIBILITY_PATTERN = new RegExp(
+  String.raw`${POLITE_START}(hide|show|toggle|turn\s+off|turn\s+on|switch\s+off|switch\s+on)\s+(?:the\s+)?["']?(.+?)["']?\s+layer${POLITE_END}`,
+  'i'
+);
+const MOVE_PATTERN = new RegExp(
+  String.raw`${POLITE_START}(?:move|bring|put|send)\s+(?:the\s+)?["']?(.+?)["']?\s+layer\s+(?:to\s+)?(?:the\s+)?(top|front|bottom|back)${POLITE_END}`,
+  'i'
+);
+
+const VISIBILITY_ACTIONS: Record<string, 'hide' | 'show' | 'toggle'> = {
+  hide: 'hide',
+  show: 'show',
+  toggle: 'toggle',
+  'turn off': 'hide',
+  'turn on': 'show',
+  'switch off': 'hide',
+  'switch on': 'show'
+};
+
+/**
+ * Recognize requests that only change the map's layers, e.g. "hide the NDVI
+ * layer" or "move the RGB layer to the top", so they need no new code
+ */
+export const parseLayerCommand = (input: string): LayerCommand | null => {
+  const move = input.match(MOVE_PATTERN);
+  if (move) {
+    return { action: 'move', layer: move[1].trim(), to: /top|front/i.test(move[2]) ? 'top' : 'bottom' };
+  }
+  const visibility = input.match(VISIBILITY_PATTERN);
+  if (visibility) {
+    return { action: VISIBILITY_ACTIONS[visibility[1].toLowerCase().replace(/\s+/g, ' ')], layer: visibility[2].trim() };
+  }
+  return null;
+};
+
+/**
+ * Find a layer by index or name: an exact name first, then a name that
+ * contains the given one or is contained in it, ignoring case
+ */
+export const findLayer = (layers: MapLayer[], layer: string | number): MapLayer => {
+  if (typeof layer === 'number') {
+    const found = layers.find(candidate => candidate.index === layer);
+    if (!found) throw new Error(`The map has no layer ${layer}`);
+    return found;
+  }
+
+  const name = layer.trim().toLowerCase();
+  const found = layers.find(candidate => candidate.name.toLowerCase() === name) ??
+    layers.find(candidate => candidate.name.toLowerCase().includes(name)) ??
+    layers.find(candidate => candidate.name && name.includes(candidate.name.toLowerCase()));
+  if (!found) {
+    const names = layers.map(candidate => `"${candidate.name}"`).join(', ');
+    throw new Error(`No map layer is named "${layer}"${names ? `. The layers are ${names}` : '. The map has no layers'}`);
+  }
+  return found;
+};
+
+/**
+ * Index a layer ends up at when moved to a position
+ */
+export const resolveLayerPosition = (layers: MapLayer[], position: LayerPosition): number => {
+  if (position === 'top') return layers.length - 1;
+  if (position === 'bottom') return 0;
+  return Math.min(Math.max(0, Math.round(position)), layers.length - 1);
+};
+
+/**
+ * The map state as prompt text, top layer first as the Layers panel lists them
+ */
+export const describeMapState = ({ center, zoom, layers }: MapState): string => {
+  const view = `Centered on ${center.lat.toFixed(4)}, ${center.lng.toFixed(4)} at zoom ${zoom}.`;
+  if (layers.length === 0) return `${view} No layers are on the map.`;
+  const listed = [...layers].reverse().map(layer =>
+    `- ${layer.name}: ${layer.visible ? `visible, opacity ${layer.opacity}` : 'hidden'}`);
+  return [`${view} Layers from top to bottom:`, ...listed].join('\n');
+};
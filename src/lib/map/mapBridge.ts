@@ -0,0 +1,166 @@
+/**
+ * Page side of the map methods of the bridge
+ *
+ * The Code Editor draws its map with the Google Maps API, which does not
+ * expose the map instance. The API keeps it among the properties of the map
+ * element, so the element and a level below are searched for it. Earth
+ * Engine layers are the map's overlay map types.
+ */
+
+import { LatLng, MapMethods, MethodHandlers } from '../editor/protocol';
+import { MapLayer } from './layers';
+
+/**
+ * The parts of a google.maps.MapType the bridge uses
+ */
+export interface OverlayMapType {
+  name?: string | null;
+  getOpacity?(): number;
+  setOpacity?(opacity: number): void;
+}
+
+/**
+ * The parts of a google.maps.Map the bridge uses
+ */
+export interface GoogleMap {
+  getCenter(): { lat(): number; lng(): number } | undefined;
+  getZoom(): number | undefined;
+  getDiv(): Element;
+  setCenter(center: LatLng): void;
+  overlayMapTypes: {
+    getLength(): number;
+    getAt(index: number): OverlayMapType | null | undefined;
+    removeAt(index: number): OverlayMapType | null | undefined;
+    insertAt(index: number, mapType: OverlayMapType | null | undefined): void;
+  };
+}
+
+type MapWindow = Window & { google?: { maps?: { Map?: new (...args: any[]) => GoogleMap } } };
+
+/**
+ * Look through an object's own values, and the values of those, for a map
+ */
+const findMapIn = (holder: object, MapClass: Function): GoogleMap | null => {
+  for (const value of Object.values(holder)) {
+    if (value instanceof MapClass) return value as GoogleMap;
+  }
+  for (const value of Object.values(holder)) {
+    if (typeof value !== 'object' || value === null) continue;
+    for (const inner of Object.values(value)) {
+      if (inner instanceof MapClass) return inner as GoogleMap;
+    }
+  }
+  return null;
+};
+
+/**
+ * Find the Code Editor's map, preferring one that is on screen
+ */
+export const findPageMap = (win: MapWindow = window): GoogleMap | null => {
+  const MapClass = win.google?.maps?.Map;
+  if (!MapClass) return null;
+
+  const found: GoogleMap[] = [];
+  win.document.querySelectorAll('.gm-style').forEach(element => {
+    // The element the map was created on wraps .gm-style
+    let node = element.parentElement;
+    for (let depth = 0; node && depth < 3; depth++, node = node.parentElement) {
+      const map = findMapIn(node, MapClass);
+      if (map) {
+        found.push(map);
+        return;
+      }
+    }
+  });
+
+  return found.find(map => {
+    const { width, height } = map.getDiv().getBoundingClientRect();
+    return width > 0 && height > 0;
+  }) ?? found[0] ?? null;
+};
+
+const isLatLng = (value: unknown): value is LatLng =>
+  typeof value === 'object' && value !== null &&
+  Number.isFinite((value as LatLng).lat) && Math.abs((value as LatLng).lat) <= 90 &&
+  Number.isFinite((value as LatLng).lng) && Math.abs((value as LatLng).lng) <= 180;
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+/**
+ * Bridge methods implemented on a Google Maps map
+ */
+export const createMapHandlers = (getMap: () => GoogleMap | null): MethodHandlers<MapMethods> => {
+  // Opacity of the layers hidden through the bridge, restored when shown
+  const hiddenOpacity = new WeakMap<OverlayMapType, number>();
+
+  const map = (): GoogleMap => {
+    const found = getMap();
+    if (!found) throw new Error('The Code Editor map is not ready');
+    return found;
+  };
+
+  const listLayers = (): MapLayer[] => {
+    const overlays = map().overlayMapTypes;
+    const layers: MapLayer[] = [];
+    for (let index = 0; index < overlays.getLength(); index++) {
+      const overlay = overlays.getAt(index);
+      const opacity = overlay?.getOpacity?.() ?? 1;
+      const restored = overlay ? hiddenOpacity.get(overlay) : undefined;
+      layers.push({
+        index,
+        name: overlay?.name || `Layer ${index + 1}`,
+        visible: !!overlay && opacity > 0,
+        opacity: opacity > 0 ? opacity : restored ?? 0
+      });
+    }
+    return layers;
+  };
+
+  return {
+    getMapView: () => {
+      const target = map();
+      const center = target.getCenter();
+      const zoom = target.getZoom();
+      if (!center || zoom === undefined) throw new Error('The map has not been positioned yet');
+      const { left, top, width, height } = target.getDiv().getBoundingClientRect();
+      return { center: { lat: center.lat(), lng: center.lng() }, zoom, rect: { left, top, width, height } };
+    },
+    setMapCenter: params => {
+      if (!isLatLng(params)) throw new Error('Map center needs a latitude and longitude in degrees');
+      map().setCenter({ lat: params.lat, lng: params.lng });
+      return null;
+    },
+    getMapLayers: listLayers,
+    setLayerVisible: params => {
+      const { index, visible } = (params ?? {}) as { index?: unknown; visible?: unknown };
+      const overlays = map().overlayMapTypes;
+      if (!isIndex(index, overlays.getLength()) || typeof visible !== 'boolean') {
+        throw new Error('Layer visibility needs a layer index and true or false');
+      }
+      const overlay = overlays.getAt(index);
+      if (!overlay?.setOpacity || !overlay.getOpacity) throw new Error(`Layer ${index} cannot be shown or hidden`);
+
+      const opacity = overlay.getOpacity();
+      if (!visible && opacity > 0) {
+        hiddenOpacity.set(overlay, opacity);
+        overlay.setOpacity(0);
+      } else if (visible && opacity === 0) {
+        overlay.setOpacity(hiddenOpacity.get(overlay) ?? 1);
+        hiddenOpacity.delete(overlay);
+      }
+      return listLayers();
+    },
+    moveLayer: params => {
+      const { from, to } = (params ?? {}) as { from?: unknown; to?: unknown };
+      const overlays = map().overlayMapTypes;
+      if (!isIndex(from, overlays.getLength()) || !isIndex(to, overlays.getLength())) {
+        throw new Error('Moving a layer needs the index it is at and the index to move it to');
+      }
+      if (from !== to) {
+        overlays.insertAt(to, overlays.removeAt(from));
+      }
+      return listLayers();
+    }
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * Web Mercator projection for the Code Editor map
+ *
+ * Converts coordinates to pixels on the current map view, the same way
+ * Google Maps places them.
+ */
+
+import { LatLng, MapView } from '../editor/protocol';
+
+// Size of the whole world at zoom 0
+const TILE_SIZE = 256;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * World coordinates of a point at zoom 0
+ */
+export const projectToWorld = ({ lat, lng }: LatLng): PixelPoint => {
+  // Mercator is undefined at the poles, so clamp just short of them
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: TILE_SIZE * (0.5 + lng / 360),
+    y: TILE_SIZE * (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI))
+  };
+};
+
+/**
+ * Pixel of a point relative to the map element's top-left corner. Of the
+ * world's repeated copies the one nearest the center is used.
+ */
+export const latLngToViewPixel = (view: MapView, point: LatLng): PixelPoint => {
+  const scale = 2 ** view.zoom;
+  const worldWidth = TILE_SIZE * scale;
+  const target = projectToWorld(point);
+  const center = projectToWorld(view.center);
+
+  let dx = (target.x - center.x) * scale;
+  dx = ((dx % worldWidth) + worldWidth * 1.5) % worldWidth - worldWidth / 2;
+  const dy = (target.y - center.y) * scale;
+
+  return { x: view.rect.width / 2 + dx, y: view.rect.height / 2 + dy };
+};
+
+/**
+ * Whether a pixel from latLngToViewPixel lies inside the map, keeping a
+ * margin clear of the map controls along the edges
+ */
+export const isInsideView = (view: MapView, pixel: PixelPoint, margin: number = 40): boolean => {
+  return pixel.x >= margin && pixel.x <= view.rect.width - margin &&
+    pixel.y >= margin && pixel.y <= view.rect.height - margin;
+};
@@ -0,0 +1,97 @@
+/**
+ * Screenshots of the Code Editor map
+ *
+ * chrome.tabs.captureVisibleTab returns the whole visible page in device
+ * pixels. The map element's client rectangle is scaled to match, cut out
+ * and shrunk so the image stays small enough to send to a model.
+ */
+
+import { z } from 'zod';
+import { MapView } from '../editor/protocol';
+
+// Widest image kept; larger maps are scaled down
+export const MAX_SCREENSHOT_WIDTH = 1024;
+
+const JPEG_QUALITY = 0.8;
+
+export const MapScreenshotSchema = z.object({
+  mediaType: z.enum(['image/png', 'image/jpeg']),
+  // Base64 without the data: prefix
+  data: z.string(),
+  width: z.number(),
+  height: z.number(),
+  capturedAt: z.string()
+});
+
+export type MapScreenshot = z.infer<typeof MapScreenshotSchema>;
+
+export interface CropRegion {
+  // Source rectangle in screenshot pixels
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  // Size of the resulting image
+  width: number;
+  height: number;
+}
+
+/**
+ * The part of a screenshot the map covers, clipped to the screenshot
+ */
+export const mapCropRegion = (
+  rect: MapView['rect'],
+  devicePixelRatio: number,
+  imageSize: { width: number; height: number },
+  maxWidth: number = MAX_SCREENSHOT_WIDTH
+): CropRegion => {
+  const sx = Math.max(0, Math.round(rect.left * devicePixelRatio));
+  const sy = Math.max(0, Math.round(rect.top * devicePixelRatio));
+  const sw = Math.min(imageSize.width, Math.round((rect.left + rect.width) * devicePixelRatio)) - sx;
+  const sh = Math.min(imageSize.height, Math.round((rect.top + rect.height) * devicePixelRatio)) - sy;
+  if (sw <= 0 || sh <= 0) {
+    throw new Error('The map is not visible on the page');
+  }
+
+  const scale = Math.min(1, maxWidth / sw);
+  return { sx, sy, sw, sh, width: Math.round(sw * scale), height: Math.round(sh * scale) };
+};
+
+const toBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images do not overflow the argument list
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Cut the map out of a captured page and encode it as JPEG
+ */
+export const cropMapScreenshot = async (
+  dataUrl: string,
+  rect: MapView['rect'],
+  devicePixelRatio: number
+): Promise<MapScreenshot> => {
+  const page = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  try {
+    const region = mapCropRegion(rect, devicePixelRatio, page);
+    const canvas = new OffscreenCanvas(region.width, region.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not draw the map screenshot');
+    context.drawImage(page, region.sx, region.sy, region.sw, region.sh, 0, 0, region.width, region.height);
+
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+    return {
+      mediaType: 'image/jpeg',
+      data: await toBase64(blob),
+      width: region.width,
+      height: region.height,
+      capturedAt: new Date().toISOString()
+    };
+  } finally {
+    page.close();
+  }
+};
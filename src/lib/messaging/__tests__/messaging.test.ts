@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { delay } from '../../abort';
+import { createMessageHandler, MessageError, sendToTab } from '../index';
+import { ContentRequestSchema, ContentResponseSchemas } from '../protocol';
+
+const runCode = vi.fn(async (code: string, _signal?: AbortSignal) => `ran ${code.length} characters`);
+
+const consoleError = {
+  type: 'error' as const,
+  message: 'Line 3: x is not defined',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  runId: 'run-1'
+};
+
+// The content script side of the protocol
+const contentHandler = createMessageHandler(ContentRequestSchema, ContentResponseSchemas, {
+  RUN_CODE: async ({ code, runId }, _sender, signal) => ({ result: await runCode(code, signal), runId: runId || 'run-1' }),
+  INSPECT_MAP: async () => ({ data: { point: null, pixels: [], objects: [], text: '' } }),
+  GET_MAP_VIEW: async () => ({
+    view: { center: { lat: 0, lng: 0 }, zoom: 3, rect: { left: 0, top: 0, width: 800, height: 600 } },
+    devicePixelRatio: 1
+  }),
+  GET_MAP_STATE: async () => ({ center: { lat: 0, lng: 0 }, zoom: 3, layers: [] }),
+  SET_LAYER_VISIBILITY: async () => ({ layers: [] }),
+  MOVE_LAYER: async () => ({ layers: [] }),
+  CHECK_CONSOLE: async () => ({ entries: [consoleError] }),
+  GET_CHART_DATA: async () => ({ charts: [] }),
+  GET_TASKS: async () => ({ tasks: [] }),
+  EDIT_SCRIPT: async () => {
+    throw new Error('Script is read-only');
+  },
+  GET_EDITOR_CODE: async () => ({ code: '' }),
+  GET_EDITOR_IMPORTS: async () => ({ imports: [] }),
+  SET_EDITOR_CODE: async () => ({ message: 'Code set' }),
+  CHECK_PAGE: async () => ({ isEarthEnginePage: true })
+});
+
+// Deliver tab messages straight to the handler, as chrome would
+const sendMessage = vi.fn((_tabId: number, message: unknown, callback: (response: unknown) => void) => {
+  contentHandler(message, {}, callback);
+});
+
+describe('Extension messaging', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', { tabs: { sendMessage }, runtime: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('returns the typed data of a successful response', async () => {
+    const response = await sendToTab(1, 'CHECK_CONSOLE', {});
+
+    expect(response.entries[0]).toEqual(consoleError);
+    const request = sendMessage.mock.calls[0][1] as { type: string; requestId: string };
+    expect(request.type).toBe('CHECK_CONSOLE');
+    expect(request.requestId).toBeTruthy();
+  });
+
+  it('rejects a misspelled field before sending', async () => {
+    const error = await sendToTab(1, 'RUN_CODE', { cod: 'print(1)' } as never).catch(e => e);
+
+    expect(error).toBeInstanceOf(MessageError);
+    expect(error.reason).toBe('invalid');
+    expect(error.message).toContain('Invalid RUN_CODE request');
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('answers malformed messages with an error', () => {
+    const sendResponse = vi.fn();
+
+    contentHandler({ type: 'RUN_CODE', requestId: 'abc', script: 'print(1)' }, {}, sendResponse);
+
+    expect(sendResponse).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'abc', success: false }));
+    expect(runCode).not.toHaveBeenCalled();
+  });
+
+  it('passes handler errors back to the sender', async () => {
+    await expect(sendToTab(1, 'EDIT_SCRIPT', { scriptId: 'users/me/ndvi', content: '' }))
+      .rejects.toMatchObject({ reason: 'failed', message: 'Script is read-only' });
+  });
+
+  it('rejects responses that belong to another request', async () => {
+    sendMessage.mockImplementationOnce((_tabId, _message, callback) => {
+      callback({ requestId: 'someone-else', success: true, data: { isEarthEnginePage: true } });
+    });
+
+    await expect(sendToTab(1, 'CHECK_PAGE', {})).rejects.toThrow('belongs to another request');
+  });
+
+  it('times out when no response arrives', async () => {
+    sendMessage.mockImplementationOnce(() => {});
+
+    await expect(sendToTab(1, 'CHECK_PAGE', {}, { timeoutMs: 10 }))
+      .rejects.toMatchObject({ reason: 'timeout', message: 'CHECK_PAGE got no response within 1 s' });
+  });
+
+  it('cancels the work at the receiver when the sender aborts', async () => {
+    const stopped = new Promise<void>(resolve => {
+      runCode.mockImplementationOnce((_code, signal) => new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => {
+          resolve();
+          reject(new Error('Run cancelled'));
+        });
+      }));
+    });
+    const controller = new AbortController();
+
+    const running = sendToTab(1, 'RUN_CODE', { code: 'print(1)' }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+    await stopped;
+    const request = sendMessage.mock.calls[0][1] as { requestId: string };
+    expect(sendMessage.mock.calls[1][1]).toMatchObject({ type: 'CANCEL_REQUEST', targetRequestId: request.requestId });
+  });
+
+  it('clears the timer of a cancelled delay', async () => {
+    vi.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const waiting = delay(60000, controller.signal);
+      controller.abort();
+
+      await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
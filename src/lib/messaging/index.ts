@@ -0,0 +1,285 @@
+/**
+ * Typed messaging for Earth Agent
+ *
+ * Senders validate a request before it leaves, wait for the matching
+ * response with a timeout and validate what comes back. A request the sender
+ * stops waiting for is cancelled at the receiver as well. Receivers validate
+ * incoming requests and answer with a response envelope.
+ */
+
+import { z } from 'zod';
+import { abortable, throwIfAborted } from '../abort';
+import {
+  BackgroundRequest,
+  BackgroundRequestSchema,
+  BackgroundRequestType,
+  BackgroundResponse,
+  BackgroundResponseSchemas,
+  CancelRequestSchema,
+  ContentRequest,
+  ContentRequestSchema,
+  ContentRequestType,
+  ContentResponse,
+  ContentResponseSchemas,
+  DEFAULT_TIMEOUT_MS,
+  REQUEST_TIMEOUTS_MS,
+  RequestPayload,
+  ResponseEnvelope,
+  ResponseEnvelopeSchema
+} from './protocol';
+
+export interface SendOptions {
+  // Overrides the default timeout of the request type
+  timeoutMs?: number;
+  // Stop waiting for the response once aborted, and cancel the request
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a request failed: it or its response did not match the protocol, it
+ * could not be delivered, no response came in time, or the receiver failed
+ */
+export type MessageErrorReason = 'invalid' | 'unreachable' | 'timeout' | 'failed';
+
+/**
+ * A request that was invalid, timed out or was answered with an error
+ */
+export class MessageError extends Error {
+  constructor(message: string, readonly reason: MessageErrorReason, readonly requestId?: string) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => `${issue.path.join('.') || 'message'}: ${issue.message}`)
+    .join('; ');
+
+export const createRequestId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Reject when the promise takes longer than the given time
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new MessageError(message, 'timeout')), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Validate, deliver and await one request, returning the validated data
+ */
+const sendRequest = async (
+  requestSchema: z.ZodTypeAny,
+  responseSchema: z.ZodTypeAny,
+  type: string,
+  payload: object,
+  deliver: (message: unknown) => Promise<unknown>,
+  { timeoutMs, signal }: SendOptions
+): Promise<any> => {
+  const requestId = createRequestId();
+  const message = requestSchema.safeParse({ ...payload, type, requestId });
+  if (!message.success) {
+    throw new MessageError(`Invalid ${type} request: ${describeIssues(message.error)}`, 'invalid', requestId);
+  }
+
+  const timeout = timeoutMs ?? REQUEST_TIMEOUTS_MS[type as keyof typeof REQUEST_TIMEOUTS_MS] ?? DEFAULT_TIMEOUT_MS;
+  throwIfAborted(signal);
+  // Tell the receiver to stop a request nobody waits for any more
+  const cancel = () => {
+    deliver({ type: 'CANCEL_REQUEST', requestId: createRequestId(), targetRequestId: requestId })
+      .catch(error => console.warn(`Could not cancel ${type}:`, error));
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  let raw: unknown;
+  try {
+    raw = await abortable(
+      withTimeout(deliver(message.data), timeout, `${type} got no response within ${Math.ceil(timeout / 1000)} s`),
+      signal
+    );
+  } catch (error) {
+    if (error instanceof MessageError && error.reason === 'timeout') cancel();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  const envelope = ResponseEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new MessageError(`Invalid response to ${type}: ${describeIssues(envelope.error)}`, 'invalid', requestId);
+  }
+  if (envelope.data.requestId !== requestId) {
+    throw new MessageError(`Response to ${type} belongs to another request (${envelope.data.requestId})`, 'invalid', requestId);
+  }
+  if (!envelope.data.success) {
+    throw new MessageError(envelope.data.error, 'failed', requestId);
+  }
+
+  const data = responseSchema.safeParse(envelope.data.data);
+  if (!data.success) {
+    throw new MessageError(`Invalid response to ${type}: ${describeIssues(data.error)}`, 'invalid', requestId);
+  }
+  return data.data;
+};
+
+/**
+ * Turn a chrome callback into a promise, surfacing chrome.runtime.lastError
+ */
+const chromeCallback = (send: (callback: (response: unknown) => void) => void): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    send(response => {
+      if (chrome.runtime.lastError) {
+        reject(new MessageError(chrome.runtime.lastError.message || 'Could not deliver the message', 'unreachable'));
+        return;
+      }
+      resolve(response);
+    });
+  });
+
+/**
+ * Send a request to the content script in a tab
+ */
+export const sendToTab = <T extends ContentRequestType>(
+  tabId: number,
+  type: T,
+  payload: RequestPayload<ContentRequest, T>,
+  options: SendOptions = {}
+): Promise<ContentResponse<T>> =>
+  sendRequest(
+    ContentRequestSchema,
+    ContentResponseSchemas[type],
+    type,
+    payload,
+    message => chromeCallback(callback => chrome.tabs.sendMessage(tabId, message, callback)),
+    options
+  );
+
+/**
+ * Send a request to the background service worker
+ */
+export const sendToBackground = <T extends BackgroundRequestType>(
+  type: T,
+  payload: RequestPayload<BackgroundRequest, T>,
+  options: SendOptions = {}
+): Promise<BackgroundResponse<T>> =>
+  sendRequest(
+    BackgroundRequestSchema,
+    BackgroundResponseSchemas[type],
+    type,
+    payload,
+    message => chromeCallback(callback => chrome.runtime.sendMessage(message, callback)),
+    options
+  );
+
+/**
+ * Open a port to the content script in a tab and pass on each message that
+ * matches the schema. Returns a function that closes the port.
+ */
+export const connectToTab = <S extends z.ZodTypeAny>(
+  tabId: number,
+  name: string,
+  schema: S,
+  onMessage: (message: z.infer<S>) => void,
+  onDisconnect?: () => void
+): (() => void) => {
+  const port = chrome.tabs.connect(tabId, { name });
+  port.onMessage.addListener((message: unknown) => {
+    const parsed = schema.safeParse(message);
+    if (parsed.success) {
+      onMessage(parsed.data);
+    } else {
+      console.warn(`Ignoring invalid message on ${name}: ${describeIssues(parsed.error)}`);
+    }
+  });
+  port.onDisconnect.addListener(() => {
+    // Reading lastError keeps chrome from logging a closed tab as unchecked
+    void chrome.runtime.lastError;
+    onDisconnect?.();
+  });
+  return () => port.disconnect();
+};
+
+type RequestHandlers<R extends { type: string }, S extends Record<R['type'], z.ZodTypeAny>> = {
+  [T in R['type']]: (
+    request: Extract<R, { type: T }>,
+    sender: chrome.runtime.MessageSender,
+    // Aborted when the sender cancels the request
+    signal: AbortSignal
+  ) => Promise<z.infer<S[T]>>;
+};
+
+/**
+ * Create a chrome.runtime.onMessage listener that validates requests, runs
+ * the handler for their type and answers with a response envelope. A
+ * CANCEL_REQUEST aborts the signal of the request it names.
+ */
+export const createMessageHandler = <
+  R extends { type: string; requestId: string },
+  S extends Record<R['type'], z.ZodTypeAny>
+>(
+  requestSchema: z.ZodType<R>,
+  responseSchemas: S,
+  handlers: RequestHandlers<R, S>
+) => {
+  // Requests being handled, by request ID
+  const running = new Map<string, AbortController>();
+
+  return (
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: ResponseEnvelope) => void
+  ): boolean => {
+    const cancel = CancelRequestSchema.safeParse(message);
+    if (cancel.success) {
+      const controller = running.get(cancel.data.targetRequestId);
+      controller?.abort();
+      sendResponse({ requestId: cancel.data.requestId, success: true, data: { cancelled: !!controller } });
+      return false;
+    }
+
+    const parsed = requestSchema.safeParse(message);
+    if (!parsed.success) {
+      const requestId = (message as { requestId?: unknown } | null)?.requestId;
+      sendResponse({
+        requestId: typeof requestId === 'string' ? requestId : '',
+        success: false,
+        error: `Invalid message: ${describeIssues(parsed.error)}`
+      });
+      return false;
+    }
+
+    const request = parsed.data;
+    const type = request.type as R['type'];
+    const handler = handlers[type] as unknown as (
+      request: R,
+      sender: chrome.runtime.MessageSender,
+      signal: AbortSignal
+    ) => Promise<unknown>;
+    const controller = new AbortController();
+    running.set(request.requestId, controller);
+    handler(request, sender, controller.signal)
+      .then(data => sendResponse({ requestId: request.requestId, success: true, data: responseSchemas[type].parse(data) }))
+      .catch(error => sendResponse({
+        requestId: request.requestId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      }))
+      .finally(() => running.delete(request.requestId));
+    // The response is sent asynchronously
+    return true;
+  };
+};
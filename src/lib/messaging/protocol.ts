@@ -0,0 +1,165 @@
+/**
+ * Message protocol between the side panel, the background script and the
+ * content script
+ *
+ * Every request is a strict zod object with a type and a request ID, so a
+ * misspelled field is rejected instead of arriving as undefined. Each request
+ * type has a schema for the data its successful response carries.
+ */
+
+import { z } from 'zod';
+import { ChartTableSchema } from '../console/chartTable';
+import { EditorImportSchema } from '../editor/imports';
+import { InspectorReadingSchema } from '../map/inspector';
+import { MapLayerSchema, MapStateSchema } from '../map/layers';
+
+const request = <T extends string, S extends z.ZodRawShape>(type: T, shape: S) =>
+  z.object({ type: z.literal(type), requestId: z.string().min(1), ...shape }).strict();
+
+export const CoordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180)
+});
+
+export const MapViewSchema = z.object({
+  center: CoordinatesSchema,
+  zoom: z.number(),
+  // The map element in client pixels
+  rect: z.object({ left: z.number(), top: z.number(), width: z.number(), height: z.number() })
+});
+
+const LayerRefSchema = z.union([z.string().min(1), z.number().int().min(0)]);
+
+// What the Earth Engine console showed: print() output, an error, a
+// warning or a chart
+export const ConsoleEntryTypeSchema = z.enum(['print', 'error', 'warning', 'chart']);
+
+export const ConsoleEntrySchema = z.object({
+  type: ConsoleEntryTypeSchema,
+  message: z.string(),
+  // ISO time the entry appeared
+  timestamp: z.string(),
+  // The run that produced it, or null when it was already there
+  runId: z.string().nullable()
+});
+
+// How code goes into the editor: replacing the script, after it, at the
+// cursor, or as the edits that turn the script into the code
+export const InjectionModeSchema = z.enum(['replace', 'append', 'insert', 'diff']);
+
+// Code to inject. A diff is only applied while the script still matches the
+// base it was previewed against.
+const injection = {
+  code: z.string().min(1),
+  mode: InjectionModeSchema.optional(),
+  base: z.string().optional(),
+  // Tags the console entries of the run; one is made up when missing
+  runId: z.string().min(1).optional()
+};
+
+export const TaskSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  state: z.string(),
+  created: z.string(),
+  type: z.string()
+});
+
+// Sent by the sender of a request that is no longer wanted, e.g. after Stop,
+// so the receiver stops working on it too. Every receiver made with
+// createMessageHandler answers it.
+export const CancelRequestSchema = request('CANCEL_REQUEST', { targetRequestId: z.string().min(1) });
+
+// Requests handled by the content script in the Earth Engine Code Editor tab
+export const ContentRequestSchema = z.discriminatedUnion('type', [
+  request('RUN_CODE', injection),
+  request('INSPECT_MAP', { coordinates: CoordinatesSchema.optional() }),
+  // Where the map is and what it shows, to crop a screenshot to it
+  request('GET_MAP_VIEW', {}),
+  request('GET_MAP_STATE', {}),
+  // Layers are named, or given by their index from the bottom
+  request('SET_LAYER_VISIBILITY', { layer: LayerRefSchema, visible: z.boolean() }),
+  request('MOVE_LAYER', { layer: LayerRefSchema, to: z.union([z.enum(['top', 'bottom']), z.number().int().min(0)]) }),
+  // Entries of one run, or every entry seen since the page loaded
+  request('CHECK_CONSOLE', { runId: z.string().min(1).optional() }),
+  // Data tables of the charts in the console, of one run or all of them
+  request('GET_CHART_DATA', { runId: z.string().min(1).optional() }),
+  request('GET_TASKS', {}),
+  request('EDIT_SCRIPT', { scriptId: z.string().min(1), content: z.string() }),
+  request('GET_EDITOR_CODE', {}),
+  // Drawn geometries and imported assets listed above the script
+  request('GET_EDITOR_IMPORTS', {}),
+  request('SET_EDITOR_CODE', { code: z.string() }),
+  request('CHECK_PAGE', {})
+]);
+
+export const ContentResponseSchemas = {
+  RUN_CODE: z.object({ result: z.string(), runId: z.string() }),
+  INSPECT_MAP: z.object({ data: InspectorReadingSchema }),
+  GET_MAP_VIEW: z.object({ view: MapViewSchema, devicePixelRatio: z.number().positive() }),
+  GET_MAP_STATE: MapStateSchema,
+  SET_LAYER_VISIBILITY: z.object({ layers: z.array(MapLayerSchema) }),
+  MOVE_LAYER: z.object({ layers: z.array(MapLayerSchema) }),
+  CHECK_CONSOLE: z.object({ entries: z.array(ConsoleEntrySchema) }),
+  GET_CHART_DATA: z.object({ charts: z.array(ChartTableSchema) }),
+  GET_TASKS: z.object({ tasks: z.array(TaskSchema) }),
+  EDIT_SCRIPT: z.object({ message: z.string() }),
+  GET_EDITOR_CODE: z.object({ code: z.string() }),
+  GET_EDITOR_IMPORTS: z.object({ imports: z.array(EditorImportSchema) }),
+  SET_EDITOR_CODE: z.object({ message: z.string() }),
+  CHECK_PAGE: z.object({ isEarthEnginePage: z.boolean() })
+};
+
+// Requests handled by the background service worker
+export const BackgroundRequestSchema = z.discriminatedUnion('type', [
+  request('TEST_CONNECTION', {}),
+  request('OPEN_EARTH_ENGINE_AND_RUN_CODE', injection),
+  request('CONTENT_SCRIPT_LOADED', { url: z.string() }),
+  // Sent by the content script before it overwrites the editor
+  request('SAVE_EDITOR_SNAPSHOT', { code: z.string() })
+]);
+
+export const BackgroundResponseSchemas = {
+  TEST_CONNECTION: z.object({ message: z.string() }),
+  OPEN_EARTH_ENGINE_AND_RUN_CODE: z.object({ result: z.string(), tabId: z.number() }),
+  CONTENT_SCRIPT_LOADED: z.object({}),
+  SAVE_EDITOR_SNAPSHOT: z.object({ saved: z.boolean() })
+};
+
+// Port the content script streams new console entries on
+export const CONSOLE_PORT_NAME = 'earth-agent-console';
+
+export type InjectionMode = z.infer<typeof InjectionModeSchema>;
+export type ConsoleEntry = z.infer<typeof ConsoleEntrySchema>;
+export type ContentRequest = z.infer<typeof ContentRequestSchema>;
+export type BackgroundRequest = z.infer<typeof BackgroundRequestSchema>;
+export type ContentRequestType = ContentRequest['type'];
+export type BackgroundRequestType = BackgroundRequest['type'];
+
+/**
+ * The fields of a request, without the type and request ID the sender adds
+ */
+export type RequestPayload<R extends { type: string }, T extends R['type']> =
+  Omit<Extract<R, { type: T }>, 'type' | 'requestId'>;
+
+export type ContentResponse<T extends ContentRequestType> = z.infer<typeof ContentResponseSchemas[T]>;
+export type BackgroundResponse<T extends BackgroundRequestType> = z.infer<typeof BackgroundResponseSchemas[T]>;
+
+/**
+ * Every response repeats the request ID and either carries data or an error
+ */
+export const ResponseEnvelopeSchema = z.discriminatedUnion('success', [
+  z.object({ requestId: z.string(), success: z.literal(true), data: z.unknown() }),
+  z.object({ requestId: z.string(), success: z.literal(false), error: z.string() })
+]);
+
+export type ResponseEnvelope = z.infer<typeof ResponseEnvelopeSchema>;
+
+// How long to wait for a response. Running code waits for the Code Editor to
+// load, and opening Earth Engine waits for a new tab on top of that.
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const REQUEST_TIMEOUTS_MS: Partial<Record<ContentRequestType | BackgroundRequestType, number>> = {
+  RUN_CODE: 60000,
+  INSPECT_MAP: 20000,
+  OPEN_EARTH_ENGINE_AND_RUN_CODE: 90000
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { formatPlacesForPrompt, resolvePlaces } from '../gazetteer';
+
+describe('Gazetteer', () => {
+  it('turns a natural feature into a rectangle', () => {
+    const [place, ...rest] = resolvePlaces('Show me elevation data for the Grand Canyon');
+
+    expect(rest).toEqual([]);
+    expect(place).toMatchObject({ name: 'Grand Canyon', kind: 'feature', text: 'Grand Canyon', type: 'geometry' });
+    expect(place.expression).toBe('ee.Geometry.Rectangle([-113.5, 35.9, -111.8, 36.5])');
+  });
+
+  it('filters countries from LSIB and regions from GAUL', () => {
+    const places = resolvePlaces('Compare NDVI in california and Kenya');
+
+    expect(places.map(place => place.name)).toEqual(['Kenya']);
+    expect(resolvePlaces('Compare NDVI in New South Wales and Kenya').map(place => place.expression)).toEqual([
+      "ee.FeatureCollection('FAO/GAUL/2015/level1').filter(ee.Filter.and(" +
+        "ee.Filter.eq('ADM0_NAME', 'Australia'), ee.Filter.eq('ADM1_NAME', 'New South Wales')))",
+      "ee.FeatureCollection('USDOS/LSIB_SIMPLE/2017').filter(ee.Filter.eq('country_na', 'Kenya'))"
+    ]);
+  });
+
+  it('prefers the longest name and finds places by their aliases', () => {
+    expect(resolvePlaces('Soy expansion in Mato Grosso do Sul').map(place => place.name)).toEqual(['Mato Grosso do Sul']);
+    expect(resolvePlaces('Night lights of bangalore and Bangalore').map(place => place.name)).toEqual(['Bengaluru']);
+    expect(resolvePlaces('Urban heat in new york city')[0].expression)
+      .toBe('ee.Geometry.Point([-74.006, 40.713]).buffer(20000)');
+  });
+
+  it('lists the places for the prompt', () => {
+    const prompt = formatPlacesForPrompt(resolvePlaces('Snow cover on the Alps in Italy'));
+
+    expect(prompt).toContain('- Alps (natural feature, bounding box [5, 43.5, 16.5, 48.3]): ee.Geometry.Rectangle');
+    expect(prompt).toContain("- Italy (country, bounding box [6.6, 36.6, 18.5, 47.1]): ee.FeatureCollection('USDOS/LSIB_SIMPLE/2017')");
+    expect(prompt).toContain('use .geometry() where a geometry is needed');
+  });
+});
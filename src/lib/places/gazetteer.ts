@@ -0,0 +1,174 @@
+/**
+ * Offline gazetteer of place names
+ *
+ * A bundled list of countries, first-level regions, major cities and
+ * well-known natural features, so places named in a request can be turned
+ * into Earth Engine geometry without a geocoding service:
+ *
+ * - countries are filtered from the LSIB boundaries by their `country_na`
+ * - regions are filtered from FAO GAUL level 1 by country and region name
+ * - natural features use their bounding box as a rectangle
+ * - cities and peaks use a buffer around their centroid
+ */
+
+import { z } from 'zod';
+import gazetteerData from './gazetteer.json';
+
+const BBoxSchema = z.tuple([z.number(), z.number(), z.number(), z.number()]);
+const LngLatSchema = z.tuple([z.number(), z.number()]);
+
+export const PlaceSchema = z.object({
+  name: z.string(),
+  aliases: z.array(z.string()).optional(),
+  kind: z.enum(['country', 'region', 'city', 'feature']),
+  // LSIB country name, for countries
+  lsib: z.string().optional(),
+  // GAUL country name, for regions and cities
+  country: z.string().optional(),
+  // [west, south, east, north] in degrees
+  bbox: BBoxSchema.optional(),
+  // [longitude, latitude] in degrees, for places without a useful extent
+  center: LngLatSchema.optional()
+});
+
+export const ResolvedPlaceSchema = z.object({
+  name: z.string(),
+  kind: PlaceSchema.shape.kind,
+  // The words of the request the place was found from
+  text: z.string(),
+  // Earth Engine JavaScript for the place's area
+  expression: z.string(),
+  type: z.enum(['geometry', 'featureCollection']),
+  bbox: BBoxSchema.nullable(),
+  center: LngLatSchema
+});
+
+export type Place = z.infer<typeof PlaceSchema>;
+export type ResolvedPlace = z.infer<typeof ResolvedPlaceSchema>;
+
+export const LSIB_COLLECTION = 'USDOS/LSIB_SIMPLE/2017';
+export const GAUL_LEVEL1_COLLECTION = 'FAO/GAUL/2015/level1';
+
+// Buffer around a centroid, in meters
+const CENTER_RADIUS: Record<Place['kind'], number> = {
+  country: 100000,
+  region: 50000,
+  city: 20000,
+  feature: 10000
+};
+
+const places: Place[] = z.array(PlaceSchema).parse(gazetteerData);
+
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Earth Engine JavaScript for a place's area
+ */
+export const placeExpression = (place: Place): Pick<ResolvedPlace, 'expression' | 'type'> => {
+  if (place.kind === 'country' && place.lsib) {
+    return {
+      expression: `ee.FeatureCollection(${quote(LSIB_COLLECTION)}).filter(ee.Filter.eq('country_na', ${quote(place.lsib)}))`,
+      type: 'featureCollection'
+    };
+  }
+  if (place.kind === 'region' && place.country) {
+    return {
+      expression: `ee.FeatureCollection(${quote(GAUL_LEVEL1_COLLECTION)}).filter(ee.Filter.and(` +
+        `ee.Filter.eq('ADM0_NAME', ${quote(place.country)}), ee.Filter.eq('ADM1_NAME', ${quote(place.name)})))`,
+      type: 'featureCollection'
+    };
+  }
+  if (place.bbox) {
+    return { expression: `ee.Geometry.Rectangle([${place.bbox.join(', ')}])`, type: 'geometry' };
+  }
+  if (place.center) {
+    return {
+      expression: `ee.Geometry.Point([${place.center.join(', ')}]).buffer(${CENTER_RADIUS[place.kind]})`,
+      type: 'geometry'
+    };
+  }
+  throw new Error(`The gazetteer has no extent for ${place.name}`);
+};
+
+/**
+ * A place's centroid, or the middle of its bounding box
+ */
+const placeCenter = (place: Place): [number, number] => {
+  if (place.center) return place.center;
+  if (!place.bbox) throw new Error(`The gazetteer has no extent for ${place.name}`);
+  const [west, south, east, north] = place.bbox;
+  return [(west + east) / 2, (south + north) / 2];
+};
+
+interface NameMatch {
+  place: Place;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Every occurrence of a place's names in the text. Names of several words
+ * match in any case; a single word only as written, so "Chile" is found but
+ * "chile peppers" is not.
+ */
+const findNames = (text: string, place: Place): NameMatch[] =>
+  [place.name, ...(place.aliases || [])].flatMap(name => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, name.includes(' ') ? 'giu' : 'gu');
+    return [...text.matchAll(pattern)].map(match => ({
+      place,
+      text: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length
+    }));
+  });
+
+/**
+ * Find the places named in a request. The longest name wins where names
+ * overlap, so "Mato Grosso do Sul" is not read as "Mato Grosso". Places are
+ * returned in the order they appear.
+ */
+export const resolvePlaces = (text: string, gazetteer: Place[] = places): ResolvedPlace[] => {
+  const matches = gazetteer
+    .flatMap(place => findNames(text, place))
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+  const kept: NameMatch[] = [];
+  for (const match of matches) {
+    const overlaps = kept.some(other => match.start < other.end && other.start < match.end);
+    if (!overlaps && !kept.some(other => other.place === match.place)) kept.push(match);
+  }
+
+  return kept
+    .sort((a, b) => a.start - b.start)
+    .map(({ place, text: found }) => ({
+      name: place.name,
+      kind: place.kind,
+      text: found,
+      ...placeExpression(place),
+      bbox: place.bbox ?? null,
+      center: placeCenter(place)
+    }));
+};
+
+const KIND_LABELS: Record<Place['kind'], string> = {
+  country: 'country',
+  region: 'region',
+  city: 'city',
+  feature: 'natural feature'
+};
+
+/**
+ * The resolved places as prompt text
+ */
+export const formatPlacesForPrompt = (resolved: ResolvedPlace[]): string =>
+  [
+    'PLACES (from an offline gazetteer; use these for the area of interest instead of guessing coordinates):',
+    ...resolved.map(place => {
+      const usage = place.type === 'featureCollection' ? ' (a FeatureCollection; use .geometry() where a geometry is needed)' : '';
+      const bbox = place.bbox ? `, bounding box [${place.bbox.join(', ')}]` : '';
+      return `- ${place.name} (${KIND_LABELS[place.kind]}${bbox}): ${place.expression}${usage}`;
+    })
+  ].join('\n');
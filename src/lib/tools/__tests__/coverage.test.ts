@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { checkCoverage, describeCoverageDecision } from '../coverage';
+
+const LANDSAT_8 = {
+  id: 'LANDSAT/LC08/C02/T1_L2',
+  name: 'LANDSAT/LC08/C02/T1_L2',
+  type: 'image_collection',
+  startDate: '2013-03-18',
+  endDate: ''
+};
+
+describe('Temporal coverage', () => {
+  it('accepts datasets that cover the requested dates', () => {
+    expect(checkCoverage(LANDSAT_8, { start: '2015-01-01', end: '2021-01-01' }).covered).toBe(true);
+    expect(checkCoverage(LANDSAT_8, {}).covered).toBe(true);
+    // Single images such as elevation models stand for no particular time
+    const srtm = { id: 'USGS/SRTMGL1_003', type: 'image', startDate: '2000-02-11', endDate: '2000-02-22' };
+    expect(checkCoverage(srtm, { start: '2020-01-01', end: '2021-01-01' }).covered).toBe(true);
+  });
+
+  it('accepts static collections such as elevation models for any dates', () => {
+    const glo30 = { id: 'COPERNICUS/DEM/GLO30', type: 'image_collection', startDate: '2010-12-01', endDate: '2015-01-31' };
+    expect(checkCoverage(glo30, { start: '2023-01-01', end: '2024-01-01' }).covered).toBe(true);
+  });
+
+  it('suggests Landsat 5 for Landsat 8 before 2013', () => {
+    const requested = { start: '2005-01-01', end: '2011-01-01' };
+    const check = checkCoverage(LANDSAT_8, requested);
+
+    expect(check).toMatchObject({ covered: false, overlaps: false, start: '2013-03-18' });
+    expect(check.sibling?.id).toBe('LANDSAT/LT05/C02/T1_L2');
+    expect(describeCoverageDecision(check, requested)).toBe(
+      'LANDSAT/LC08/C02/T1_L2 has data from 2013-03-18 to the present, which does not cover the requested ' +
+      '2005-01-01 to 2011-01-01, so I used Landsat 5 (LANDSAT/LT05/C02/T1_L2), which has data from 1984-03-16 to 2012-05-05, instead.'
+    );
+  });
+
+  it('swaps Landsat 8 for Landsat 7 before 2013', () => {
+    const check = checkCoverage(LANDSAT_8, { end: '2013-01-01' });
+
+    expect(check).toMatchObject({ covered: false, overlaps: false });
+    // Landsat 5 ended in May 2012, so only Landsat 7 has the whole period
+    expect(check.sibling?.id).toBe('LANDSAT/LE07/C02/T1_L2');
+  });
+
+  it('uses the known dates of a family member when the catalog has none', () => {
+    const check = checkCoverage({ id: 'MODIS/061/MOD13Q1' }, { start: '1990-01-01', end: '2001-01-01' });
+
+    expect(check).toMatchObject({ covered: false, overlaps: true, start: '2000-02-18' });
+    expect(check.sibling?.id).toBe('NOAA/CDR/AVHRR/NDVI/V5');
+  });
+
+  it('warns when no sibling covers the dates', () => {
+    const requested = { start: '2010-01-01', end: '2011-01-01' };
+    const check = checkCoverage({ id: 'COPERNICUS/S1_GRD', type: 'image_collection', startDate: '2014-10-03' }, requested);
+
+    expect(check.sibling).toBeUndefined();
+    expect(describeCoverageDecision(check, requested)).toContain('No similar dataset covers those dates, so the results may be empty.');
+  });
+});
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { databaseSearch } from '../index';
+import { catalogService } from '../../catalog/service';
+
+describe('Dataset search', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('compares the requested dates as days, with the end exclusive', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(catalogService, 'search').mockResolvedValue([
+      { id: 'LANDSAT/LC09/C02/T1_L2', title: 'USGS Landsat 9 Level 2', start_date: '2021-10-31', end_date: 'present' },
+      { id: 'LANDSAT/LC08/C02/T1_L2', title: 'USGS Landsat 8 Level 2', start_date: '2013-03-18', end_date: 'present' }
+    ]);
+
+    // Landsat 9 started after the first half of 2021
+    const found = await databaseSearch('landsat', { start: '2021-01-01', end: '2021-07-01' });
+    expect(found.map(dataset => [dataset.id, dataset.timeScore])).toEqual([
+      ['LANDSAT/LC08/C02/T1_L2', 170],
+      ['LANDSAT/LC09/C02/T1_L2', 0]
+    ]);
+  });
+});
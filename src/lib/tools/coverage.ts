@@ -0,0 +1,176 @@
+/**
+ * Temporal coverage of datasets
+ *
+ * Checks whether a dataset has data for the requested dates and, when it
+ * does not, finds a sibling that does: another sensor of the same family,
+ * such as Landsat 5 or 7 for a request before Landsat 8 launched.
+ */
+
+// A dataset with its dates as the catalog search returns them
+export interface DatedDataset {
+  id: string;
+  name?: string;
+  type?: string;
+  startDate?: string;
+  endDate?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface RequestedDates {
+  // Inclusive start and exclusive end, as YYYY-MM-DD
+  start?: string;
+  end?: string;
+}
+
+interface SiblingDataset {
+  id: string;
+  name: string;
+  // IDs of the same product in other collections or versions
+  pattern: RegExp;
+  start: string;
+  // Undefined while the dataset is still updated
+  end?: string;
+}
+
+/**
+ * Datasets that can stand in for one another, in order of preference
+ */
+const DATASET_FAMILIES: SiblingDataset[][] = [
+  [
+    { id: 'COPERNICUS/S2_SR_HARMONIZED', name: 'Sentinel-2 surface reflectance', pattern: /^COPERNICUS\/S2_SR/, start: '2017-03-28' },
+    { id: 'COPERNICUS/S2_HARMONIZED', name: 'Sentinel-2 top-of-atmosphere', pattern: /^COPERNICUS\/S2(_HARMONIZED)?$/, start: '2015-06-27' },
+    { id: 'LANDSAT/LC09/C02/T1_L2', name: 'Landsat 9', pattern: /^LANDSAT\/LC09\//, start: '2021-10-31' },
+    { id: 'LANDSAT/LC08/C02/T1_L2', name: 'Landsat 8', pattern: /^LANDSAT\/LC08\//, start: '2013-03-18' },
+    { id: 'LANDSAT/LT05/C02/T1_L2', name: 'Landsat 5', pattern: /^LANDSAT\/LT05\//, start: '1984-03-16', end: '2012-05-05' },
+    { id: 'LANDSAT/LE07/C02/T1_L2', name: 'Landsat 7', pattern: /^LANDSAT\/LE07\//, start: '1999-05-28', end: '2024-01-19' },
+    { id: 'MODIS/061/MOD09GA', name: 'MODIS Terra surface reflectance', pattern: /^MODIS\/0\d{2}\/MOD09/, start: '2000-02-24' }
+  ],
+  [
+    { id: 'MODIS/061/MOD13Q1', name: 'MODIS Terra vegetation indices', pattern: /^MODIS\/0\d{2}\/MOD13/, start: '2000-02-18' },
+    { id: 'MODIS/061/MYD13Q1', name: 'MODIS Aqua vegetation indices', pattern: /^MODIS\/0\d{2}\/MYD13/, start: '2002-07-04' },
+    { id: 'NOAA/CDR/AVHRR/NDVI/V5', name: 'AVHRR NDVI climate data record', pattern: /^NOAA\/CDR\/AVHRR\/NDVI\//, start: '1981-06-24' }
+  ],
+  [
+    { id: 'NOAA/VIIRS/DNB/MONTHLY_V1/VCMSLCFG', name: 'VIIRS night lights', pattern: /^NOAA\/VIIRS\/DNB\//, start: '2014-01-01' },
+    { id: 'NOAA/DMSP-OLS/NIGHTTIME_LIGHTS', name: 'DMSP-OLS night lights', pattern: /^NOAA\/DMSP-OLS\//, start: '1992-01-01', end: '2014-01-01' }
+  ],
+  [
+    { id: 'NASA/GPM_L3/IMERG_V07', name: 'GPM IMERG precipitation', pattern: /^NASA\/GPM_L3\/IMERG/, start: '2000-06-01' },
+    { id: 'UCSB-CHG/CHIRPS/DAILY', name: 'CHIRPS daily precipitation', pattern: /^UCSB-CHG\/CHIRPS\//, start: '1981-01-01' },
+    { id: 'ECMWF/ERA5_LAND/DAILY_AGGR', name: 'ERA5-Land daily reanalysis', pattern: /^ECMWF\/ERA5_LAND\//, start: '1950-01-02' }
+  ],
+  [
+    { id: 'GOOGLE/DYNAMICWORLD/V1', name: 'Dynamic World land cover', pattern: /^GOOGLE\/DYNAMICWORLD\//, start: '2015-06-27' },
+    { id: 'MODIS/061/MCD12Q1', name: 'MODIS land cover type', pattern: /^MODIS\/0\d{2}\/MCD12Q1/, start: '2001-01-01' }
+  ]
+];
+
+/**
+ * Collections that stand for no particular time, such as elevation models
+ * assembled from tiles. Their dates are when the source data was acquired.
+ */
+const STATIC_DATASETS: RegExp[] = [
+  /^COPERNICUS\/DEM\//,
+  /^JAXA\/ALOS\/AW3D30\//,
+  /^NASA\/NASADEM_HGT\//,
+  /^USGS\/3DEP\//,
+  /^MERIT\/DEM\//,
+  /^CGIAR\/SRTM90/,
+  /^USGS\/GMTED2010/,
+  /^NOAA\/NGDC\/ETOPO1/
+];
+
+export interface CoverageCheck {
+  dataset: DatedDataset;
+  // Whether the dataset has data for all of the requested dates
+  covered: boolean;
+  // Whether it has data for any of them
+  overlaps: boolean;
+  start?: string;
+  end?: string;
+  // A dataset of the same family that covers the dates, when one exists
+  sibling?: SiblingDataset;
+}
+
+const ONGOING = /present|now|ongoing/i;
+
+const findFamily = (id: string): SiblingDataset[] | undefined =>
+  DATASET_FAMILIES.find(family => family.some(sibling => sibling.pattern.test(id)));
+
+/**
+ * The first day with data and the last day with data (undefined while the
+ * dataset is still updated)
+ */
+export const datasetDates = (dataset: DatedDataset): { start?: string; end?: string } => {
+  const start = dataset.startDate || dataset.start_date;
+  const end = dataset.endDate || dataset.end_date;
+  // Entries without dates use the ones known for their family
+  if (!start) {
+    const member = findFamily(dataset.id)?.find(sibling => sibling.pattern.test(dataset.id));
+    return { start: member?.start, end: member?.end };
+  }
+  return {
+    start: start.slice(0, 10),
+    end: end && !ONGOING.test(end) ? end.slice(0, 10) : undefined
+  };
+};
+
+/**
+ * Whether a range of dates with data has any of the requested dates
+ */
+export const overlapsRange = (range: { start?: string; end?: string }, requested: RequestedDates): boolean =>
+  (!requested.end || !range.start || range.start < requested.end) &&
+  (!requested.start || !range.end || requested.start <= range.end);
+
+/**
+ * Whether a range of dates with data has all of the requested dates. An open
+ * requested start or end still needs data on that side of the other one.
+ */
+export const covers = (range: { start?: string; end?: string }, requested: RequestedDates): boolean =>
+  overlapsRange(range, requested) &&
+  (!requested.start || !range.start || range.start <= requested.start) &&
+  // The requested end is exclusive, the dataset's inclusive
+  (!requested.end || !range.end || requested.end <= nextDay(range.end));
+
+const nextDay = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Check a dataset against the requested dates. Single images and static
+ * collections, such as digital elevation models, are not checked since they
+ * stand for no particular time.
+ */
+export const checkCoverage = (dataset: DatedDataset, requested: RequestedDates): CoverageCheck => {
+  const range = datasetDates(dataset);
+  const timeless = /^image$/i.test(dataset.type || '') || STATIC_DATASETS.some(pattern => pattern.test(dataset.id));
+  if (timeless || (!requested.start && !requested.end) || covers(range, requested)) {
+    return { dataset, covered: true, overlaps: true, ...range };
+  }
+
+  const sibling = findFamily(dataset.id)?.find(candidate =>
+    !candidate.pattern.test(dataset.id) && covers(candidate, requested));
+  return { dataset, covered: false, overlaps: overlapsRange(range, requested), ...range, ...(sibling ? { sibling } : {}) };
+};
+
+const describeRange = ({ start, end }: { start?: string; end?: string }): string =>
+  `${start || 'its first image'} to ${end || 'the present'}`;
+
+/**
+ * Explain to the user what was done about a dataset that lacks the
+ * requested dates
+ */
+export const describeCoverageDecision = (check: CoverageCheck, requested: RequestedDates): string => {
+  const name = check.dataset.name && check.dataset.name !== check.dataset.id
+    ? `${check.dataset.name} (${check.dataset.id})`
+    : check.dataset.id;
+  const window = `${requested.start || 'the earliest data'} to ${requested.end || 'the present'}`;
+  const coverage = `${name} has data from ${describeRange(check)}, which ${check.overlaps ? 'only partly covers' : 'does not cover'} the requested ${window}`;
+  if (check.sibling) {
+    return `${coverage}, so I used ${check.sibling.name} (${check.sibling.id}), which has data from ${describeRange(check.sibling)}, instead.`;
+  }
+  return `${coverage}. No similar dataset covers those dates, so the results ${check.overlaps ? 'are limited to the dates it has' : 'may be empty'}.`;
+};
@@ -4,29 +4,71 @@
  * This module exports the tools that can be used by agents.
  */
 
-import { DatasetEntry } from './databaseSearch';
+import { CatalogEntry, DatasetSearchResult } from '../catalog/types';
+import { catalogService } from '../catalog/service';
+import { covers, datasetDates, overlapsRange } from './coverage';
+import { abortable, isAbortError } from '../abort';
+import { connectToTab, MessageError, sendToTab } from '../messaging';
+import {
+  CONSOLE_PORT_NAME,
+  ConsoleEntry,
+  ConsoleEntrySchema,
+  ContentRequest,
+  ContentRequestType,
+  ContentResponse,
+  RequestPayload
+} from '../messaging/protocol';
 import { GEEDocumentation, DocumentationSnippet } from './geeDocumentation';
+import { InspectorReading } from '../map/inspector';
+import { ChartTable } from '../console/chartTable';
+import { cropMapScreenshot, MapScreenshot } from '../map/screenshot';
+import { LayerPosition, MapLayer, MapState } from '../map/layers';
+import { EditorImport } from '../editor/imports';
 
 // Define interfaces for tool responses
 interface RunCodeResponse {
   success: boolean;
   message: string;
+  // Tags the console entries of the run
+  runId?: string;
   executionTime?: number;
 }
 
 interface InspectionResult {
   success: boolean;
-  data: any;
+  data: InspectorReading | null;
   error?: string;
 }
 
 interface ConsoleCheckResult {
   success: boolean;
-  errors: Array<{
-    level: string;
-    message: string;
-    timestamp?: string;
-  }>;
+  entries: ConsoleEntry[];
+  error?: string;
+}
+
+interface MapStateResult {
+  success: boolean;
+  state: MapState | null;
+  error?: string;
+}
+
+interface LayerChangeResult {
+  success: boolean;
+  // The layers after the change
+  layers: MapLayer[];
+  error?: string;
+}
+
+interface MapScreenshotResult {
+  success: boolean;
+  image: MapScreenshot | null;
+  error?: string;
+}
+
+interface ChartDataResult {
+  success: boolean;
+  charts: ChartTable[];
+  error?: string;
 }
 
 interface TaskResult {
@@ -47,6 +89,18 @@ interface ScriptEditResult {
   error?: string;
 }
 
+interface EditorCodeResult {
+  success: boolean;
+  code: string;
+  error?: string;
+}
+
+interface EditorImportsResult {
+  success: boolean;
+  imports: EditorImport[];
+  error?: string;
+}
+
 interface ProblemAssessmentResult {
   feasible: boolean;
   explanation: string;
@@ -60,223 +114,111 @@ interface DocumentationSearchResult {
 }
 
 /**
- * Sends a message to the content script to execute in Earth Engine
+ * The tab the agent works in: the active one
  */
-const sendMessageToContentScript = async (action: string, data: any): Promise<any> => {
-  return new Promise((resolve, reject) => {
-    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      if (!tabs[0]?.id) {
-        reject(new Error("No active tab found. Make sure you are on the Earth Engine Code Editor page."));
-        return;
-      }
-      
-      chrome.tabs.sendMessage(
-        tabs[0].id,
-        { type: action, ...data },
-        (response) => {
-          if (chrome.runtime.lastError) {
-            reject(new Error(chrome.runtime.lastError.message || 
-              "Could not communicate with Earth Engine. Make sure you are on the Earth Engine Code Editor page."));
-            return;
-          }
-          
-          resolve(response);
-        }
-      );
-    });
-  });
+const getActiveTab = async (signal?: AbortSignal): Promise<chrome.tabs.Tab & { id: number }> => {
+  const [tab] = await abortable(chrome.tabs.query({ active: true, currentWindow: true }), signal);
+  if (!tab?.id) {
+    throw new Error("No active tab found. Make sure you are on the Earth Engine Code Editor page.");
+  }
+  return tab as chrome.tabs.Tab & { id: number };
+};
+
+const getActiveTabId = async (signal?: AbortSignal): Promise<number> => (await getActiveTab(signal)).id;
+
+/**
+ * Sends a request to the content script in the active Earth Engine tab. Once
+ * the signal aborts we stop waiting for the reply.
+ */
+const sendMessageToContentScript = async <T extends ContentRequestType>(
+  type: T,
+  payload: RequestPayload<ContentRequest, T>,
+  signal?: AbortSignal
+): Promise<ContentResponse<T>> => {
+  const tabId = await getActiveTabId(signal);
+
+  try {
+    return await sendToTab(tabId, type, payload, { signal });
+  } catch (error) {
+    if (error instanceof MessageError && error.reason === 'unreachable') {
+      throw new Error(`${error.message}. Make sure you are on the Earth Engine Code Editor page.`);
+    }
+    throw error;
+  }
 };
 
 /**
- * Search for datasets in Earth Engine database
+ * Search for datasets in the Earth Engine catalog
  */
 export const databaseSearch = async (
   searchTerm: string,
-  timeframe?: { start?: string; end?: string }
-): Promise<any[]> => {
+  timeframe?: { start?: string; end?: string },
+  signal?: AbortSignal
+): Promise<DatasetSearchResult[]> => {
   console.log(`Searching for datasets matching: ${searchTerm}`);
   if (timeframe) {
     console.log(`With timeframe filter: ${timeframe.start || 'any'} to ${timeframe.end || 'present'}`);
   }
-  
+
   try {
-    // First try to search in the comprehensive dataset catalog from GitHub
-    try {
-      const response = await fetch('https://raw.githubusercontent.com/samapriya/Earth-Engine-Datasets-List/refs/heads/master/gee_catalog.json');
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`Loaded ${data.length} datasets from GitHub catalog`);
-        
-        // Find datasets that match the search term (case insensitive)
-        const searchTermLower = searchTerm.toLowerCase();
-        let matchingDatasets = data.filter((dataset: any) => {
-          const id = (dataset.id || '').toLowerCase();
-          const title = (dataset.title || '').toLowerCase();
-          const description = (dataset.description || '').toLowerCase();
-          const type = (dataset.type || '').toLowerCase();
-          
-          return (
-            id.includes(searchTermLower) ||
-            title.includes(searchTermLower) ||
-            description.includes(searchTermLower) ||
-            type.includes(searchTermLower)
-          );
-        });
-        
-        // Score and sort datasets by timeframe relevance
-        matchingDatasets = scoreAndSortDatasetsByTime(matchingDatasets, timeframe);
-        
-        console.log(`Found ${matchingDatasets.length} matching datasets in GitHub catalog`);
-        
-        if (matchingDatasets.length > 0) {
-          // Map to a consistent format
-          return matchingDatasets.map((dataset: any) => ({
-            name: dataset.id,
-            description: dataset.title || 'No description available',
-            type: dataset.type || 'Unknown',
-            startDate: dataset.start_date || '',
-            endDate: dataset.end_date || '',
-            updateFrequency: dataset.update_frequency || '',
-            provider: dataset.provider || '',
-            gsd: dataset.gsd || '',
-            source: 'GitHub Catalog',
-            timeScore: dataset.timeScore // Include the score for debugging
-          }));
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching from GitHub catalog:', error);
-    }
-    
-    // Fall back to the original Earth Engine search
-    console.log('Falling back to Earth Engine API search');
-    await sendMessageToContentScript('SEARCH_DATASETS', {
-      search: searchTerm
-    });
-    
-    // Wait for the search results
-    const searchResults = await new Promise<any[]>((resolve) => {
-      const timeout = setTimeout(() => {
-        resolve([]);
-      }, 5000);
-      
-      const handleSearchResults = (event: MessageEvent) => {
-        if (event.data && event.data.type === 'SEARCH_RESULTS') {
-          clearTimeout(timeout);
-          window.removeEventListener('message', handleSearchResults);
-          resolve(event.data.results || []);
-        }
-      };
-      
-      window.addEventListener('message', handleSearchResults);
-    });
-    
-    console.log(`Received ${searchResults.length} datasets from Earth Engine search`);
-    
-    // Process and sort by timeframe relevance if available
-    const processedResults = searchResults.map((result: any) => ({
-      name: result.id,
-      description: result.description || 'No description available',
-      type: result.type || 'Unknown',
-      startDate: result.startDate || '',
-      endDate: result.endDate || '',
-      updateFrequency: result.updateFrequency || '',
-      provider: result.provider || '',
-      gsd: result.gsd || '',
-      source: 'Earth Engine API'
+    // Ordered by how well the dates fit, then by the index's ranking
+    const matchingDatasets = scoreAndSortDatasetsByTime(await catalogService.search(searchTerm, { signal }), timeframe);
+    console.log(`Found ${matchingDatasets.length} matching datasets in the catalog`);
+
+    // Map to a consistent format
+    return matchingDatasets.map(dataset => ({
+      id: dataset.id,
+      name: dataset.id,
+      description: dataset.title || 'No description available',
+      type: dataset.type || 'Unknown',
+      startDate: dataset.start_date || '',
+      endDate: dataset.end_date || '',
+      updateFrequency: String(dataset.update_frequency || ''),
+      provider: dataset.provider || '',
+      gsd: String(dataset.gsd || ''),
+      source: 'Earth Engine catalog',
+      timeScore: dataset.timeScore // Include the score for debugging
     }));
-    
-    return scoreAndSortDatasetsByTime(processedResults, timeframe);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error searching for datasets:', error);
     return [];
   }
 };
 
 /**
- * Score and sort datasets based on their relevance to the requested timeframe
- * If no timeframe is provided, prioritize the most recent datasets
+ * Order datasets by how well their dates fit the requested timeframe. The
+ * sort is stable, so equally fitting datasets, and all of them when there is
+ * no timeframe, keep the index's ranking.
  */
-const scoreAndSortDatasetsByTime = (datasets: any[], timeframe?: { start?: string; end?: string }): any[] => {
-  // Return datasets as-is if there's no timeframe to consider
-  if (!timeframe) {
-    return datasets.sort((a, b) => {
-      // If no timeframe specified, prioritize datasets with more recent end dates
-      const aEndDate = a.endDate || a.end_date || '';
-      const bEndDate = b.endDate || b.end_date || '';
-      if (aEndDate === 'present' || aEndDate.includes('now')) return -1;
-      if (bEndDate === 'present' || bEndDate.includes('now')) return 1;
-      return aEndDate > bEndDate ? -1 : aEndDate < bEndDate ? 1 : 0;
-    });
-  }
-  
-  const currentYear = new Date().getFullYear().toString();
+const scoreAndSortDatasetsByTime = (
+  datasets: CatalogEntry[],
+  timeframe?: { start?: string; end?: string }
+): Array<CatalogEntry & { timeScore?: number }> => {
+  if (!timeframe?.start && !timeframe?.end) return datasets;
+
+  // The requested end is exclusive; without one the request runs to today
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const requested = { start: timeframe.start, end: timeframe.end || tomorrow };
   const scoredDatasets = datasets.map(dataset => {
-    // Get dataset date information
-    const startDate = dataset.startDate || dataset.start_date || '';
-    const endDate = dataset.endDate || dataset.end_date || '';
+    // Full dates, the end undefined while the dataset is still updated
+    const range = datasetDates(dataset);
     
     let score = 0;
     
-    // Extract years from dates for comparison
-    const datasetStartYear = startDate ? startDate.substring(0, 4) : '';
-    const datasetEndYear = endDate && !endDate.includes('present') && !endDate.includes('now') 
-      ? endDate.substring(0, 4) 
-      : currentYear;
-    
-    const requestStartYear = timeframe.start ? timeframe.start.substring(0, 4) : '';
-    const requestEndYear = timeframe.end ? timeframe.end.substring(0, 4) : currentYear;
-    
     // Score based on overlap with requested timeframe
-    if (requestStartYear && requestEndYear) {
-      // Full timeframe specified
-      if (datasetStartYear && datasetEndYear) {
-        // Check for overlap
-        if (
-          (datasetStartYear <= requestEndYear && datasetEndYear >= requestStartYear) ||
-          endDate === 'present' || 
-          endDate.includes('now')
-        ) {
-          // Dataset overlaps with requested timeframe
-          score += 100;
-          
-          // Bonus points for datasets that fully contain the requested period
-          if (datasetStartYear <= requestStartYear && 
-             (datasetEndYear >= requestEndYear || endDate === 'present' || endDate.includes('now'))) {
-            score += 50;
-          }
-          
-          // Bonus for datasets that are ongoing/current
-          if (endDate === 'present' || endDate.includes('now')) {
-            score += 20;
-          }
-        }
-      }
-    } else if (requestStartYear) {
-      // Only start year specified (looking for data since a specific time)
-      if (datasetStartYear && datasetStartYear <= requestStartYear &&
-         (datasetEndYear >= requestStartYear || endDate === 'present' || endDate.includes('now'))) {
-        score += 100;
-        
-        // Bonus for datasets that are ongoing/current
-        if (endDate === 'present' || endDate.includes('now')) {
-          score += 30;
-        }
+    if (range.start && overlapsRange(range, requested)) {
+      // Dataset overlaps with requested timeframe
+      score += 100;
+      
+      // Bonus points for datasets that fully contain the requested period
+      if (covers(range, requested)) {
+        score += 50;
       }
-    } else {
-      // No specific timeframe, prioritize recent and ongoing datasets
-      if (endDate === 'present' || endDate.includes('now')) {
-        score += 100;
-        
-        // Higher score for longer running datasets (more historical context)
-        if (datasetStartYear) {
-          const yearsRunning = parseInt(currentYear) - parseInt(datasetStartYear);
-          score += Math.min(yearsRunning, 30); // Cap at 30 years
-        }
-      } else if (datasetEndYear) {
-        // Score based on recency
-        const yearsAgo = parseInt(currentYear) - parseInt(datasetEndYear);
-        score += Math.max(0, 100 - yearsAgo * 10); // Decrease score by 10 for each year old
+      
+      // Bonus for datasets that are ongoing/current
+      if (!range.end) {
+        score += 20;
       }
     }
     
@@ -296,27 +238,33 @@ export const EarthEngineTools = {
   /**
    * Search Earth Engine Database catalog
    */
-  databaseSearch: async (query: string, timeframe?: { start?: string; end?: string }): Promise<DatasetEntry[]> => {
+  databaseSearch: async (
+    query: string,
+    timeframe?: { start?: string; end?: string },
+    signal?: AbortSignal
+  ): Promise<DatasetSearchResult[]> => {
     console.log('Searching Earth Engine database for:', query);
     if (timeframe) {
       console.log('With timeframe:', timeframe);
     }
-    return databaseSearch(query, timeframe);
+    return databaseSearch(query, timeframe, signal);
   },
 
   /**
-   * Run code in Earth Engine editor
+   * Run code in Earth Engine editor. Console entries of the run are tagged
+   * with the given run ID, or one the content script makes up.
    */
-  runCode: async (code: string): Promise<RunCodeResponse> => {
+  runCode: async (code: string, signal?: AbortSignal, runId?: string): Promise<RunCodeResponse> => {
     console.log('Running code in Earth Engine:', code);
     try {
-      const response = await sendMessageToContentScript('RUN_CODE', { code });
+      const response = await sendMessageToContentScript('RUN_CODE', { code, runId }, signal);
       return {
-        success: response?.success || false,
-        message: response?.message || 'Code execution completed',
-        executionTime: response?.executionTime
+        success: true,
+        message: response.result,
+        runId: response.runId
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error running code:', error);
       return {
         success: false,
@@ -326,18 +274,19 @@ export const EarthEngineTools = {
   },
 
   /**
-   * Inspect map at a point
+   * Inspect map at a point: clicks it with the Inspector active and returns
+   * the point, the pixel values per layer and the properties of features there
    */
-  inspectMap: async (coordinates: { lat: number, lng: number }): Promise<InspectionResult> => {
+  inspectMap: async (coordinates: { lat: number, lng: number }, signal?: AbortSignal): Promise<InspectionResult> => {
     console.log('Inspecting map at:', coordinates);
     try {
-      const response = await sendMessageToContentScript('INSPECT_MAP', { coordinates });
+      const { data } = await sendMessageToContentScript('INSPECT_MAP', { coordinates }, signal);
       return {
-        success: response?.success || false,
-        data: response?.data || null,
-        error: response?.error
+        success: true,
+        data
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error inspecting map:', error);
     return { 
         success: false,
@@ -348,39 +297,170 @@ export const EarthEngineTools = {
   },
 
   /**
-   * Check console for errors
+   * Read the console entries of a run, or all entries seen in the tab:
+   * printed values, errors, warnings and charts
    */
-  checkConsole: async (): Promise<ConsoleCheckResult> => {
+  checkConsole: async (signal?: AbortSignal, runId?: string): Promise<ConsoleCheckResult> => {
     console.log('Checking Earth Engine console');
     try {
-      const response = await sendMessageToContentScript('CHECK_CONSOLE', {});
+      const { entries } = await sendMessageToContentScript('CHECK_CONSOLE', { runId }, signal);
       return {
-        success: response?.success || false,
-        errors: response?.errors || []
+        success: true,
+        entries
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Error checking console:', error);
       return {
         success: false,
-        errors: [{
-          level: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error checking console'
-        }]
+        entries: [],
+        error: error instanceof Error ? error.message : 'Unknown error checking console'
+      };
+    }
+  },
+
+  /**
+   * Read the map center, zoom and layers
+   */
+  getMapState: async (signal?: AbortSignal): Promise<MapStateResult> => {
+    console.log('Reading the Earth Engine map state');
+    try {
+      return {
+        success: true,
+        state: await sendMessageToContentScript('GET_MAP_STATE', {}, signal)
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error reading map state:', error);
+      return {
+        success: false,
+        state: null,
+        error: error instanceof Error ? error.message : 'Unknown error reading map state'
       };
     }
   },
 
+  /**
+   * Show or hide a map layer, given by name or index from the bottom
+   */
+  setLayerVisibility: async (layer: string | number, visible: boolean, signal?: AbortSignal): Promise<LayerChangeResult> => {
+    console.log(`${visible ? 'Showing' : 'Hiding'} map layer:`, layer);
+    try {
+      const { layers } = await sendMessageToContentScript('SET_LAYER_VISIBILITY', { layer, visible }, signal);
+      return {
+        success: true,
+        layers
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error changing layer visibility:', error);
+      return {
+        success: false,
+        layers: [],
+        error: error instanceof Error ? error.message : 'Unknown error changing layer visibility'
+      };
+    }
+  },
+
+  /**
+   * Move a map layer to the top, the bottom or an index in the drawing order
+   */
+  moveLayer: async (layer: string | number, to: LayerPosition, signal?: AbortSignal): Promise<LayerChangeResult> => {
+    console.log('Moving map layer:', layer, 'to', to);
+    try {
+      const { layers } = await sendMessageToContentScript('MOVE_LAYER', { layer, to }, signal);
+      return {
+        success: true,
+        layers
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error moving layer:', error);
+      return {
+        success: false,
+        layers: [],
+        error: error instanceof Error ? error.message : 'Unknown error moving layer'
+      };
+    }
+  },
+
+  /**
+   * Capture the map as it is drawn in the active tab, cropped to the map
+   */
+  captureMapScreenshot: async (signal?: AbortSignal): Promise<MapScreenshotResult> => {
+    console.log('Capturing the Earth Engine map');
+    try {
+      const tab = await getActiveTab(signal);
+      const { view, devicePixelRatio } = await sendMessageToContentScript('GET_MAP_VIEW', {}, signal);
+      const page = await abortable(chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' }), signal);
+      return {
+        success: true,
+        image: await abortable(cropMapScreenshot(page, view.rect, devicePixelRatio), signal)
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error capturing map:', error);
+      return {
+        success: false,
+        image: null,
+        error: error instanceof Error ? error.message : 'Unknown error capturing map'
+      };
+    }
+  },
+
+  /**
+   * Read the data behind the charts in the console as typed rows
+   */
+  getChartData: async (signal?: AbortSignal, runId?: string): Promise<ChartDataResult> => {
+    console.log('Reading Earth Engine chart data');
+    try {
+      const { charts } = await sendMessageToContentScript('GET_CHART_DATA', { runId }, signal);
+      return {
+        success: true,
+        charts
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error reading chart data:', error);
+      return {
+        success: false,
+        charts: [],
+        error: error instanceof Error ? error.message : 'Unknown error reading chart data'
+      };
+    }
+  },
+
+  /**
+   * Receive console entries as they appear until the returned function is
+   * called or the signal aborts. Without a reachable tab nothing is received.
+   */
+  watchConsole: async (onEntry: (entry: ConsoleEntry) => void, signal?: AbortSignal): Promise<() => void> => {
+    try {
+      const tabId = await getActiveTabId(signal);
+      const disconnect = connectToTab(tabId, CONSOLE_PORT_NAME, ConsoleEntrySchema, onEntry);
+      const stop = () => {
+        signal?.removeEventListener('abort', stop);
+        disconnect();
+      };
+      signal?.addEventListener('abort', stop);
+      return stop;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error watching console:', error);
+      return () => {};
+    }
+  },
+
   /**
    * Access tasks in Earth Engine
    */
   getTasks: async (): Promise<TaskResult> => {
     console.log('Accessing Earth Engine tasks');
     try {
-      const response = await sendMessageToContentScript('GET_TASKS', {});
+      const { tasks } = await sendMessageToContentScript('GET_TASKS', {});
       return {
-        success: response?.success || false,
-        tasks: response?.tasks || [],
-        error: response?.error
+        success: true,
+        tasks
       };
     } catch (error) {
       console.error('Error accessing tasks:', error);
@@ -398,11 +478,10 @@ export const EarthEngineTools = {
   editScript: async (scriptId: string, content: string): Promise<ScriptEditResult> => {
     console.log('Editing script in Earth Engine:', scriptId);
     try {
-      const response = await sendMessageToContentScript('EDIT_SCRIPT', { scriptId, content });
+      const { message } = await sendMessageToContentScript('EDIT_SCRIPT', { scriptId, content });
       return {
-        success: response?.success || false,
-        message: response?.message || 'Script edited successfully',
-        error: response?.error
+        success: true,
+        message
       };
     } catch (error) {
       console.error('Error editing script:', error);
@@ -414,6 +493,50 @@ export const EarthEngineTools = {
     }
   },
 
+  /**
+   * Read the script currently open in the Earth Engine editor
+   */
+  getEditorCode: async (signal?: AbortSignal): Promise<EditorCodeResult> => {
+    console.log('Reading the script in the Earth Engine editor');
+    try {
+      const { code } = await sendMessageToContentScript('GET_EDITOR_CODE', {}, signal);
+      return {
+        success: true,
+        code
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error reading editor code:', error);
+      return {
+        success: false,
+        code: '',
+        error: error instanceof Error ? error.message : 'Unknown error reading editor code'
+      };
+    }
+  },
+
+  /**
+   * Read the geometries and assets imported into the open script
+   */
+  getEditorImports: async (signal?: AbortSignal): Promise<EditorImportsResult> => {
+    console.log('Reading the imports of the Earth Engine script');
+    try {
+      const { imports } = await sendMessageToContentScript('GET_EDITOR_IMPORTS', {}, signal);
+      return {
+        success: true,
+        imports
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Error reading editor imports:', error);
+      return {
+        success: false,
+        imports: [],
+        error: error instanceof Error ? error.message : 'Unknown error reading editor imports'
+      };
+    }
+  },
+
   /**
    * Search Earth Engine API documentation
    */
@@ -0,0 +1,15 @@
+/**
+ * Page bridge for Earth Engine Agent
+ *
+ * Injected into the Code Editor page's MAIN world, where the Ace editor and
+ * map instances are reachable. The content script drives the editor and the
+ * map through it (see lib/editor and lib/map).
+ */
+
+import { createAceHandlers, findPageEditor, startPageBridge } from '../lib/editor/aceBridge';
+import { createMapHandlers, findPageMap } from '../lib/map/mapBridge';
+
+startPageBridge(window, {
+  ...createAceHandlers(() => findPageEditor()),
+  ...createMapHandlers(() => findPageMap())
+});
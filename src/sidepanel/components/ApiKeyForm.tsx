@@ -1,104 +1,196 @@
-import React, { useState, useEffect } from 'react';
-import { saveApiKey, getApiKey, isApiKeySet } from '@/lib/config';
+import React, { useState, useEffect, useRef } from 'react';
+import { saveApiKey, getApiKey, getProviderSettings, saveProviderSettings, getPriceTable, saveModelPrice } from '@/lib/config';
+import { PROVIDER_DEFAULTS } from '@/lib/llm';
+import { findModelPrice, PriceTable } from '@/lib/llm/pricing';
+import { PROVIDER_IDS, ProviderId } from '@/lib/llm/types';
 
 interface ApiKeyFormProps {
   onApiKeySet: () => void;
 }
 
 const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ onApiKeySet }) => {
+  const [provider, setProvider] = useState<ProviderId>('openai');
   const [apiKey, setApiKey] = useState('');
+  const [hasStoredKey, setHasStoredKey] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [model, setModel] = useState('');
+  const [apiVersion, setApiVersion] = useState('');
+  const [priceTable, setPriceTable] = useState<PriceTable>({});
+  // Prices in US dollars per million tokens, empty when unknown
+  const [inputPrice, setInputPrice] = useState('');
+  const [outputPrice, setOutputPrice] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const keyRequest = useRef(0);
 
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const effectiveModel = model.trim() || defaults.model;
+
+  // Show the known price of the chosen model
   useEffect(() => {
-    // Check if API key is already set
-    const checkApiKey = async () => {
+    const price = effectiveModel ? findModelPrice(effectiveModel, priceTable) : undefined;
+    setInputPrice(price ? String(price.input) : '');
+    setOutputPrice(price ? String(price.output) : '');
+  }, [effectiveModel, priceTable]);
+
+  // Show the key stored for a provider, masked, or an empty field if it has none
+  const showStoredKey = async (selected: ProviderId) => {
+    const request = ++keyRequest.current;
+    setApiKey('');
+    setHasStoredKey(false);
+    try {
+      const key = await getApiKey(selected);
+      // Another provider was chosen while this key loaded
+      if (request !== keyRequest.current) return;
+      if (key) {
+        // Show a masked version of the key (only last 4 chars)
+        const maskedKey = '*'.repeat(Math.max(key.length - 4, 0)) + key.slice(-4);
+        setApiKey(maskedKey);
+        setHasStoredKey(true);
+      }
+    } catch (err) {
+      console.error('Error retrieving API key:', err);
+      setLoadError('Error retrieving your API key. You may need to enter it again.');
+    }
+  };
+
+  useEffect(() => {
+    // Load the saved provider settings and check if an API key is already set
+    const loadSettings = async () => {
       try {
-        const keyExists = await isApiKeySet();
-        if (keyExists) {
-          try {
-            const key = await getApiKey();
-            if (key) {
-              // Show a masked version of the key (only last 4 chars)
-              const maskedKey = '*'.repeat(key.length - 4) + key.slice(-4);
-              setApiKey(maskedKey);
-            }
-          } catch (err) {
-            console.error('Error retrieving API key:', err);
-            setLoadError('Error retrieving your API key. You may need to enter it again.');
-          }
-        }
+        const settings = await getProviderSettings();
+        setProvider(settings.provider);
+        setBaseUrl(settings.baseUrl || '');
+        setModel(settings.model || '');
+        setApiVersion(settings.apiVersion || '');
+        setPriceTable(await getPriceTable());
+        await showStoredKey(settings.provider);
       } catch (err) {
-        console.error('Error checking API key status:', err);
-        setLoadError('Error checking API key status. Please try refreshing the page.');
+        console.error('Error loading provider settings:', err);
+        setLoadError('Error loading your settings. Please try refreshing the page.');
       }
     };
-    
-    checkApiKey();
+
+    loadSettings();
   }, []);
 
-  const validateApiKey = (key: string): boolean => {
-    if (!key || key.trim() === '') {
+  // An unchanged masked key means "keep the stored key"
+  const isMaskedKey = (key: string) => hasStoredKey && key.includes('*');
+
+  const validateSettings = (key: string): boolean => {
+    if (defaults.requiresApiKey && (!key || key.trim() === '')) {
       setError('API key is required');
       return false;
     }
-    
-    // Check if it's the masked key from the UI
-    if (key.includes('*')) {
+
+    // A masked key only makes sense if we have a stored key to keep
+    if (key.includes('*') && !hasStoredKey) {
       setError('Please enter your full API key');
       return false;
     }
-    
-    // Basic OpenAI key format validation
-    const openAIKeyPattern = /^sk-[a-zA-Z0-9_-]{32,}$/;
-    if (!openAIKeyPattern.test(key.trim())) {
-      setError('Invalid API key format. OpenAI keys should start with "sk-" followed by at least 32 characters.');
+
+    if (provider === 'azure-openai' && (!baseUrl.trim() || !model.trim())) {
+      setError('Azure OpenAI requires the resource endpoint and the deployment name.');
+      return false;
+    }
+
+    if (baseUrl.trim() && !/^https?:\/\//.test(baseUrl.trim())) {
+      setError('Base URL must start with http:// or https://');
+      return false;
+    }
+
+    const prices = [inputPrice, outputPrice].map(price => price.trim());
+    if (prices.some(price => price !== '' && !(Number(price) >= 0))) {
+      setError('Token prices must be zero or positive numbers');
+      return false;
+    }
+    if (prices.filter(price => price !== '').length === 1) {
+      setError('Enter both the input and the output price, or neither');
       return false;
     }
-    
+
     return true;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
-    
+
     const trimmedKey = apiKey.trim();
-    if (!validateApiKey(trimmedKey)) {
+    if (!validateSettings(trimmedKey)) {
       return;
     }
-    
+
     try {
       setSaving(true);
-      await saveApiKey(trimmedKey);
+      await saveProviderSettings({
+        provider,
+        baseUrl: baseUrl.trim() || undefined,
+        model: model.trim() || undefined,
+        apiVersion: provider === 'azure-openai' ? apiVersion.trim() || undefined : undefined
+      });
+      if (!isMaskedKey(trimmedKey)) {
+        await saveApiKey(provider, trimmedKey);
+      }
+      if (effectiveModel && inputPrice.trim() && outputPrice.trim()) {
+        const price = { input: Number(inputPrice), output: Number(outputPrice) };
+        const known = findModelPrice(effectiveModel, priceTable);
+        if (!known || known.input !== price.input || known.output !== price.output) {
+          await saveModelPrice(effectiveModel, price);
+        }
+      }
       onApiKeySet();
     } catch (err) {
-      console.error('Error saving API key:', err);
-      setError('Failed to save API key: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      console.error('Error saving settings:', err);
+      setError('Failed to save settings: ' + (err instanceof Error ? err.message : 'Unknown error'));
     } finally {
       setSaving(false);
     }
   };
 
+  const inputClassName = "w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500";
+
   return (
     <div className="p-4 bg-white rounded-lg shadow-md">
-      <h2 className="text-xl font-semibold mb-4">API Key Configuration</h2>
+      <h2 className="text-xl font-semibold mb-4">Model Provider Configuration</h2>
       <p className="mb-4 text-sm text-gray-700">
-        To use the Earth Agent, you need to provide your OpenAI API key. 
+        Choose the language model provider Earth Agent should use.
         Your key will be stored securely in your browser's local storage.
       </p>
-      
+
       {loadError && (
         <div className="mb-4 p-3 bg-yellow-100 text-yellow-800 rounded-md">
           <p>{loadError}</p>
         </div>
       )}
-      
+
       <form onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-1">
+            Provider
+          </label>
+          <select
+            id="provider"
+            value={provider}
+            onChange={(e) => {
+              const selected = e.target.value as ProviderId;
+              setProvider(selected);
+              setError(null);
+              // Each provider has its own key; never carry one over to another
+              showStoredKey(selected);
+            }}
+            className={inputClassName}
+          >
+            {PROVIDER_IDS.map(id => (
+              <option key={id} value={id}>{PROVIDER_DEFAULTS[id].label}</option>
+            ))}
+          </select>
+        </div>
+
         <div className="mb-4">
           <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-1">
-            OpenAI API Key
+            API Key{!defaults.requiresApiKey && ' (optional)'}
           </label>
           <input
             id="apiKey"
@@ -108,28 +200,114 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ onApiKeySet }) => {
               setApiKey(e.target.value);
               setError(null); // Clear error when user types
             }}
-            placeholder="sk-..."
-            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            placeholder={defaults.requiresApiKey ? 'Your API key' : 'Leave empty for local servers'}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="mb-4">
+          <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+            {provider === 'azure-openai' ? 'Resource Endpoint' : 'Base URL'}
+          </label>
+          <input
+            id="baseUrl"
+            type="text"
+            value={baseUrl}
+            onChange={(e) => {
+              setBaseUrl(e.target.value);
+              setError(null);
+            }}
+            placeholder={defaults.baseUrl || 'https://your-resource.openai.azure.com'}
+            className={inputClassName}
           />
-          {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
         </div>
-        
+
+        <div className="mb-4">
+          <label htmlFor="model" className="block text-sm font-medium text-gray-700 mb-1">
+            {provider === 'azure-openai' ? 'Deployment Name' : 'Model'}
+          </label>
+          <input
+            id="model"
+            type="text"
+            value={model}
+            onChange={(e) => {
+              setModel(e.target.value);
+              setError(null);
+            }}
+            placeholder={defaults.model || 'my-gpt-4o-deployment'}
+            className={inputClassName}
+          />
+        </div>
+
+        {provider === 'azure-openai' && (
+          <div className="mb-4">
+            <label htmlFor="apiVersion" className="block text-sm font-medium text-gray-700 mb-1">
+              API Version
+            </label>
+            <input
+              id="apiVersion"
+              type="text"
+              value={apiVersion}
+              onChange={(e) => setApiVersion(e.target.value)}
+              placeholder="2024-06-01"
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        <div className="mb-4">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            Price per million tokens (USD)
+          </span>
+          <div className="flex gap-2">
+            <input
+              id="inputPrice"
+              type="text"
+              inputMode="decimal"
+              aria-label="Input price per million tokens"
+              value={inputPrice}
+              onChange={(e) => {
+                setInputPrice(e.target.value);
+                setError(null);
+              }}
+              placeholder="Input"
+              className={inputClassName}
+            />
+            <input
+              id="outputPrice"
+              type="text"
+              inputMode="decimal"
+              aria-label="Output price per million tokens"
+              value={outputPrice}
+              onChange={(e) => {
+                setOutputPrice(e.target.value);
+                setError(null);
+              }}
+              placeholder="Output"
+              className={inputClassName}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Used to estimate the cost of each request. Leave empty for free or local models.</p>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
         <button
           type="submit"
           disabled={saving}
-          className={`w-full py-2 px-4 rounded-md text-white font-medium 
+          className={`w-full py-2 px-4 rounded-md text-white font-medium
             ${saving ? 'bg-gray-400' : 'bg-green-600 hover:bg-green-700'}`}
         >
-          {saving ? 'Saving...' : 'Save API Key'}
+          {saving ? 'Saving...' : 'Save Settings'}
         </button>
       </form>
-      
+
       <div className="mt-4 text-sm text-gray-500">
-        <p>You can get an API key from <a href="https://platform.openai.com/api-keys" target="_blank" className="text-blue-600 hover:underline">OpenAI's website</a>.</p>
+        <p>For a local server such as Ollama or llama.cpp, choose "{PROVIDER_DEFAULTS['openai-compatible'].label}" and point the base URL at its OpenAI-compatible endpoint.</p>
         <p className="mt-1">Your API key is only stored in your browser and is never sent to our servers.</p>
       </div>
     </div>
   );
 };
 
-export default ApiKeyForm; 
\ No newline at end of file
+export default ApiKeyForm;
@@ -3,20 +3,22 @@ import ReactDOM from 'react-dom/client'
 import '../styles/globals.css'
 import { ChatInterface } from '../components/ChatInterface'
 import ApiKeyForm from './components/ApiKeyForm'
-import { isApiKeySet } from '@/lib/config'
+import { getProviderSettings } from '@/lib/config'
+import { isProviderConfigured } from '@/lib/llm'
 
 const Sidepanel: React.FC = () => {
   const [isApiKeyConfigured, setIsApiKeyConfigured] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
+  const [showSettings, setShowSettings] = useState(false)
   
   useEffect(() => {
-    // Check if API key is set on component mount
+    // Check if the model provider is configured on component mount
     const checkApiKey = async () => {
       try {
-        const hasApiKey = await isApiKeySet();
-        setIsApiKeyConfigured(hasApiKey);
+        const providerSettings = await getProviderSettings();
+        setIsApiKeyConfigured(isProviderConfigured(providerSettings));
       } catch (err) {
-        console.error('Error checking API key status:', err);
+        console.error('Error checking provider settings:', err);
       } finally {
         setIsLoading(false);
       }
@@ -27,12 +29,23 @@ const Sidepanel: React.FC = () => {
   
   const handleApiKeySet = () => {
     setIsApiKeyConfigured(true);
+    setShowSettings(false);
   };
   
   return (
     <div className="flex flex-col h-full w-full">
       <header className="p-4 border-b">
-        <h1 className="text-xl font-bold mb-2">Earth Agent</h1>
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-xl font-bold">Earth Agent</h1>
+          {isApiKeyConfigured && (
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showSettings ? 'Back to chat' : 'Settings'}
+            </button>
+          )}
+        </div>
         <p className="text-sm text-gray-600">
           AI-powered assistant for Google Earth Engine
         </p>
@@ -43,7 +56,7 @@ const Sidepanel: React.FC = () => {
           <div className="flex items-center justify-center h-full">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-green-500"></div>
           </div>
-        ) : !isApiKeyConfigured ? (
+        ) : !isApiKeyConfigured || showSettings ? (
           <div className="flex-1 flex items-center justify-center w-full">
             <div className="w-full max-w-md">
               <ApiKeyForm onApiKeySet={handleApiKeySet} />
@@ -34,7 +34,7 @@ export default defineConfig({
       input: {
         sidepanel: resolve(__dirname, 'src/sidepanel/sidepanel.html'),
         background: resolve(__dirname, 'src/background/background.ts'),
-        contentScript: resolve(__dirname, 'src/contentScript/contentScript.ts'),
+        // The content script is built separately by vite.content.config.ts
       },
       output: {
         entryFileNames: '[name].js',
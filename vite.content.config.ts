@@ -0,0 +1,32 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// Scripts injected into the page cannot be ES modules, so the content script
+// and the page bridge are each built on their own as a single self-contained
+// file after the main build (`--mode pageBridge` selects the page bridge)
+const entries: Record<string, { path: string; name: string }> = {
+  contentScript: { path: 'src/contentScript/contentScript.ts', name: 'EarthAgentContentScript' },
+  pageBridge: { path: 'src/pageBridge/pageBridge.ts', name: 'EarthAgentPageBridge' },
+};
+
+export default defineConfig(({ mode }) => {
+  const entry = entries[mode] ?? entries.contentScript;
+  const fileName = mode in entries ? mode : 'contentScript';
+  return {
+    resolve: {
+      alias: {
+        '@': resolve(__dirname, 'src'),
+      },
+    },
+    build: {
+      lib: {
+        entry: resolve(__dirname, entry.path),
+        name: entry.name,
+        formats: ['iife'],
+        fileName: () => `${fileName}.js`,
+      },
+      outDir: 'dist',
+      emptyOutDir: false,
+    },
+  };
+});